@@ -0,0 +1,307 @@
+// Servidor local de colaboração em tempo real (seção 2.9 do App.tsx).
+// Repassa as operações CRDT entre os clientes de cada quadro, guarda em memória o
+// estado compactado delas para quem entra depois e mantém a lista de presença.
+// Implementa o mínimo do WebSocket (RFC 6455) sem pacotes externos:
+//   npm run collab-server          (porta 4001)
+//   PORT=5001 npm run collab-server
+//
+// Mensagens (JSON):
+//   cliente -> { type: 'join', boardId, clientId, member, cardId, mode }
+//              { type: 'ops', ops } | { type: 'presence', cardId, mode }
+//   servidor -> { type: 'snapshot', ops } | { type: 'ops', ops }
+//               { type: 'presence', peers: [{ clientId, member, cardId, mode }] }
+//               { type: 'ack', stamp } (maior marca guardada do envio; o
+//               cliente mantém na fila o que ainda não foi confirmado)
+//
+// O servidor não resolve conflitos: a mescla é determinística nos clientes,
+// então basta entregar a todos as mesmas operações. Como vence a escrita mais
+// recente de cada campo, guardar só ela (e a exclusão mais recente de cada
+// registro) dá aos clientes o mesmo resultado que o histórico inteiro.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 4001);
+// Tamanho máximo de uma mensagem recebida
+const MAX_MESSAGE_SIZE = 5 * 1024 * 1024;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Quadros: registros (cartões e listas) com a última escrita de cada campo e
+// conexões presentes
+const rooms = new Map();
+
+const getRoom = (boardId) => {
+  if (!rooms.has(boardId)) {
+    rooms.set(boardId, { records: new Map(), connections: new Set() });
+  }
+  return rooms.get(boardId);
+};
+
+const isRecord = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidOperation = (op) =>
+  isRecord(op) &&
+  typeof op.stamp === 'string' &&
+  (op.kind === 'card' || op.kind === 'list') &&
+  typeof op.id === 'string' &&
+  (op.fields === null || isRecord(op.fields));
+
+// Guarda a operação no registro, mantendo em cada campo a marca mais recente
+const storeOperation = (room, op) => {
+  const key = `${op.kind}:${op.id}`;
+  const record = room.records.get(key) ?? {
+    kind: op.kind,
+    boardId: op.boardId,
+    id: op.id,
+    fields: new Map(),
+    deletedAt: null,
+  };
+  if (op.fields === null) {
+    if (record.deletedAt === null || op.stamp > record.deletedAt) {
+      record.deletedAt = op.stamp;
+    }
+  } else {
+    Object.entries(op.fields).forEach(([field, value]) => {
+      const current = record.fields.get(field);
+      if (!current || op.stamp > current.stamp) {
+        record.fields.set(field, { value, stamp: op.stamp });
+      }
+    });
+  }
+  room.records.set(key, record);
+};
+
+// Operações que reproduzem os registros do quadro (campos com a mesma marca
+// voltam juntos)
+const getSnapshotOps = (room) =>
+  [...room.records.values()].flatMap(
+    ({ kind, boardId, id, fields, deletedAt }) => {
+      const fieldsByStamp = new Map();
+      fields.forEach(({ value, stamp }, field) => {
+        fieldsByStamp.set(stamp, {
+          ...fieldsByStamp.get(stamp),
+          [field]: value,
+        });
+      });
+      const ops = [...fieldsByStamp].map(([stamp, opFields]) => ({
+        stamp,
+        kind,
+        boardId,
+        id,
+        fields: opFields,
+      }));
+      if (deletedAt !== null) {
+        ops.push({ stamp: deletedAt, kind, boardId, id, fields: null });
+      }
+      return ops;
+    }
+  );
+
+// --- Frames do WebSocket ---
+
+const sendFrame = (socket, opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  if (!socket.destroyed) socket.write(Buffer.concat([header, payload]));
+};
+
+const sendJson = (connection, message) =>
+  sendFrame(
+    connection.socket,
+    OPCODE_TEXT,
+    Buffer.from(JSON.stringify(message))
+  );
+
+const closeConnection = (connection) => {
+  if (connection.socket.destroyed) return;
+  sendFrame(connection.socket, OPCODE_CLOSE, Buffer.alloc(0));
+  connection.socket.end();
+};
+
+// Extrai os frames completos do buffer; mensagens fragmentadas são remontadas
+const readFrames = (connection, onMessage) => {
+  for (;;) {
+    const buffer = connection.buffer;
+    if (buffer.length < 2) return;
+    const isFinal = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const isMasked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) return;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    // Frames de clientes sempre vêm mascarados
+    if (!isMasked || length > MAX_MESSAGE_SIZE) {
+      closeConnection(connection);
+      return;
+    }
+    if (buffer.length < offset + 4 + length) return;
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(
+      buffer.subarray(offset + 4, offset + 4 + length)
+    );
+    for (let index = 0; index < payload.length; index += 1) {
+      payload[index] ^= mask[index % 4];
+    }
+    connection.buffer = buffer.subarray(offset + 4 + length);
+
+    if (opcode === OPCODE_CLOSE) {
+      closeConnection(connection);
+      return;
+    }
+    if (opcode === OPCODE_PING) {
+      sendFrame(connection.socket, OPCODE_PONG, payload);
+    } else if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+      connection.fragments.push(payload);
+      const size = connection.fragments.reduce(
+        (sum, part) => sum + part.length,
+        0
+      );
+      if (size > MAX_MESSAGE_SIZE) {
+        closeConnection(connection);
+        return;
+      }
+      if (isFinal) {
+        const text = Buffer.concat(connection.fragments).toString('utf8');
+        connection.fragments = [];
+        onMessage(text);
+      }
+    }
+  }
+};
+
+// --- Quadros, operações e presença ---
+
+const broadcastPresence = (room) => {
+  const peers = [...room.connections]
+    .filter((connection) => connection.peer)
+    .map((connection) => connection.peer);
+  room.connections.forEach((connection) =>
+    sendJson(connection, { type: 'presence', peers })
+  );
+};
+
+const leaveRoom = (connection) => {
+  if (!connection.boardId) return;
+  const room = getRoom(connection.boardId);
+  room.connections.delete(connection);
+  connection.boardId = null;
+  broadcastPresence(room);
+};
+
+const handleMessage = (connection, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (!isRecord(message)) return;
+
+  if (message.type === 'join' && typeof message.boardId === 'string') {
+    leaveRoom(connection);
+    const room = getRoom(message.boardId);
+    connection.boardId = message.boardId;
+    connection.peer = {
+      clientId: String(message.clientId),
+      member: message.member,
+      cardId: typeof message.cardId === 'string' ? message.cardId : null,
+      mode: message.mode === 'editing' ? 'editing' : 'viewing',
+    };
+    room.connections.add(connection);
+    sendJson(connection, { type: 'snapshot', ops: getSnapshotOps(room) });
+    broadcastPresence(room);
+    return;
+  }
+  if (!connection.boardId) return;
+  const room = getRoom(connection.boardId);
+
+  if (message.type === 'ops' && Array.isArray(message.ops)) {
+    // Cada quadro só recebe operações dele
+    const ops = message.ops.filter(
+      (op) => isValidOperation(op) && op.boardId === connection.boardId
+    );
+    ops.forEach((op) => storeOperation(room, op));
+    room.connections.forEach((other) => {
+      if (other !== connection) sendJson(other, { type: 'ops', ops });
+    });
+    const stamp = ops.reduce(
+      (highest, op) =>
+        typeof op.stamp === 'string' && op.stamp > highest ? op.stamp : highest,
+      ''
+    );
+    if (stamp) sendJson(connection, { type: 'ack', stamp });
+  } else if (message.type === 'presence') {
+    connection.peer = {
+      ...connection.peer,
+      cardId: typeof message.cardId === 'string' ? message.cardId : null,
+      mode: message.mode === 'editing' ? 'editing' : 'viewing',
+    };
+    broadcastPresence(room);
+  }
+};
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain; charset=utf-8' });
+  response.end('Use uma conexão WebSocket');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1')
+    .update(key + WEBSOCKET_GUID)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection = {
+    socket,
+    buffer: Buffer.alloc(0),
+    fragments: [],
+    boardId: null,
+    peer: null,
+  };
+  socket.on('data', (chunk) => {
+    connection.buffer = Buffer.concat([connection.buffer, chunk]);
+    readFrames(connection, (text) => handleMessage(connection, text));
+  });
+  socket.on('close', () => leaveRoom(connection));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Servidor de colaboração em ws://localhost:${PORT}`);
+});
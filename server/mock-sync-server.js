@@ -0,0 +1,129 @@
+// Servidor de referência para a sincronização do Kanban (seção 2.8 do App.tsx).
+// Guarda tudo em memória e não depende de pacotes externos:
+//   npm run mock-server          (porta 4000)
+//   PORT=5000 npm run mock-server
+//
+// API (prefixo /api):
+//   PUT    /boards/:boardId/cards/:id  { clientId, record } -> { seq }
+//   DELETE /boards/:boardId/cards/:id  { clientId }         -> { seq }
+//   PUT    /boards/:boardId/lists/:id  { clientId, record } -> { seq }
+//   DELETE /boards/:boardId/lists/:id  { clientId }         -> { seq }
+//   GET    /changes?since=N -> { cursor, changes: [{ seq, clientId, kind, boardId, id, record }] }
+//
+// Cada registro guarda só a última versão recebida (vale a última gravação) e a
+// exclusão fica registrada com record null, para chegar a quem ainda não a viu.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 4000);
+// Tamanho máximo do corpo de uma requisição
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+// Última mudança de cada registro (chave = tipo:quadro:ID), em ordem de seq
+const changes = new Map();
+let seq = 0;
+
+const RECORD_PATH = /^\/api\/boards\/([^/]+)\/(cards|lists)\/([^/]+)$/;
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const readJson = (request) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new Error('Corpo da requisição grande demais'));
+        request.destroy();
+      }
+    });
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new Error('JSON inválido'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const isRecord = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Grava (ou exclui, com record null) um cartão ou lista e devolve o novo seq
+const recordChange = (kind, boardId, id, clientId, record) => {
+  const key = `${kind}:${boardId}:${id}`;
+  seq += 1;
+  // Remove e reinsere para manter o Map ordenado por seq
+  changes.delete(key);
+  changes.set(key, { seq, clientId, kind, boardId, id, record });
+  return seq;
+};
+
+const handleRequest = async (request, response) => {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host}`);
+
+  if (request.method === 'GET' && url.pathname === '/api/changes') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) {
+      sendJson(response, 400, { error: 'Parâmetro "since" inválido' });
+      return;
+    }
+    sendJson(response, 200, {
+      cursor: seq,
+      changes: [...changes.values()].filter((change) => change.seq > since),
+    });
+    return;
+  }
+
+  const match = RECORD_PATH.exec(url.pathname);
+  if (!match || (request.method !== 'PUT' && request.method !== 'DELETE')) {
+    sendJson(response, 404, { error: 'Rota não encontrada' });
+    return;
+  }
+  const boardId = decodeURIComponent(match[1]);
+  const kind = match[2] === 'cards' ? 'card' : 'list';
+  const id = decodeURIComponent(match[3]);
+
+  const body = await readJson(request);
+  if (!isRecord(body) || typeof body.clientId !== 'string') {
+    sendJson(response, 400, { error: 'Informe o clientId' });
+    return;
+  }
+  if (request.method === 'DELETE') {
+    sendJson(response, 200, {
+      seq: recordChange(kind, boardId, id, body.clientId, null),
+    });
+    return;
+  }
+  if (!isRecord(body.record) || body.record.id !== id) {
+    sendJson(response, 400, { error: 'Registro ausente ou com ID diferente' });
+    return;
+  }
+  sendJson(response, 200, {
+    seq: recordChange(kind, boardId, id, body.clientId, body.record),
+  });
+};
+
+const server = createServer((request, response) => {
+  // O app roda em outra porta (Vite), então a API precisa liberar CORS
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+  handleRequest(request, response).catch((error) => {
+    if (!response.headersSent)
+      sendJson(response, 400, { error: error.message });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Servidor de sincronização em http://localhost:${PORT}/api`);
+});
@@ -2,6 +2,8 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useRef,
+  useMemo,
   type DragEventHandler,
   // Removido MouseEventHandler: erro TS6133
 } from 'react';
@@ -15,6 +17,37 @@ import {
   X,
   Search,
   Filter,
+  Download,
+  Upload,
+  Pencil,
+  Copy,
+  Undo2,
+  Redo2,
+  MoreHorizontal,
+  Clock,
+  TriangleAlert,
+  ArrowUpDown,
+  User,
+  SquareCheckBig,
+  ListChecks,
+  ChevronUp,
+  ChevronDown,
+  ChevronRight,
+  SquarePlus,
+  MessageSquare,
+  History,
+  Paperclip,
+  FileText,
+  ImageIcon,
+  Cloud,
+  CloudOff,
+  RefreshCw,
+  Users,
+  WifiOff,
+  Archive,
+  ArchiveRestore,
+  LayoutTemplate,
+  Repeat,
 } from 'lucide-react';
 
 // --- SEÇÃO 1: TIPAGEM DE DADOS (INTERFACES) ---
@@ -28,6 +61,129 @@ interface IList {
   title: string;
   colorVar: string; // Variável CSS para a cor da lista
   order: number;
+  wipLimit: IWipLimit | null; // Limite de trabalho em andamento (null = sem limite)
+}
+
+/**
+ * @interface IWipLimit
+ * Limite de cartões de uma lista. No modo estrito, mover um cartão além do limite
+ * é bloqueado; no flexível, o movimento pede confirmação.
+ */
+interface IWipLimit {
+  max: number; // Inteiro positivo
+  mode: WipLimitMode;
+}
+
+/**
+ * @interface ILabel
+ * Define uma Etiqueta do quadro, que pode ser aplicada aos cartões.
+ */
+interface ILabel {
+  id: string;
+  name: string;
+  colorVar: string; // Variável CSS para a cor da etiqueta
+}
+
+/**
+ * @interface IMember
+ * Define um Membro do quadro, que pode ser responsável por cartões.
+ */
+interface IMember {
+  id: string;
+  name: string;
+  initials: string; // Exibidas no avatar
+  colorVar: string; // Variável CSS para a cor do avatar
+}
+
+/**
+ * @interface ILane
+ * Raia manual do quadro, escolhida em cada cartão quando as raias agrupam por raia.
+ */
+interface ILane {
+  id: string;
+  name: string;
+}
+
+/**
+ * @interface IDueDate
+ * Prazo de um cartão. Sem horário, o prazo vale até o fim do dia (no fuso local).
+ */
+interface IDueDate {
+  at: number; // Timestamp (meia-noite local quando `hasTime` é false)
+  hasTime: boolean;
+}
+
+/**
+ * @interface IChecklistItem
+ * Item de um checklist de cartão.
+ */
+interface IChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+/**
+ * @interface IChecklist
+ * Checklist nomeado dentro de um cartão; a ordem dos itens é a do array.
+ */
+interface IChecklist {
+  id: string;
+  title: string;
+  items: IChecklistItem[];
+}
+
+/**
+ * @interface IComment
+ * Comentário em um cartão. O autor é o nome no momento em que foi escrito.
+ */
+interface IComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number; // Timestamp
+  editedAt: number | null; // Timestamp da última edição
+}
+
+/**
+ * @interface IAttachment
+ * Metadados de um arquivo anexado ao cartão. O conteúdo fica no IndexedDB sob
+ * o mesmo ID, já que o localStorage não comporta dados binários.
+ */
+interface IAttachment {
+  id: string;
+  name: string;
+  type: string; // Tipo MIME ('' quando desconhecido)
+  size: number; // Em bytes
+  createdAt: number; // Timestamp
+}
+
+// Eventos registrados automaticamente na atividade do cartão
+type CardActivity =
+  | { type: 'created'; listTitle: string }
+  | { type: 'renamed'; from: string; to: string }
+  | { type: 'description-edited' }
+  | { type: 'moved'; fromListTitle: string; toListTitle: string };
+
+// Evento da atividade com identificação e momento (listas guardadas pelo título da época)
+type CardActivityEntry = { id: string; at: number } & CardActivity;
+
+// Quando um cartão recorrente gera uma cópia (dias da semana: 0 = domingo)
+type RecurrenceRule =
+  | { kind: 'daily' }
+  | { kind: 'weekly'; weekdays: number[] }
+  | { kind: 'monthly'; day: number } // Em meses mais curtos, vale o último dia
+  | { kind: 'interval'; days: number };
+
+/**
+ * @interface IRecurrence
+ * Repetição de um cartão: a regra, a lista que recebe as cópias e o último dia
+ * que já gerou cópia (as próximas são contadas a partir dele).
+ */
+interface IRecurrence {
+  rule: RecurrenceRule;
+  listId: string;
+  lastSpawnAt: number; // Meia-noite local do dia
 }
 
 /**
@@ -40,6 +196,65 @@ interface ICard {
   title: string;
   description: string;
   createdAt: number; // Timestamp
+  position: number; // Posição do cartão dentro da lista (0 = topo)
+  labelIds: string[]; // Etiquetas do quadro aplicadas ao cartão
+  due: IDueDate | null; // Prazo opcional
+  assigneeIds: string[]; // Membros do quadro responsáveis pelo cartão
+  checklists: IChecklist[];
+  comments: IComment[]; // Do mais antigo para o mais recente
+  activity: CardActivityEntry[]; // Do mais antigo para o mais recente
+  attachments: IAttachment[]; // Os dados binários ficam no IndexedDB
+  coverAttachmentId: string | null; // Anexo de imagem exibido como capa
+  recurrence: IRecurrence | null; // Gera cópias periódicas (null = não repete)
+  priority: CardPriority | null;
+  laneId: string | null; // Raia manual do quadro
+}
+
+/**
+ * @interface ICardTemplate
+ * Modelo de cartão do quadro. No título, {data} vira a data de criação e
+ * {lista} o nome da lista onde o cartão entra.
+ */
+interface ICardTemplate {
+  id: string;
+  name: string;
+  titlePattern: string;
+  description: string;
+  labelIds: string[];
+  assigneeIds: string[];
+  checklists: IChecklist[]; // Copiados com novos IDs a cada cartão criado
+  dueInDays: number | null; // Prazo contado a partir da criação (null = sem prazo)
+  listId: string | null; // Lista de destino (null = a lista onde foi criado)
+}
+
+// Campos de um modelo editados nas configurações ou copiados de um cartão
+type CardTemplateDraft = Omit<ICardTemplate, 'id'>;
+
+// Cartão ou lista (com os cartões que estavam nela) fora do quadro. Com
+// `trashedAt` preenchido o item está na lixeira, esperando a exclusão definitiva.
+type ArchivedItem = {
+  id: string; // ID do cartão ou da lista
+  archivedAt: number; // Timestamp
+  trashedAt: number | null; // Timestamp da ida para a lixeira
+} & (
+  { kind: 'card'; card: ICard } | { kind: 'list'; list: IList; cards: ICard[] }
+);
+
+/**
+ * @interface IBoard
+ * Define um Quadro (projeto), com suas próprias listas e cartões.
+ */
+interface IBoard {
+  id: string;
+  title: string;
+  lists: IList[];
+  cards: ICard[];
+  labels: ILabel[];
+  members: IMember[];
+  templates: ICardTemplate[];
+  archive: ArchivedItem[]; // Arquivados e lixeira, do mais antigo para o mais recente
+  lanes: ILane[]; // Raias manuais, na ordem de exibição
+  swimlanes: SwimlaneGrouping; // Campo que divide o quadro em raias
 }
 
 /**
@@ -47,10 +262,180 @@ interface ICard {
  * Define o estado global do aplicativo Kanban.
  */
 interface IKanbanState {
-  lists: IList[];
-  cards: ICard[];
+  boards: IBoard[];
+  activeBoardId: string; // Último quadro aberto
   theme: 'light' | 'dark';
   searchTerm: string;
+  // Quem é o usuário em cada quadro (ID do quadro -> ID do membro), para "Meus cartões"
+  currentMemberByBoard: Record<string, string>;
+  trashRetentionDays: number | null; // Dias na lixeira até a exclusão (null = nunca)
+}
+
+/**
+ * @interface IPersistedState
+ * Envelope salvo no localStorage: o estado acompanhado da versão do esquema.
+ */
+interface IPersistedState {
+  version: number;
+  state: IKanbanState;
+}
+
+/**
+ * @interface IStorageAdapter
+ * Backend de persistência do estado. `save` pode gravar só o que mudou desde a
+ * gravação anterior; `subscribe` avisa sobre gravações feitas por outras abas.
+ */
+interface IStorageAdapter {
+  name: string; // Exibido nas configurações
+  load: () => Promise<IKanbanState | null>; // null = nada salvo ainda
+  save: (state: IKanbanState) => Promise<void>;
+  subscribe: (listener: (state: IKanbanState) => void) => () => void;
+}
+
+// Mudança em um cartão ou lista trocada com o servidor (record null = excluído)
+type SyncMutation =
+  | { kind: 'card'; boardId: string; id: string; record: ICard | null }
+  | { kind: 'list'; boardId: string; id: string; record: IList | null };
+
+// Mudança lida do servidor: numerada e com a origem, para ignorar as próprias
+type SyncChange = SyncMutation & { seq: number; clientId: string };
+
+// Situação da sincronização exibida na navbar
+type SyncStatus = 'synced' | 'pending' | 'error';
+
+/**
+ * @interface ISyncConfig
+ * Define a sincronização com o servidor salva no localStorage: o endereço da
+ * API, até onde as mudanças do servidor já foram lidas e a fila ainda não enviada.
+ */
+interface ISyncConfig {
+  url: string;
+  cursor: number; // Maior `seq` já aplicado (0 = nunca sincronizou)
+  queue: SyncMutation[];
+}
+
+/**
+ * @interface IRemoteSync
+ * Sincronização em andamento com o servidor, criada por `createRemoteSync`.
+ */
+interface IRemoteSync {
+  push: (mutations: SyncMutation[]) => void; // Enfileira e envia assim que possível
+  stop: () => void;
+}
+
+// O que um colaborador está fazendo com o cartão aberto
+type PresenceMode = 'viewing' | 'editing';
+
+/**
+ * @interface ICollabOperation
+ * Define uma escrita em um cartão ou lista trocada com o servidor de colaboração:
+ * os campos alterados (ou null para excluir), todos marcados com o mesmo `stamp`.
+ */
+interface ICollabOperation {
+  stamp: string; // Relógio lógico híbrido (veja a seção 2.9)
+  kind: 'card' | 'list';
+  boardId: string;
+  id: string;
+  fields: Record<string, unknown> | null;
+}
+
+/**
+ * @interface ICollabRecord
+ * Define o estado CRDT de um cartão ou lista: cada campo com a marca da última
+ * escrita e a marca da última exclusão.
+ */
+interface ICollabRecord {
+  kind: 'card' | 'list';
+  boardId: string;
+  id: string;
+  fields: Record<string, { value: unknown; stamp: string }>;
+  deletedAt: string | null;
+}
+
+/**
+ * @interface ICollabPeer
+ * Define outro cliente conectado ao mesmo quadro e o cartão que ele tem aberto.
+ */
+interface ICollabPeer {
+  clientId: string;
+  member: IMember; // Membro que o representa no quadro (ou um anônimo)
+  cardId: string | null;
+  mode: PresenceMode;
+}
+
+/**
+ * @interface ICollabSession
+ * Conexão com o servidor de colaboração para um quadro, criada por `createCollabSession`.
+ */
+interface ICollabSession {
+  // Transforma em operações o que mudou entre os dois estados neste quadro
+  pushLocal: (previous: IKanbanState, next: IKanbanState) => void;
+  setPresence: (cardId: string | null, mode: PresenceMode) => void;
+  stop: () => void;
+}
+
+/**
+ * @interface IQuarantineEntry
+ * Registro de um dado salvo que foi rejeitado na validação.
+ */
+interface IQuarantineEntry {
+  reason: string;
+  data: unknown;
+  quarantinedAt: number; // Timestamp
+}
+
+/**
+ * @interface IHistoryEntry
+ * Instantâneo de um quadro antes (ou depois, na pilha de refazer) de uma mutação.
+ */
+interface IHistoryEntry {
+  label: string; // Descrição da ação, ex.: 'Arquivar cartão'
+  board: IBoard;
+}
+
+/**
+ * @interface IUndoableState
+ * Estado interno do store: o estado atual e as pilhas de desfazer/refazer.
+ * O histórico não é persistido e não registra estado de interface (busca, tema).
+ */
+interface IUndoableState {
+  present: IKanbanState;
+  past: IHistoryEntry[];
+  future: IHistoryEntry[];
+}
+
+/**
+ * @interface ILabelFilter
+ * Filtro de cartões por etiquetas: qualquer uma ('any') ou todas ('all').
+ */
+interface ILabelFilter {
+  labelIds: string[];
+  mode: 'any' | 'all';
+}
+
+/**
+ * @interface IPointerDropTarget
+ * Destino atual de um arraste por ponteiro: lista e índice entre os cartões visíveis.
+ */
+interface IPointerDropTarget {
+  cardId: string;
+  listId: string;
+  laneKey: string | null; // Raia sob o dedo (null = quadro sem raias)
+  index: number;
+}
+
+/**
+ * @interface IPointerDragOptions
+ * Callbacks do motor de arraste por ponteiro (`usePointerDrag`).
+ */
+interface IPointerDragOptions {
+  onDragStateChange: (cardId: string | null) => void;
+  onDrop: (
+    cardId: string,
+    listId: string,
+    laneKey: string | null,
+    visibleIndex: number
+  ) => void;
 }
 
 /**
@@ -58,41 +443,301 @@ interface IKanbanState {
  * Define o tipo de retorno do hook `useKanbanStore`, combinando o estado e as ações.
  */
 interface IKanbanStore extends IKanbanState {
-  setCardList: (cardId: string, newListId: string) => void;
+  activeBoard: IBoard;
+  lists: IList[]; // Listas do quadro ativo
+  cards: ICard[]; // Cartões do quadro ativo
+  labels: ILabel[]; // Etiquetas do quadro ativo
+  members: IMember[]; // Membros do quadro ativo
+  lanes: ILane[]; // Raias manuais do quadro ativo
+  currentMemberId: string | null; // Membro que representa o usuário no quadro ativo
+  createBoard: (title: string) => void;
+  renameBoard: (boardId: string, title: string) => void;
+  duplicateBoard: (boardId: string) => void;
+  deleteBoard: (boardId: string) => void;
+  switchBoard: (boardId: string) => void;
+  importCardsCsv: (text: string) => void; // Mescla o CSV ao quadro ativo, com desfazer
+  undo: () => void;
+  redo: () => void;
+  isLoaded: boolean; // O estado salvo já foi carregado
+  storageName: string | null; // Backend de persistência em uso
+  syncUrl: string | null; // Endereço da API de sincronização (null = desligada)
+  syncStatus: SyncStatus;
+  setSyncUrl: (url: string | null) => void;
+  collabUrl: string | null; // Endereço WebSocket da colaboração (null = desligada)
+  isCollabConnected: boolean;
+  collabPeers: ICollabPeer[]; // Outros clientes no quadro ativo
+  setCollabUrl: (url: string | null) => void;
+  setPresence: (cardId: string | null, mode: PresenceMode) => void;
+  canUndo: boolean;
+  canRedo: boolean;
   addCard: (listId: string, title: string, description: string) => void;
+  // O cartão entra na lista do modelo ou, se ele não tiver uma, em `listId`
+  addCardFromTemplate: (
+    templateId: string,
+    listId: string,
+    title: string
+  ) => void;
   updateCard: (
     cardId: string,
     newTitle: string,
-    newDescription: string
+    newDescription: string,
+    details?: CardDetails
+  ) => void;
+  archiveCard: (cardId: string) => void;
+  addComment: (cardId: string, author: string, text: string) => void;
+  updateComment: (cardId: string, commentId: string, text: string) => void;
+  deleteComment: (cardId: string, commentId: string) => void;
+  // Os arquivos já devem estar gravados no IndexedDB (ver putAttachmentBlob)
+  addAttachments: (cardId: string, attachments: IAttachment[]) => void;
+  deleteAttachment: (cardId: string, attachmentId: string) => void;
+  setCardCover: (cardId: string, attachmentId: string | null) => void;
+  // Transforma um item de checklist em um cartão logo abaixo do cartão de origem
+  convertChecklistItem: (
+    cardId: string,
+    checklistId: string,
+    itemId: string,
+    title: string
   ) => void;
-  deleteCard: (cardId: string) => void;
+  // Reordena a lista pelo prazo (mais próximo no topo; sem prazo no final)
+  sortListByDueDate: (listId: string) => void;
+  // Retorna o ID da etiqueta criada (para já aplicá-la a um cartão)
+  addLabel: (name: string, colorVar: string) => string;
+  updateLabel: (
+    labelId: string,
+    changes: Partial<Pick<ILabel, 'name' | 'colorVar'>>
+  ) => void;
+  // Remove a etiqueta do quadro e de todos os cartões
+  deleteLabel: (labelId: string) => void;
+  addMember: (name: string, initials: string, colorVar: string) => void;
+  updateMember: (
+    memberId: string,
+    changes: Partial<Pick<IMember, 'name' | 'initials' | 'colorVar'>>
+  ) => void;
+  // Remove o membro do quadro e o desatribui de todos os cartões
+  deleteMember: (memberId: string) => void;
+  setCurrentMember: (memberId: string | null) => void;
+  templates: ICardTemplate[]; // Modelos de cartão do quadro ativo
+  addTemplate: (template: CardTemplateDraft) => void;
+  updateTemplate: (templateId: string, template: CardTemplateDraft) => void;
+  deleteTemplate: (templateId: string) => void;
+  addLane: (name: string) => void;
+  renameLane: (laneId: string, name: string) => void;
+  // Remove a raia do quadro e dos cartões
+  deleteLane: (laneId: string) => void;
+  setSwimlanes: (grouping: SwimlaneGrouping) => void;
   addList: (title: string) => void;
+  updateList: (
+    listId: string,
+    changes: Partial<Pick<IList, 'title' | 'colorVar' | 'wipLimit'>>
+  ) => void;
+  // Com `moveCardsToListId` null, os cartões da lista são arquivados junto
+  archiveList: (listId: string, moveCardsToListId: string | null) => void;
+  archive: ArchivedItem[]; // Arquivados e lixeira do quadro ativo
+  restoreArchivedItem: (itemId: string) => void;
+  trashArchivedItem: (itemId: string) => void;
+  // Exclusão definitiva: só vale para itens que já estão na lixeira
+  deleteArchivedItem: (itemId: string) => void;
+  emptyTrash: () => void;
+  setTrashRetentionDays: (days: number | null) => void;
+  moveList: (listId: string, targetIndex: number) => void;
   toggleTheme: () => void;
   reorderCards: (
-    // 'sourceListId' foi mantido na assinatura, mas será ignorado na implementação.
+    // 'sourceListId' é opcional: quando null, a lista de origem é lida do próprio cartão.
     sourceListId: string | null,
     cardId: string,
-    targetListId: string
+    targetListId: string,
+    targetIndex: number, // Índice final do cartão na lista de destino
+    laneMove?: ILaneMove // Com raias, o cartão também pode trocar de raia
   ) => void;
   setSearchTerm: (term: string) => void;
+  importBoard: (
+    incoming: IKanbanState,
+    mode: ImportMode,
+    strategy: ConflictStrategy
+  ) => void;
+}
+
+// Campos do cartão editados no modal além do título e da descrição
+type CardDetails = Partial<
+  Pick<
+    ICard,
+    | 'labelIds'
+    | 'due'
+    | 'assigneeIds'
+    | 'checklists'
+    | 'recurrence'
+    | 'priority'
+    | 'laneId'
+  >
+>;
+
+// Como o limite WIP de uma lista é aplicado ao soltar cartões nela
+type WipLimitMode = 'strict' | 'soft';
+
+// Prioridade de um cartão, da mais para a menos urgente
+type CardPriority = 'high' | 'medium' | 'low';
+
+// Campo que agrupa os cartões em raias horizontais ('none' = quadro sem raias)
+type SwimlaneGrouping = 'none' | 'priority' | 'assignee' | 'label' | 'lane';
+
+/**
+ * @interface ISwimlane
+ * Raia exibida no quadro. A chave é o valor do campo agrupado (prioridade ou ID
+ * do membro, da etiqueta ou da raia manual); '' reúne os cartões sem valor.
+ */
+interface ISwimlane {
+  key: string;
+  title: string;
+  colorVar: string | null; // Cor do membro ou da etiqueta
+}
+
+/**
+ * @interface ILaneMove
+ * Troca de raia de um cartão arrastado: o campo agrupado deixa de ter o valor
+ * da raia de origem e passa a ter o da raia de destino.
+ */
+interface ILaneMove {
+  grouping: SwimlaneGrouping;
+  fromKey: string;
+  toKey: string;
+}
+
+// Situação do prazo em relação ao momento atual
+type DueStatus = 'overdue' | 'today' | 'week' | 'later';
+
+// Campos de cartão que podem ser exportados/importados em CSV
+type CsvField =
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'list'
+  | 'position'
+  | 'createdAt'
+  | 'labels'
+  | 'due'
+  | 'assignees'
+  | 'priority'
+  | 'lane';
+
+/**
+ * @interface ICsvColumn
+ * Define uma coluna do CSV de cartões: cabeçalho exportado, nomes aceitos na
+ * importação (já normalizados) e como extrair o valor de um cartão.
+ */
+interface ICsvColumn {
+  field: CsvField;
+  header: string;
+  aliases: string[];
+  toCell: (card: ICard, board: IBoard) => string;
+}
+
+/**
+ * @interface ICsvImportResult
+ * Resultado de uma importação de CSV: o quadro atualizado e o relatório de linhas.
+ */
+interface ICsvImportResult {
+  board: IBoard;
+  created: number;
+  updated: number;
+  createdLists: number;
+  createdLabels: number;
+  createdMembers: number;
+  createdLanes: number;
+  errors: { row: number; reason: string }[]; // row 0 = arquivo inteiro
+}
+
+// Modo de importação: substituir tudo ou mesclar quadros, listas e cartões
+type ImportMode = 'replace' | 'merge';
+
+// O que fazer quando um item importado tem o mesmo ID de um item existente
+type ConflictStrategy = 'keep-both' | 'overwrite';
+
+/**
+ * @interface IBoardChangeSummary
+ * Contagem das mudanças que uma importação aplicará ao quadro (usada na prévia).
+ */
+interface IBoardChangeSummary {
+  boards: { added: number; updated: number; removed: number };
+  lists: { added: number; updated: number; removed: number };
+  cards: { added: number; updated: number; removed: number };
+}
+
+// Trechos de texto de uma linha em Markdown (negrito, itálico, código, links...)
+type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+/**
+ * @interface IMarkdownListItem
+ * Item de lista em Markdown. Itens de tarefa (`- [ ]`) guardam a linha de origem
+ * para que a caixa de seleção possa alternar o texto da descrição.
+ */
+interface IMarkdownListItem {
+  children: MarkdownInline[];
+  task: { done: boolean; line: number } | null;
 }
 
+// Blocos de um documento Markdown, já sem nenhum HTML bruto
+type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | {
+      type: 'list';
+      ordered: boolean;
+      start: number;
+      items: IMarkdownListItem[];
+    }
+  | { type: 'rule' };
+
 // --- SEÇÃO 2: DADOS INICIAIS E UTILS TIPADOS ---
 
 const INITIAL_LISTS: IList[] = [
   // Nota: As cores foram substituídas por nomes de variáveis CSS para o tema
-  { id: 'list-1', title: 'A Fazer', colorVar: '--color-list-red', order: 0 },
+  {
+    id: 'list-1',
+    title: 'A Fazer',
+    colorVar: '--color-list-red',
+    order: 0,
+    wipLimit: null,
+  },
   {
     id: 'list-2',
     title: 'Em Progresso',
     colorVar: '--color-list-blue',
     order: 1,
+    wipLimit: null,
   },
   {
     id: 'list-3',
     title: 'Concluído',
     colorVar: '--color-list-green',
     order: 2,
+    wipLimit: null,
+  },
+];
+
+const INITIAL_LABELS: ILabel[] = [
+  { id: 'label-1', name: 'Urgente', colorVar: '--color-list-red' },
+  { id: 'label-2', name: 'Melhoria', colorVar: '--color-list-blue' },
+  { id: 'label-3', name: 'Documentação', colorVar: '--color-list-purple' },
+];
+
+const INITIAL_MEMBERS: IMember[] = [
+  {
+    id: 'member-1',
+    name: 'Ana Souza',
+    initials: 'AS',
+    colorVar: '--color-list-purple',
+  },
+  {
+    id: 'member-2',
+    name: 'Bruno Lima',
+    initials: 'BL',
+    colorVar: '--color-list-green',
   },
 ];
 
@@ -104,6 +749,18 @@ const INITIAL_CARDS: ICard[] = [
     description:
       'Definir o layout do Board e os componentes principais (Lista, Cartão, Modal).',
     createdAt: Date.now() - 3600000,
+    position: 1,
+    labelIds: ['label-3'],
+    due: null,
+    assigneeIds: ['member-1'],
+    checklists: [],
+    comments: [],
+    activity: [],
+    attachments: [],
+    coverAttachmentId: null,
+    recurrence: null,
+    priority: null,
+    laneId: null,
   },
   {
     id: 'card-2',
@@ -112,6 +769,33 @@ const INITIAL_CARDS: ICard[] = [
     description:
       'Configurar o salvamento e carregamento dos dados no localStorage.',
     createdAt: Date.now() - 1800000,
+    position: 0,
+    labelIds: ['label-1'],
+    due: { at: Date.now() + 86400000, hasTime: true },
+    assigneeIds: ['member-2'],
+    checklists: [
+      {
+        id: 'checklist-1',
+        title: 'Etapas',
+        items: [
+          {
+            id: 'item-1',
+            text: 'Definir a chave de armazenamento',
+            done: true,
+          },
+          { id: 'item-2', text: 'Salvar a cada mudança de estado', done: true },
+          { id: 'item-3', text: 'Versionar o esquema salvo', done: false },
+          { id: 'item-4', text: 'Validar os dados carregados', done: false },
+        ],
+      },
+    ],
+    comments: [],
+    activity: [],
+    attachments: [],
+    coverAttachmentId: null,
+    recurrence: null,
+    priority: null,
+    laneId: null,
   },
   {
     id: 'card-3',
@@ -119,6 +803,18 @@ const INITIAL_CARDS: ICard[] = [
     title: 'Desenvolver Drag & Drop',
     description: 'Aplicar a lógica de D&D para mover cartões entre as colunas.',
     createdAt: Date.now() - 600000,
+    position: 0,
+    labelIds: ['label-1', 'label-2'],
+    due: { at: Date.now() - 3600000, hasTime: true },
+    assigneeIds: ['member-1', 'member-2'],
+    checklists: [],
+    comments: [],
+    activity: [],
+    attachments: [],
+    coverAttachmentId: null,
+    recurrence: null,
+    priority: null,
+    laneId: null,
   },
   {
     id: 'card-4',
@@ -126,612 +822,9685 @@ const INITIAL_CARDS: ICard[] = [
     title: 'Configurar Tema Escuro/Claro',
     description: 'Criar o seletor de tema e aplicar estilos responsivos.',
     createdAt: Date.now() - 7200000,
+    position: 0,
+    labelIds: ['label-2'],
+    due: null,
+    assigneeIds: [],
+    checklists: [],
+    comments: [],
+    activity: [],
+    attachments: [],
+    coverAttachmentId: null,
+    recurrence: null,
+    priority: null,
+    laneId: null,
   },
 ];
 
-// Chave do localStorage
-const STORAGE_KEY = 'kanban-board-state';
+// Quadro padrão: também recebe as listas e cartões de saves anteriores aos múltiplos quadros
+const DEFAULT_BOARD_ID = 'board-1';
+const DEFAULT_BOARD_TITLE = 'Meu Quadro';
 
-// Função utilitária para buscar o estado inicial
-const getInitialState = (): IKanbanState => {
-  try {
-    const storedState = localStorage.getItem(STORAGE_KEY);
-    if (storedState) {
-      // Cast explícito para o tipo esperado
-      return JSON.parse(storedState) as IKanbanState;
-    }
-  } catch (error) {
-    console.error('Erro ao carregar estado do localStorage:', error);
-  }
-  return {
+const INITIAL_BOARDS: IBoard[] = [
+  {
+    id: DEFAULT_BOARD_ID,
+    title: DEFAULT_BOARD_TITLE,
     lists: INITIAL_LISTS,
     cards: INITIAL_CARDS,
-    theme: 'light', // Padrão
-    searchTerm: '',
-  };
+    labels: INITIAL_LABELS,
+    members: INITIAL_MEMBERS,
+    templates: [],
+    archive: [],
+    lanes: [],
+    swimlanes: 'none',
+  },
+];
+
+// Chave do localStorage
+const STORAGE_KEY = 'kanban-board-state';
+
+// Espera sem mudanças antes de gravar o estado
+const SAVE_DEBOUNCE_MS = 400;
+
+// Sincronização com o servidor: configuração e fila no localStorage, intervalo
+// entre as buscas de mudanças e o lock que elege a aba responsável por sincronizar
+const SYNC_CONFIG_KEY = 'kanban-sync';
+const SYNC_POLL_MS = 5000;
+const SYNC_LOCK_NAME = 'kanban-sync';
+const SYNC_CHANNEL_NAME = 'kanban-sync';
+
+// Colaboração em tempo real: endereço do servidor, operações ainda não enviadas
+// (por quadro) e espera antes de tentar reconectar
+const COLLAB_URL_KEY = 'kanban-collab-url';
+const COLLAB_PENDING_KEY = 'kanban-collab-pending';
+const COLLAB_RETRY_MS = 3000;
+// Identidade de quem ainda não escolheu um membro no quadro
+const ANONYMOUS_MEMBER: IMember = {
+  id: 'anonymous',
+  name: 'Anônimo',
+  initials: '?',
+  colorVar: '--color-list-gray',
 };
 
-// --- SEÇÃO 3: LÓGICA DO ESTADO (ZUSTAND SIMULADO) E PERSISTÊNCIA TIPADA ---
+// Quantidade máxima de ações guardadas no histórico de desfazer
+const HISTORY_LIMIT = 50;
 
-// Este hook simula o store central (Zustand) para todo o aplicativo.
-const useKanbanStore = (): IKanbanStore => {
-  // useState tipado
-  const [state, setState] = useState<IKanbanState>(getInitialState);
+// Cartões recorrentes: intervalo entre as verificações com o app aberto e máximo
+// de cópias criadas de uma vez para os períodos perdidos com o app fechado
+const RECURRENCE_CHECK_MS = 60 * 1000;
+const RECURRENCE_CATCH_UP_LIMIT = 12;
 
-  // Efeito para persistir o estado sempre que ele mudar e aplicar o tema
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-    document.documentElement.className = state.theme; // Aplica a classe de tema (light/dark)
-  }, [state]);
+// Lixeira: prazo padrão até a exclusão definitiva, opções oferecidas nas
+// configurações (null = nunca) e intervalo entre as limpezas com o app aberto
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_OPTIONS: (number | null)[] = [7, 30, 90, null];
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-  const setCardList = useCallback((cardId: string, newListId: string): void => {
-    setState((prevState) => ({
-      ...prevState,
-      cards: prevState.cards.map((card) =>
-        card.id === cardId ? { ...card, listId: newListId } : card
-      ),
-    }));
-  }, []);
+// Gera um ID único com prefixo (o timestamp sozinho colide em criações rápidas ou importações)
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 
-  const addCard = useCallback(
-    (listId: string, title: string, description: string): void => {
-      const newCard: ICard = {
-        id: `card-${Date.now()}`,
-        listId,
-        title,
-        description,
-        createdAt: Date.now(),
-      };
-      setState((prevState) => ({
-        ...prevState,
-        cards: [...prevState.cards, newCard],
-      }));
-    },
-    []
+// Ordena os cartões pela posição (empate resolvido pelo mais recente primeiro)
+const sortCardsByPosition = (cards: ICard[]): ICard[] =>
+  [...cards].sort(
+    (a, b) => a.position - b.position || b.createdAt - a.createdAt
   );
 
-  const updateCard = useCallback(
-    (cardId: string, newTitle: string, newDescription: string): void => {
-      setState((prevState) => ({
-        ...prevState,
-        cards: prevState.cards.map((card) =>
-          card.id === cardId
-            ? { ...card, title: newTitle, description: newDescription }
-            : card
-        ),
-      }));
-    },
-    []
+// Reatribui posições contíguas (0..n-1) aos cartões de uma lista, mantendo a ordem atual
+const normalizeListPositions = (cards: ICard[], listId: string): ICard[] => {
+  const positions = new Map<string, number>(
+    sortCardsByPosition(cards.filter((card) => card.listId === listId)).map(
+      (card, index) => [card.id, index]
+    )
   );
+  return cards.map((card) => {
+    const position = positions.get(card.id);
+    return position === undefined || position === card.position
+      ? card
+      : { ...card, position };
+  });
+};
 
-  const deleteCard = useCallback((cardId: string): void => {
-    setState((prevState) => ({
-      ...prevState,
-      cards: prevState.cards.filter((card) => card.id !== cardId),
-    }));
-  }, []);
+// Move um cartão para `targetIndex` na lista de destino e renumera as listas afetadas
+const moveCardToIndex = (
+  cards: ICard[],
+  cardId: string,
+  targetListId: string,
+  targetIndex: number
+): ICard[] => {
+  const movingCard = cards.find((card) => card.id === cardId);
+  if (!movingCard) return cards;
 
-  const addList = useCallback(
-    (title: string): void => {
-      const newList: IList = {
-        id: `list-${Date.now()}`,
-        title,
-        colorVar: '--color-list-yellow',
-        order: state.lists.length,
-      };
-      setState((prevState) => ({
-        ...prevState,
-        lists: [...prevState.lists, newList],
-      }));
-    },
-    [state.lists.length]
+  const targetCards = sortCardsByPosition(
+    cards.filter((card) => card.listId === targetListId && card.id !== cardId)
   );
+  const index = Math.max(0, Math.min(targetIndex, targetCards.length));
+  targetCards.splice(index, 0, { ...movingCard, listId: targetListId });
 
-  const toggleTheme = useCallback((): void => {
-    setState((prevState) => ({
-      ...prevState,
-      theme: prevState.theme === 'light' ? 'dark' : 'light',
-    }));
-  }, []);
-
-  const setSearchTerm = useCallback((term: string): void => {
-    setState((prevState) => ({
-      ...prevState,
-      searchTerm: term,
-    }));
-  }, []);
-
-  const reorderCards = useCallback(
-    (
-      _sourceListId: string | null, // Corrigido TS6133: 'sourceListId' foi declarado, mas seu valor nunca é lido.
-      cardId: string,
-      targetListId: string
-    ): void => {
-      // Nota: No D&D nativo simples, sourceListId não é usado aqui, mas setCardList faz a atualização
-      setCardList(cardId, targetListId);
-    },
-    [setCardList]
+  const updated = new Map<string, ICard>(
+    targetCards.map((card, position) => [card.id, { ...card, position }])
   );
+  const movedCards = cards.map((card) => updated.get(card.id) ?? card);
+  return movingCard.listId === targetListId
+    ? movedCards
+    : normalizeListPositions(movedCards, movingCard.listId);
+};
+
+// Quadro ativo (com fallback para o primeiro, caso o ID salvo não exista mais)
+const getActiveBoard = (state: IKanbanState): IBoard =>
+  state.boards.find((board) => board.id === state.activeBoardId) ??
+  state.boards[0];
 
+// Aplica uma transformação apenas ao quadro ativo
+const updateActiveBoard = (
+  state: IKanbanState,
+  updater: (board: IBoard) => IBoard
+): IKanbanState => {
+  const activeBoard = getActiveBoard(state);
   return {
     ...state,
-    setCardList,
-    addCard,
-    updateCard,
-    deleteCard,
-    addList,
-    toggleTheme,
-    reorderCards,
-    setSearchTerm,
+    boards: state.boards.map((board) =>
+      board.id === activeBoard.id ? updater(board) : board
+    ),
   };
 };
 
-// --- SEÇÃO 4: COMPONENTES REUTILIZÁVEIS TIPADOS ---
+// Novo quadro com as três colunas e as etiquetas padrão, sem cartões
+const createEmptyBoard = (title: string): IBoard => ({
+  id: createId('board'),
+  title,
+  lists: INITIAL_LISTS.map((list) => ({ ...list, id: createId('list') })),
+  cards: [],
+  labels: INITIAL_LABELS.map((label) => ({ ...label, id: createId('label') })),
+  members: [],
+  templates: [],
+  archive: [],
+  lanes: [],
+  swimlanes: 'none',
+});
 
-// Propriedades para o Componente Button
-interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
-  children: React.ReactNode;
-  className?: string;
-  variant?: 'primary' | 'secondary' | 'destructive' | 'ghost';
-  // O restante das props são repassadas via React.ButtonHTMLAttributes
-}
+// Cópia independente de um quadro: quadro, listas, cartões, etiquetas, raias e
+// modelos recebem novos IDs. O arquivo e a lixeira não são copiados.
+const cloneBoard = (board: IBoard, title: string): IBoard => {
+  const listIdMap = new Map<string, string>(
+    board.lists.map((list) => [list.id, createId('list')])
+  );
+  const labelIdMap = new Map<string, string>(
+    board.labels.map((label) => [label.id, createId('label')])
+  );
+  const memberIdMap = new Map<string, string>(
+    board.members.map((member) => [member.id, createId('member')])
+  );
+  const laneIdMap = new Map<string, string>(
+    board.lanes.map((lane) => [lane.id, createId('lane')])
+  );
+  return {
+    id: createId('board'),
+    title,
+    lists: board.lists.map((list) => ({
+      ...list,
+      id: listIdMap.get(list.id) ?? createId('list'),
+    })),
+    cards: board.cards.map((card) => ({
+      ...card,
+      id: createId('card'),
+      listId: listIdMap.get(card.listId) ?? card.listId,
+      recurrence: card.recurrence && {
+        ...card.recurrence,
+        listId: listIdMap.get(card.recurrence.listId) ?? card.recurrence.listId,
+      },
+      labelIds: card.labelIds.map(
+        (labelId) => labelIdMap.get(labelId) ?? labelId
+      ),
+      assigneeIds: card.assigneeIds.map(
+        (memberId) => memberIdMap.get(memberId) ?? memberId
+      ),
+      laneId: card.laneId && (laneIdMap.get(card.laneId) ?? null),
+    })),
+    labels: board.labels.map((label) => ({
+      ...label,
+      id: labelIdMap.get(label.id) ?? createId('label'),
+    })),
+    members: board.members.map((member) => ({
+      ...member,
+      id: memberIdMap.get(member.id) ?? createId('member'),
+    })),
+    templates: board.templates.map((template) => ({
+      ...template,
+      id: createId('template'),
+      labelIds: template.labelIds.map(
+        (labelId) => labelIdMap.get(labelId) ?? labelId
+      ),
+      assigneeIds: template.assigneeIds.map(
+        (memberId) => memberIdMap.get(memberId) ?? memberId
+      ),
+      listId: template.listId ? (listIdMap.get(template.listId) ?? null) : null,
+    })),
+    archive: [],
+    lanes: board.lanes.map((lane) => ({
+      ...lane,
+      id: laneIdMap.get(lane.id) ?? createId('lane'),
+    })),
+    swimlanes: board.swimlanes,
+  };
+};
 
-// Componente: Button (Botão Simples)
-const Button: React.FC<ButtonProps> = ({
-  children,
-  className = '',
-  variant = 'primary',
-  ...props
-}) => {
-  return (
-    <button
-      className={`
-        button-base button-${variant} ${className}
-      `}
-    >
-      {children}
-    </button>
+// Iniciais sugeridas para um nome: primeira e última palavra ("Ana Souza" -> "AS")
+const getInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return `${words[0][0]}${words[words.length - 1][0]}`.toUpperCase();
+};
+
+// Busca um item (etiqueta, membro) pelo nome, sem diferenciar maiúsculas
+const findByName = <T extends { name: string }>(
+  items: T[],
+  name: string
+): T | undefined =>
+  items.find(
+    (item) => item.name.trim().toLowerCase() === name.trim().toLowerCase()
+  );
+
+// Quantidade máxima de eventos guardados na atividade de cada cartão
+const ACTIVITY_LIMIT = 100;
+
+// Registra um evento na atividade do cartão (os mais antigos saem além do limite)
+const appendActivity = (card: ICard, activity: CardActivity): ICard => ({
+  ...card,
+  activity: [
+    ...card.activity,
+    { id: createId('activity'), at: Date.now(), ...activity },
+  ].slice(-ACTIVITY_LIMIT),
+});
+
+// Depois de mover cartões, registra "movido de A para B" se o cartão trocou de lista
+const recordCardMove = (
+  board: IBoard,
+  movedCards: ICard[],
+  cardId: string
+): ICard[] => {
+  const before = board.cards.find((card) => card.id === cardId);
+  const after = movedCards.find((card) => card.id === cardId);
+  if (!before || !after || before.listId === after.listId) return movedCards;
+  const getListTitle = (listId: string): string =>
+    board.lists.find((list) => list.id === listId)?.title ?? '';
+  return movedCards.map((card) =>
+    card.id === cardId
+      ? appendActivity(card, {
+          type: 'moved',
+          fromListTitle: getListTitle(before.listId),
+          toListTitle: getListTitle(after.listId),
+        })
+      : card
   );
 };
 
-// Propriedades para o Componente CardComponent
-interface CardComponentProps {
-  card: ICard;
-  onEditClick: (card: ICard) => void;
-  onDelete: (cardId: string) => void;
-  listColorVar: string;
-}
+// Aplica `update` a um único cartão do quadro
+const updateBoardCard = (
+  board: IBoard,
+  cardId: string,
+  update: (card: ICard) => ICard
+): IBoard => ({
+  ...board,
+  cards: board.cards.map((card) => (card.id === cardId ? update(card) : card)),
+});
 
-// Componente: CardComponent (Exibição de Cartão na Lista)
-const CardComponent: React.FC<CardComponentProps> = ({
-  card,
-  onEditClick,
-  onDelete,
-  listColorVar,
-}) => {
-  const formattedDate = new Date(card.createdAt).toLocaleDateString('pt-BR', {
+// Novo cartão no final da lista, sem campos opcionais e com o evento de criação
+const createCard = (
+  board: IBoard,
+  listId: string,
+  title: string,
+  description: string
+): ICard =>
+  appendActivity(
+    {
+      id: createId('card'),
+      listId,
+      title,
+      description,
+      createdAt: Date.now(),
+      position: board.cards.filter((card) => card.listId === listId).length,
+      labelIds: [],
+      due: null,
+      assigneeIds: [],
+      checklists: [],
+      comments: [],
+      activity: [],
+      attachments: [],
+      coverAttachmentId: null,
+      recurrence: null,
+      priority: null,
+      laneId: null,
+    },
+    {
+      type: 'created',
+      listTitle: board.lists.find((list) => list.id === listId)?.title ?? '',
+    }
+  );
+
+// Meia-noite (no fuso local) do dia de `timestamp`, somando `days` dias
+const getStartOfDay = (timestamp: number, days = 0): number => {
+  const date = new Date(timestamp);
+  return new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() + days
+  ).getTime();
+};
+
+// Título gerado por um modelo: {data} vira a data de hoje e {lista} o nome da lista
+const renderTemplateTitle = (
+  pattern: string,
+  listTitle: string,
+  now: number
+): string =>
+  pattern
+    .replace(/\{data\}/g, () => new Date(now).toLocaleDateString('pt-BR'))
+    .replace(/\{lista\}/g, () => listTitle);
+
+// Lista onde o modelo cria cartões: a dele, se ainda estiver no quadro, ou `fallbackListId`
+const getTemplateListId = (
+  template: ICardTemplate,
+  lists: IList[],
+  fallbackListId: string
+): string =>
+  template.listId && lists.some((list) => list.id === template.listId)
+    ? template.listId
+    : fallbackListId;
+
+// Cartão criado a partir de um modelo: campos padrão copiados (checklists com
+// novos IDs) e prazo contado a partir do dia da criação
+const createCardFromTemplate = (
+  board: IBoard,
+  template: ICardTemplate,
+  listId: string,
+  title: string,
+  now: number
+): ICard => ({
+  ...createCard(
+    board,
+    getTemplateListId(template, board.lists, listId),
+    title,
+    template.description
+  ),
+  // Etiquetas e membros excluídos do quadro depois de salvar o modelo ficam de fora
+  labelIds: template.labelIds.filter((labelId) =>
+    board.labels.some((label) => label.id === labelId)
+  ),
+  assigneeIds: template.assigneeIds.filter((memberId) =>
+    board.members.some((member) => member.id === memberId)
+  ),
+  checklists: template.checklists.map((checklist) => ({
+    ...checklist,
+    id: createId('checklist'),
+    items: checklist.items.map((item) => ({ ...item, id: createId('item') })),
+  })),
+  due:
+    template.dueInDays === null
+      ? null
+      : { at: getStartOfDay(now, template.dueInDays), hasTime: false },
+});
+
+// Modelo com o conteúdo de um cartão: o prazo vira uma distância em dias a
+// partir da criação do cartão e os checklists voltam desmarcados
+const createTemplateFromCard = (card: ICard): CardTemplateDraft => ({
+  name: card.title,
+  titlePattern: card.title,
+  description: card.description,
+  labelIds: card.labelIds,
+  assigneeIds: card.assigneeIds,
+  checklists: card.checklists.map((checklist) => ({
+    ...checklist,
+    items: checklist.items.map((item) => ({ ...item, done: false })),
+  })),
+  dueInDays: card.due
+    ? Math.max(
+        0,
+        Math.round(
+          (getStartOfDay(card.due.at) - getStartOfDay(card.createdAt)) / DAY_MS
+        )
+      )
+    : null,
+  listId: card.listId,
+});
+
+// Abreviações dos dias da semana (índice = Date.getDay())
+const WEEKDAY_LABELS = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'];
+
+// Nome de cada tipo de repetição no modal do cartão
+const RECURRENCE_KIND_LABELS: Record<RecurrenceRule['kind'], string> = {
+  daily: 'Todo dia',
+  weekly: 'Toda semana',
+  monthly: 'Todo mês',
+  interval: 'A cada N dias',
+};
+
+// Texto de uma regra, ex.: 'Toda semana (seg, qua)'
+const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.kind) {
+    case 'daily':
+      return 'Todo dia';
+    case 'weekly':
+      return `Toda semana (${rule.weekdays.map((weekday) => WEEKDAY_LABELS[weekday]).join(', ')})`;
+    case 'monthly':
+      return `Todo mês, no dia ${rule.day}`;
+    case 'interval':
+      return `A cada ${rule.days} dias`;
+  }
+};
+
+// Primeiro dia (meia-noite local) depois de `after` em que a regra gera uma cópia
+const getNextOccurrence = (rule: RecurrenceRule, after: number): number => {
+  switch (rule.kind) {
+    case 'daily':
+      return getStartOfDay(after, 1);
+    case 'interval':
+      return getStartOfDay(after, rule.days);
+    case 'weekly': {
+      for (let days = 1; days <= 7; days++) {
+        const candidate = getStartOfDay(after, days);
+        if (rule.weekdays.includes(new Date(candidate).getDay())) {
+          return candidate;
+        }
+      }
+      return Number.POSITIVE_INFINITY; // Nenhum dia marcado: nunca repete
+    }
+    case 'monthly': {
+      const date = new Date(after);
+      // O dia N deste mês, se ainda não passou, ou o do mês seguinte
+      const getCandidate = (monthOffset: number): number => {
+        const month = date.getMonth() + monthOffset;
+        const lastDay = new Date(date.getFullYear(), month + 1, 0).getDate();
+        return new Date(
+          date.getFullYear(),
+          month,
+          Math.min(rule.day, lastDay)
+        ).getTime();
+      };
+      const thisMonth = getCandidate(0);
+      return thisMonth > after ? thisMonth : getCandidate(1);
+    }
+  }
+};
+
+/**
+ * Cria, em todos os quadros, as cópias dos cartões recorrentes cujos dias
+ * chegaram até `now`, inclusive os perdidos com o app fechado (até
+ * RECURRENCE_CATCH_UP_LIMIT por cartão). O ID da cópia vem do cartão e do dia:
+ * abas ou aparelhos que criem a mesma cópia acabam com um único cartão na
+ * mescla, e uma cópia já arquivada não volta. Sem cópias novas, devolve `state`.
+ */
+const spawnRecurringCards = (
+  state: IKanbanState,
+  now: number
+): IKanbanState => {
+  let hasChanges = false;
+  const boards = state.boards.map((board) => {
+    let nextBoard = board;
+    board.cards.forEach((source) => {
+      const { recurrence } = source;
+      if (!recurrence) return;
+      const days: number[] = [];
+      let lastSpawnAt = recurrence.lastSpawnAt;
+      for (
+        let next = getNextOccurrence(recurrence.rule, lastSpawnAt);
+        next <= now;
+        next = getNextOccurrence(recurrence.rule, lastSpawnAt)
+      ) {
+        days.push(next);
+        lastSpawnAt = next;
+      }
+      if (days.length === 0) return;
+      hasChanges = true;
+      const template: ICardTemplate = {
+        ...createTemplateFromCard(source),
+        id: source.id,
+        listId: recurrence.listId,
+      };
+      let cards = nextBoard.cards.map((card) =>
+        card.id === source.id
+          ? { ...card, recurrence: { ...recurrence, lastSpawnAt } }
+          : card
+      );
+      days.slice(-RECURRENCE_CATCH_UP_LIMIT).forEach((day) => {
+        const id = `${source.id}-${toDateInputValue(day)}`;
+        if (
+          cards.some((card) => card.id === id) ||
+          nextBoard.archive.some((item) => item.id === id)
+        ) {
+          return;
+        }
+        const copy = createCardFromTemplate(
+          { ...nextBoard, cards },
+          template,
+          source.listId,
+          source.title,
+          day
+        );
+        cards = [
+          ...cards,
+          { ...copy, id, priority: source.priority, laneId: source.laneId },
+        ];
+      });
+      nextBoard = { ...nextBoard, cards };
+    });
+    return nextBoard;
+  });
+  return hasChanges ? { ...state, boards } : state;
+};
+
+// Texto de um evento da atividade, ex.: 'Movido de "A Fazer" para "Concluído"'
+const describeActivity = (activity: CardActivity): string => {
+  switch (activity.type) {
+    case 'created':
+      return `Criado em "${activity.listTitle}"`;
+    case 'renamed':
+      return `Renomeado de "${activity.from}" para "${activity.to}"`;
+    case 'description-edited':
+      return 'Descrição editada';
+    case 'moved':
+      return `Movido de "${activity.fromListTitle}" para "${activity.toListTitle}"`;
+  }
+};
+
+// Data e hora no formato pt-BR usado nos comentários e na atividade
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('pt-BR', {
     day: '2-digit',
     month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
   });
 
-  // Tipagem para evento DragStart
-  const handleDragStart: DragEventHandler<HTMLDivElement> = (e) => {
-    e.dataTransfer.setData('cardId', card.id);
-    e.dataTransfer.effectAllowed = 'move';
-    (e.currentTarget as HTMLDivElement).classList.add('dragging-opacity');
-  };
+// Só imagens podem ser capa do cartão e ter miniatura
+const isImageAttachment = (attachment: IAttachment): boolean =>
+  attachment.type.startsWith('image/');
 
-  // Tipagem para evento DragEnd
-  const handleDragEnd: DragEventHandler<HTMLDivElement> = (e) => {
-    (e.currentTarget as HTMLDivElement).classList.remove('dragging-opacity');
+// Itens concluídos e total de itens somando todos os checklists do cartão
+const getChecklistProgress = (
+  checklists: IChecklist[]
+): { done: number; total: number } => {
+  const items = checklists.flatMap((checklist) => checklist.items);
+  return {
+    done: items.filter((item) => item.done).length,
+    total: items.length,
   };
+};
 
-  return (
-    <div
-      style={{ borderLeftColor: `var(${listColorVar})` }}
-      draggable="true"
-      onDragStart={handleDragStart}
-      onDragEnd={handleDragEnd}
-      onClick={() => onEditClick(card)}
-      className="
-        card-component
-      "
-    >
-      <div
-        className="
-          card-header
-        "
-      >
-        <h3
-          className="
-            card-title
-          "
-        >
-          {card.title}
-        </h3>
-        <Button
-          variant="ghost"
-          onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
-            e.stopPropagation();
-            onDelete(card.id);
-          }}
-          className="
-            card-delete-btn
-          "
-        >
-          <Trash2
-            className="
-              icon-sm color-red-400
-            "
-          />
-        </Button>
-      </div>
-      <p
-        className="
-          card-description
-        "
-      >
-        {card.description}
-      </p>
-      <span
-        style={{ color: `var(${listColorVar})` }}
-        className="
-          card-date
-        "
-      >
-        {formattedDate}
-      </span>
-    </div>
-  );
+// Lista cujo limite WIP seria ultrapassado ao mover o cartão para ela, se houver.
+// Reordenar dentro da mesma lista não muda a contagem e nunca ultrapassa o limite.
+const getWipLimitBreach = (
+  lists: IList[],
+  cards: ICard[],
+  cardId: string,
+  targetListId: string
+): IList | null => {
+  const list = lists.find((other) => other.id === targetListId);
+  const card = cards.find((other) => other.id === cardId);
+  if (!list?.wipLimit || !card || card.listId === targetListId) return null;
+  const count = cards.filter((other) => other.listId === targetListId).length;
+  return count + 1 > list.wipLimit.max ? list : null;
 };
 
-// Propriedades para o Componente CardModal
-interface CardModalProps {
-  card: ICard;
-  onClose: () => void;
-  onSave: (cardId: string, newTitle: string, newDescription: string) => void;
-  onDelete: (cardId: string) => void;
-}
+// Rótulos dos modos de limite WIP exibidos na interface
+const WIP_MODE_LABELS: Record<WipLimitMode, string> = {
+  strict: 'Estrito (bloqueia)',
+  soft: 'Flexível (pede confirmação)',
+};
 
-// Componente: CardModal (Modal de Edição de Cartão)
-const CardModal: React.FC<CardModalProps> = ({
-  card,
-  onClose,
-  onSave,
-  onDelete,
-}) => {
-  const [title, setTitle] = useState<string>(card.title);
-  const [description, setDescription] = useState<string>(card.description);
+// Prioridades na ordem das raias e do seletor do cartão
+const PRIORITY_LABELS: Record<CardPriority, string> = {
+  high: 'Alta',
+  medium: 'Média',
+  low: 'Baixa',
+};
 
-  // Tipagem para evento de formulário
-  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    onSave(card.id, title, description);
-    onClose();
+// Opções de agrupamento das raias no cabeçalho do quadro
+const SWIMLANE_GROUPING_LABELS: Record<SwimlaneGrouping, string> = {
+  none: 'Sem raias',
+  priority: 'Raias por prioridade',
+  assignee: 'Raias por responsável',
+  label: 'Raias por etiqueta',
+  lane: 'Raias manuais',
+};
+
+// Raias do quadro para o agrupamento, terminando na dos cartões sem valor
+const getSwimlanes = (board: IBoard): ISwimlane[] => {
+  switch (board.swimlanes) {
+    case 'none':
+      return [];
+    case 'priority':
+      return [
+        ...(Object.keys(PRIORITY_LABELS) as CardPriority[]).map((priority) => ({
+          key: priority,
+          title: PRIORITY_LABELS[priority],
+          colorVar: null,
+        })),
+        { key: '', title: 'Sem prioridade', colorVar: null },
+      ];
+    case 'assignee':
+      return [
+        ...board.members.map((member) => ({
+          key: member.id,
+          title: member.name,
+          colorVar: member.colorVar,
+        })),
+        { key: '', title: 'Sem responsável', colorVar: null },
+      ];
+    case 'label':
+      return [
+        ...board.labels.map((label) => ({
+          key: label.id,
+          title: label.name,
+          colorVar: label.colorVar,
+        })),
+        { key: '', title: 'Sem etiqueta', colorVar: null },
+      ];
+    case 'lane':
+      return [
+        ...board.lanes.map((lane) => ({
+          key: lane.id,
+          title: lane.name,
+          colorVar: null,
+        })),
+        { key: '', title: 'Sem raia', colorVar: null },
+      ];
+  }
+};
+
+// Raia em que o cartão aparece (null = quadro sem raias). Com vários
+// responsáveis ou etiquetas, vale o primeiro, para o cartão aparecer uma vez só.
+const getCardLaneKey = (
+  card: ICard,
+  grouping: SwimlaneGrouping
+): string | null => {
+  switch (grouping) {
+    case 'none':
+      return null;
+    case 'priority':
+      return card.priority ?? '';
+    case 'assignee':
+      return card.assigneeIds[0] ?? '';
+    case 'label':
+      return card.labelIds[0] ?? '';
+    case 'lane':
+      return card.laneId ?? '';
+  }
+};
+
+// Troca o valor da raia de origem pelo da raia de destino numa lista de IDs. O
+// destino vai para o início, para o cartão aparecer na raia onde foi solto (a
+// raia sem valor esvazia a lista).
+const replaceLaneId = (ids: string[], fromKey: string, toKey: string) =>
+  toKey ? [toKey, ...ids.filter((id) => id !== fromKey && id !== toKey)] : [];
+
+// Cartão com o campo agrupado atualizado para a raia de destino
+const moveCardToLane = (card: ICard, laneMove: ILaneMove): ICard => {
+  const { grouping, fromKey, toKey } = laneMove;
+  switch (grouping) {
+    case 'none':
+      return card;
+    case 'priority':
+      return { ...card, priority: (toKey as CardPriority) || null };
+    case 'assignee':
+      return {
+        ...card,
+        assigneeIds: replaceLaneId(card.assigneeIds, fromKey, toKey),
+      };
+    case 'label':
+      return {
+        ...card,
+        labelIds: replaceLaneId(card.labelIds, fromKey, toKey),
+      };
+    case 'lane':
+      return { ...card, laneId: toKey || null };
+  }
+};
+
+// O cartão passa pelo filtro de etiquetas? (filtro vazio deixa tudo passar)
+const matchesLabelFilter = (card: ICard, filter: ILabelFilter): boolean => {
+  if (filter.labelIds.length === 0) return true;
+  return filter.mode === 'all'
+    ? filter.labelIds.every((labelId) => card.labelIds.includes(labelId))
+    : filter.labelIds.some((labelId) => card.labelIds.includes(labelId));
+};
+
+// Reatribui `order` contíguo (0..n-1) às listas, mantendo a ordem atual
+const normalizeListOrder = (lists: IList[]): IList[] =>
+  [...lists]
+    .sort((a, b) => a.order - b.order)
+    .map((list, order) => (list.order === order ? list : { ...list, order }));
+
+// Move uma lista para `targetIndex` e reatribui `order` contíguo a todas
+const moveListToIndex = (
+  lists: IList[],
+  listId: string,
+  targetIndex: number
+): IList[] => {
+  const sortedLists = [...lists].sort((a, b) => a.order - b.order);
+  const movingList = sortedLists.find((list) => list.id === listId);
+  if (!movingList) return lists;
+  const otherLists = sortedLists.filter((list) => list.id !== listId);
+  const index = Math.max(0, Math.min(targetIndex, otherLists.length));
+  otherLists.splice(index, 0, movingList);
+  return otherLists.map((list, order) =>
+    list.order === order ? list : { ...list, order }
+  );
+};
+
+// Tira um cartão do quadro e o guarda no arquivo
+const archiveBoardCard = (
+  board: IBoard,
+  cardId: string,
+  now: number
+): IBoard => {
+  const card = board.cards.find((other) => other.id === cardId);
+  if (!card) return board;
+  return {
+    ...board,
+    cards: normalizeListPositions(
+      board.cards.filter((other) => other.id !== cardId),
+      card.listId
+    ),
+    archive: [
+      ...board.archive,
+      { id: card.id, kind: 'card', card, archivedAt: now, trashedAt: null },
+    ],
   };
+};
 
-  return (
-    <div
-      onClick={onClose}
-      className="
-        modal-backdrop
-      "
-    >
-      <div
-        onClick={(e: React.MouseEvent<HTMLDivElement>) => e.stopPropagation()}
-        className="
-          modal-content
-        "
-      >
-        <div
-          className="
-            modal-header
-          "
-        >
-          <h2
-            className="
-              modal-title
-            "
-          >
-            Editar Cartão
-          </h2>
-          <Button
-            variant="ghost"
-            onClick={onClose}
-            className="
-              modal-close-btn
-            "
-          >
-            <X
-              className="
-                icon-sm
-              "
-            />
-          </Button>
-        </div>
+/**
+ * Devolve ao quadro um item do arquivo ou da lixeira. A lista volta como última
+ * coluna, com os seus cartões; o cartão volta ao final da lista de origem ou, se
+ * ela não estiver mais no quadro, da primeira lista. Etiquetas e membros
+ * excluídos nesse meio-tempo são descartados dos cartões.
+ */
+const restoreBoardItem = (board: IBoard, itemId: string): IBoard => {
+  const item = board.archive.find((entry) => entry.id === itemId);
+  if (!item) return board;
+  const archive = board.archive.filter((entry) => entry !== item);
+  const labelIds = new Set(board.labels.map((label) => label.id));
+  const memberIds = new Set(board.members.map((member) => member.id));
+  const withValidReferences = (card: ICard): ICard => ({
+    ...card,
+    labelIds: card.labelIds.filter((id) => labelIds.has(id)),
+    assigneeIds: card.assigneeIds.filter((id) => memberIds.has(id)),
+    laneId: board.lanes.some((lane) => lane.id === card.laneId)
+      ? card.laneId
+      : null,
+  });
+  // Um item editado em outra aba pode já ter voltado ao quadro pela mescla
+  const isInBoard = (id: string): boolean =>
+    board.cards.some((card) => card.id === id);
 
-        <form
-          onSubmit={handleSubmit}
-          className="
-            modal-form
-          "
-        >
-          <div>
-            <label
-              htmlFor="title"
-              className="
-                form-label
-              "
-            >
-              Título
-            </label>
-            <input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              required
-              className="
-                form-input
-              "
-            />
-          </div>
-          <div>
-            <label
-              htmlFor="description"
-              className="
-                form-label
-              "
-            >
-              Descrição
-            </label>
-            <textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              rows={4}
-              required
-              className="
-                form-input form-textarea
-              "
-            ></textarea>
-          </div>
+  if (item.kind === 'list') {
+    if (board.lists.some((list) => list.id === item.list.id)) {
+      return { ...board, archive };
+    }
+    return {
+      ...board,
+      lists: normalizeListOrder([
+        ...board.lists,
+        { ...item.list, order: Number.MAX_SAFE_INTEGER },
+      ]),
+      cards: normalizeListPositions(
+        [
+          ...board.cards,
+          ...item.cards
+            .filter((card) => !isInBoard(card.id))
+            .map(withValidReferences),
+        ],
+        item.list.id
+      ),
+      archive,
+    };
+  }
 
-          <div
-            className="
-              modal-actions
-            "
-          >
-            <Button type="submit">Salvar Alterações</Button>
-            <Button
-              type="button"
-              variant="destructive"
-              onClick={() => {
-                onDelete(card.id);
-                onClose();
-              }}
-            >
-              <Trash2
-                className="
-                  icon-sm
-                "
-              />{' '}
-              Excluir
-            </Button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
+  if (isInBoard(item.id)) return { ...board, archive };
+  const listId = board.lists.some((list) => list.id === item.card.listId)
+    ? item.card.listId
+    : normalizeListOrder(board.lists)[0]?.id;
+  // Sem nenhuma lista não há onde devolver o cartão
+  if (!listId) return board;
+  return {
+    ...board,
+    cards: [
+      ...board.cards,
+      {
+        ...withValidReferences(item.card),
+        listId,
+        position: board.cards.filter((card) => card.listId === listId).length,
+      },
+    ],
+    archive,
+  };
 };
 
-// --- SEÇÃO 5: COMPONENTES DE PÁGINA TIPADOS (LISTA E BOARD) ---
-
-// Propriedades para o Componente ListView
-interface ListViewProps {
-  list: IList;
-  cards: ICard[];
-  addCard: IKanbanStore['addCard'];
-  reorderCards: IKanbanStore['reorderCards'];
-  onEditCard: (card: ICard) => void;
-  deleteCard: IKanbanStore['deleteCard'];
-}
+/**
+ * Corrige as referências que mudanças vindas de fora do quadro podem deixar
+ * soltas. O cartão numa lista que não está mais no quadro traz a lista de volta,
+ * do arquivo (com os seus cartões) ou de `knownLists`, ou vai para o fim da
+ * primeira lista. Etiquetas,
+ * membros, capa e raia que não existem mais são descartados, as posições de cada
+ * lista são renumeradas e sai do arquivo o que está de novo no quadro.
+ */
+const repairBoardReferences = (
+  board: IBoard,
+  knownLists: IList[] = []
+): IBoard => {
+  let restored = board;
+  board.cards.forEach((card) => {
+    if (restored.lists.some((list) => list.id === card.listId)) return;
+    // Arquivada aqui enquanto outro cliente movia o cartão para ela
+    if (
+      restored.archive.some(
+        (item) => item.kind === 'list' && item.id === card.listId
+      )
+    ) {
+      restored = restoreBoardItem(restored, card.listId);
+      return;
+    }
+    const list = knownLists.find((other) => other.id === card.listId);
+    if (list) {
+      restored = {
+        ...restored,
+        lists: [...restored.lists, { ...list, order: Number.MAX_SAFE_INTEGER }],
+      };
+    }
+  });
+  const lists = normalizeListOrder(restored.lists);
 
-// Componente: ListView (Coluna/Lista do Kanban)
-const ListView: React.FC<ListViewProps> = ({
-  list,
-  cards,
-  addCard,
-  reorderCards,
-  onEditCard,
-  deleteCard,
-}) => {
-  const [newCardTitle, setNewCardTitle] = useState<string>('');
-  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const labelIds = new Set(board.labels.map((label) => label.id));
+  const memberIds = new Set(board.members.map((member) => member.id));
+  // Sem nenhuma lista não há para onde levar o cartão
+  const fallbackListId = lists[0]?.id;
+  let cards = restored.cards.map((card) => {
+    const isListValid =
+      !fallbackListId || lists.some((list) => list.id === card.listId);
+    const isCoverValid =
+      card.coverAttachmentId === null ||
+      card.attachments.some(
+        (attachment) => attachment.id === card.coverAttachmentId
+      );
+    const isLaneValid =
+      card.laneId === null ||
+      board.lanes.some((lane) => lane.id === card.laneId);
+    return isListValid &&
+      card.labelIds.every((id) => labelIds.has(id)) &&
+      card.assigneeIds.every((id) => memberIds.has(id)) &&
+      isCoverValid &&
+      isLaneValid
+      ? card
+      : {
+          ...card,
+          listId: isListValid ? card.listId : fallbackListId,
+          position: isListValid ? card.position : Number.MAX_SAFE_INTEGER,
+          labelIds: card.labelIds.filter((id) => labelIds.has(id)),
+          assigneeIds: card.assigneeIds.filter((id) => memberIds.has(id)),
+          coverAttachmentId: isCoverValid ? card.coverAttachmentId : null,
+          laneId: isLaneValid ? card.laneId : null,
+        };
+  });
+  // Movimentos concorrentes podem repetir posições numa lista
+  lists.forEach((list) => {
+    cards = normalizeListPositions(cards, list.id);
+  });
 
-  // Tipagem para evento de formulário
-  const handleAddCard = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (newCardTitle.trim()) {
-      addCard(list.id, newCardTitle.trim(), 'Adicione uma descrição aqui.');
-      setNewCardTitle('');
-      setIsAdding(false);
-    }
+  return {
+    ...board,
+    lists,
+    cards,
+    // Arquivado de um lado e editado do outro: a edição manteve o item no quadro
+    archive: restored.archive.filter(
+      (item) =>
+        !lists.some((list) => list.id === item.id) &&
+        !cards.some((card) => card.id === item.id)
+    ),
   };
+};
 
-  // Tipagem para evento DragOver
-  const handleDragOver: DragEventHandler<HTMLDivElement> = (e) => {
-    e.preventDefault(); // Necessário para permitir o drop
-    (e.currentTarget as HTMLDivElement).classList.add('drag-over-list');
-    e.dataTransfer.dropEffect = 'move';
-  };
+// Título exibido para um item do arquivo
+const getArchivedItemTitle = (item: ArchivedItem): string =>
+  item.kind === 'card' ? item.card.title : item.list.title;
 
-  // Tipagem para evento DragLeave
-  const handleDragLeave: DragEventHandler<HTMLDivElement> = (e) => {
-    (e.currentTarget as HTMLDivElement).classList.remove('drag-over-list');
-  };
+// O item do arquivo contém o termo (já em minúsculas)? Uma lista também é
+// encontrada pelos cartões que foram arquivados com ela.
+const matchesArchivedItem = (item: ArchivedItem, term: string): boolean =>
+  (item.kind === 'list' && item.list.title.toLowerCase().includes(term)) ||
+  (item.kind === 'card' ? [item.card] : item.cards).some(
+    (card) =>
+      card.title.toLowerCase().includes(term) ||
+      card.description.toLowerCase().includes(term)
+  );
 
-  // Tipagem para evento Drop
-  const handleDrop: DragEventHandler<HTMLDivElement> = (e) => {
-    e.preventDefault();
-    (e.currentTarget as HTMLDivElement).classList.remove('drag-over-list');
-    const cardId = e.dataTransfer.getData('cardId');
-    if (cardId) {
-      // sourceListId é null porque o D&D nativo simples não nos dá o ID da lista de origem facilmente
-      reorderCards(null, cardId, list.id);
-    }
+// Data de arquivamento ou de ida para a lixeira, ex.: "12 de out."
+const formatArchiveDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+  });
+
+// Exclui de vez, em todos os quadros, os itens que passaram do prazo na lixeira
+const purgeExpiredTrash = (state: IKanbanState, now: number): IKanbanState => {
+  const { trashRetentionDays } = state;
+  if (trashRetentionDays === null) return state;
+  const isExpired = (item: ArchivedItem): boolean =>
+    item.trashedAt !== null &&
+    item.trashedAt <= now - trashRetentionDays * DAY_MS;
+  // Sem nada vencido o estado fica igual, para não provocar uma gravação
+  if (!state.boards.some((board) => board.archive.some(isExpired))) {
+    return state;
+  }
+  return {
+    ...state,
+    boards: state.boards.map((board) =>
+      board.archive.some(isExpired)
+        ? {
+            ...board,
+            archive: board.archive.filter((item) => !isExpired(item)),
+          }
+        : board
+    ),
   };
+};
 
-  return (
-    <div
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      className="
-        list-view
-      "
-    >
-      <div
-        className="
-          list-header
-        "
-      >
-        <h2
-          className="
-            list-title
-          "
-        >
-          <span
-            style={{ backgroundColor: `var(${list.colorVar})` }}
-            className="
-              list-color-dot
-            "
-          ></span>
-          {list.title}
-          <span
-            className="
-              list-count
-            "
-          >
-            ({cards.length})
-          </span>
-        </h2>
-        <Button
-          variant="ghost"
-          onClick={() => setIsAdding((prev) => !prev)}
-          className="
-            list-add-btn
-          "
-        >
-          <Plus
-            className="
-              icon-sm
-            "
-          />
-        </Button>
-      </div>
+// Texto de cada situação de prazo (leitores de tela e dica do selo no cartão)
+const DUE_STATUS_LABELS: Record<DueStatus, string> = {
+  overdue: 'Atrasado',
+  today: 'Vence hoje',
+  week: 'Vence esta semana',
+  later: 'Prazo',
+};
 
-      <div
-        className="
-          list-cards-container custom-scrollbar
-        "
-      >
-        {cards
-          .sort((a, b) => b.createdAt - a.createdAt)
-          .map((card) => (
-            <CardComponent
-              key={card.id}
-              card={card}
-              listColorVar={list.colorVar}
-              onEditClick={onEditCard}
-              onDelete={deleteCard}
-            />
-          ))}
-      </div>
+// Cores disponíveis para as listas (variáveis CSS definidas no tema)
+const LIST_COLORS: { colorVar: string; label: string }[] = [
+  { colorVar: '--color-list-red', label: 'Vermelho' },
+  { colorVar: '--color-list-yellow', label: 'Amarelo' },
+  { colorVar: '--color-list-green', label: 'Verde' },
+  { colorVar: '--color-list-blue', label: 'Azul' },
+  { colorVar: '--color-list-purple', label: 'Roxo' },
+  { colorVar: '--color-list-gray', label: 'Cinza' },
+];
 
-      {isAdding && (
-        <form
-          onSubmit={handleAddCard}
-          className="
-            new-card-form
-          "
-        >
-          <input
-            type="text"
-            placeholder="Título do novo cartão..."
-            value={newCardTitle}
-            onChange={(e) => setNewCardTitle(e.target.value)}
-            autoFocus
-            className="
-              form-input new-card-input
-            "
-          />
-          <div
-            className="
-              new-card-actions
-            "
-          >
-            <Button type="submit">Adicionar</Button>
-            <Button
-              type="button"
-              variant="secondary"
-              onClick={() => setIsAdding(false)}
-            >
-              Cancelar
-            </Button>
-          </div>
-        </form>
-      )}
-    </div>
+// Momento em que o prazo vence: o horário informado ou o fim do dia local
+const getDueDeadline = (due: IDueDate): number => {
+  if (due.hasTime) return due.at;
+  const date = new Date(due.at);
+  return (
+    new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate() + 1
+    ).getTime() - 1
   );
 };
 
-// Propriedades para o Componente BoardView
-interface BoardViewProps {
-  store: IKanbanStore;
-}
+// Classifica o prazo: atrasado, hoje, nesta semana (segunda a domingo) ou depois
+const getDueStatus = (due: IDueDate, now: number): DueStatus => {
+  const deadline = getDueDeadline(due);
+  if (deadline < now) return 'overdue';
+  const today = new Date(now);
+  const startOfTomorrow = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate() + 1
+  ).getTime();
+  if (deadline < startOfTomorrow) return 'today';
+  const daysUntilMonday = (8 - today.getDay()) % 7 || 7;
+  const startOfNextWeek = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate() + daysUntilMonday
+  ).getTime();
+  return deadline < startOfNextWeek ? 'week' : 'later';
+};
 
-// Componente: BoardView (Quadro Principal)
-const BoardView: React.FC<BoardViewProps> = ({ store }) => {
-  const {
-    lists,
-    cards,
-    reorderCards,
-    addList,
-    searchTerm,
-    setSearchTerm,
-    updateCard, // Adicionei para usar no modal
-    deleteCard, // Adicionei para usar no modal
-    addCard, // Adicionei para passar para ListView
-  } = store;
-  const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-  // selectedCard pode ser ICard ou null
-  const [selectedCard, setSelectedCard] = useState<ICard | null>(null);
-  const [newListTitle, setNewListTitle] = useState<string>('');
+// Mesmo formato de `formattedDate` (pt-BR), com o horário quando houver
+const formatDueDate = (due: IDueDate): string => {
+  const date = new Date(due.at);
+  const day = date.toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+  });
+  return due.hasTime
+    ? `${day}, ${date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`
+    : day;
+};
 
-  const handleEditCard = (card: ICard): void => {
-    setSelectedCard(card);
-    setIsModalOpen(true);
-  };
+const padDatePart = (value: number): string => String(value).padStart(2, '0');
 
-  // Tipagem para evento de input
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
-    setSearchTerm(e.target.value);
-  };
+// Valores para <input type="date"> e <input type="time">, no fuso local
+const toDateInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${padDatePart(date.getMonth() + 1)}-${padDatePart(date.getDate())}`;
+};
 
-  const filteredCards: ICard[] = cards.filter(
-    (card) =>
-      card.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      card.description.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+const toTimeInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${padDatePart(date.getHours())}:${padDatePart(date.getMinutes())}`;
+};
 
-  const handleAddList = (): void => {
-    if (newListTitle.trim()) {
-      addList(newListTitle.trim());
-      setNewListTitle('');
-    }
-  };
+/**
+ * Monta um prazo a partir de data (AAAA-MM-DD) e horário opcional (HH:MM),
+ * interpretados no fuso local. Retorna null se a data for inválida.
+ */
+const parseDueDate = (
+  dateValue: string,
+  timeValue: string
+): IDueDate | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateValue.trim());
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(timeValue.trim());
+  if (!dateMatch || (timeValue.trim() && !timeMatch)) return null;
+  const [year, month, day] = dateMatch.slice(1).map(Number);
+  const [hours, minutes] = timeMatch ? timeMatch.slice(1).map(Number) : [0, 0];
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // Rejeita datas que o construtor "corrige", como 31/02 ou 25:00
+  if (
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    date.getHours() !== hours ||
+    date.getMinutes() !== minutes
+  ) {
+    return null;
+  }
+  return { at: date.getTime(), hasTime: timeMatch !== null };
+};
 
-  return (
+// --- SEÇÃO 2.1: PERSISTÊNCIA VERSIONADA (VALIDAÇÃO E MIGRAÇÕES) ---
+
+// Chave onde ficam os dados salvos que não puderam ser carregados
+const QUARANTINE_KEY = 'kanban-board-quarantine';
+
+// Dado persistido ainda não validado
+type PersistedData = Record<string, unknown>;
+
+// Uma migração converte os dados da versão N para a versão N + 1
+type Migration = (data: PersistedData) => PersistedData;
+
+const isRecord = (value: unknown): value is PersistedData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// v0 -> v1: cartões ganham `position`, derivada da ordem em que eram exibidos
+// (createdAt decrescente, do mais recente para o mais antigo).
+const migrateV0ToV1: Migration = (data) => {
+  if (!Array.isArray(data.cards)) return data;
+  const cardRecords = data.cards.filter(isRecord);
+  if (cardRecords.every((card) => isFiniteNumber(card.position))) return data;
+
+  const nextPosition = new Map<unknown, number>();
+  const positions = new Map<PersistedData, number>();
+  [...cardRecords]
+    .sort((a, b) => Number(b.createdAt) - Number(a.createdAt))
+    .forEach((card) => {
+      const position = nextPosition.get(card.listId) ?? 0;
+      positions.set(card, position);
+      nextPosition.set(card.listId, position + 1);
+    });
+  return {
+    ...data,
+    cards: data.cards.map((card) =>
+      isRecord(card) ? { ...card, position: positions.get(card) } : card
+    ),
+  };
+};
+
+// v1 -> v2: as listas e cartões do quadro único passam a ser o quadro padrão
+const migrateV1ToV2: Migration = ({ lists, cards, ...rest }) => ({
+  ...rest,
+  boards: [{ id: DEFAULT_BOARD_ID, title: DEFAULT_BOARD_TITLE, lists, cards }],
+  activeBoardId: DEFAULT_BOARD_ID,
+});
+
+// Aplica `update` a cada quadro salvo que seja um objeto (os demais ficam para a validação)
+const mapBoardRecords = (
+  data: PersistedData,
+  update: (board: PersistedData) => PersistedData
+): PersistedData =>
+  Array.isArray(data.boards)
+    ? {
+        ...data,
+        boards: data.boards.map((board) =>
+          isRecord(board) ? update(board) : board
+        ),
+      }
+    : data;
+
+// Idem para os cartões de um quadro salvo
+const mapCardRecords = (
+  board: PersistedData,
+  update: (card: PersistedData) => PersistedData
+): PersistedData =>
+  Array.isArray(board.cards)
+    ? {
+        ...board,
+        cards: board.cards.map((card) =>
+          isRecord(card) ? update(card) : card
+        ),
+      }
+    : board;
+
+// Idem, incluindo os cartões do arquivo (listas arquivadas guardam `cards`;
+// cartões arquivados, `card`)
+const mapAllCardRecords = (
+  board: PersistedData,
+  update: (card: PersistedData) => PersistedData
+): PersistedData => {
+  const migrated = mapCardRecords(board, update);
+  if (!Array.isArray(board.archive)) return migrated;
+  return {
+    ...migrated,
+    archive: board.archive.map((item) =>
+      isRecord(item)
+        ? mapCardRecords(
+            isRecord(item.card) ? { ...item, card: update(item.card) } : item,
+            update
+          )
+        : item
+    ),
+  };
+};
+
+// v2 -> v3: quadros ganham etiquetas e cartões ganham `labelIds`, ambos vazios
+const migrateV2ToV3: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapCardRecords({ ...board, labels: [] }, (card) => ({
+      ...card,
+      labelIds: [],
+    }))
+  );
+
+// v3 -> v4: cartões ganham prazo (`due`), inicialmente vazio
+const migrateV3ToV4: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapCardRecords(board, (card) => ({ ...card, due: null }))
+  );
+
+// v4 -> v5: quadros ganham membros e cartões ganham responsáveis, ambos vazios
+const migrateV4ToV5: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapCardRecords({ ...board, members: [] }, (card) => ({
+      ...card,
+      assigneeIds: [],
+    }))
+  );
+
+// v5 -> v6: cartões ganham checklists, inicialmente nenhum
+const migrateV5ToV6: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapCardRecords(board, (card) => ({ ...card, checklists: [] }))
+  );
+
+// v6 -> v7: cartões ganham comentários e atividade, ambos vazios
+const migrateV6ToV7: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapCardRecords(board, (card) => ({ ...card, comments: [], activity: [] }))
+  );
+
+// v7 -> v8: listas ganham limite WIP, inicialmente nenhum
+const migrateV7ToV8: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    Array.isArray(board.lists)
+      ? {
+          ...board,
+          lists: board.lists.map((list) =>
+            isRecord(list) ? { ...list, wipLimit: null } : list
+          ),
+        }
+      : board
+  );
+
+// v8 -> v9: cartões ganham anexos, inicialmente nenhum e sem capa
+const migrateV8ToV9: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapCardRecords(board, (card) => ({
+      ...card,
+      attachments: [],
+      coverAttachmentId: null,
+    }))
+  );
+
+// v9 -> v10: cartões e listas passam a ser arquivados em vez de excluídos. Os
+// quadros ganham o arquivo, vazio, e o estado o prazo padrão da lixeira.
+const migrateV9ToV10: Migration = (data) => ({
+  ...mapBoardRecords(data, (board) => ({ ...board, archive: [] })),
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+});
+
+// v10 -> v11: quadros ganham modelos de cartão, inicialmente nenhum
+const migrateV10ToV11: Migration = (data) =>
+  mapBoardRecords(data, (board) => ({ ...board, templates: [] }));
+
+// v11 -> v12: cartões, inclusive os arquivados, ganham repetição (nenhuma)
+const migrateV11ToV12: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapAllCardRecords(board, (card) => ({ ...card, recurrence: null }))
+  );
+
+// v12 -> v13: quadros ganham raias manuais (nenhuma, sem agrupamento) e
+// cartões, inclusive os arquivados, ganham prioridade e raia (nenhuma)
+const migrateV12ToV13: Migration = (data) =>
+  mapBoardRecords(data, (board) =>
+    mapAllCardRecords({ ...board, lanes: [], swimlanes: 'none' }, (card) => ({
+      ...card,
+      priority: null,
+      laneId: null,
+    }))
+  );
+
+// Cadeia de migrações: o índice é a versão de origem. Nova migração = nova versão.
+const MIGRATIONS: Migration[] = [
+  migrateV0ToV1,
+  migrateV1ToV2,
+  migrateV2ToV3,
+  migrateV3ToV4,
+  migrateV4ToV5,
+  migrateV5ToV6,
+  migrateV6ToV7,
+  migrateV7ToV8,
+  migrateV8ToV9,
+  migrateV9ToV10,
+  migrateV10ToV11,
+  migrateV11ToV12,
+  migrateV12ToV13,
+];
+
+// Versão atual do esquema salvo no localStorage
+const SCHEMA_VERSION: number = MIGRATIONS.length;
+
+// Limite WIP ausente (null) ou com máximo inteiro positivo e modo conhecido
+const isValidWipLimit = (value: unknown): boolean =>
+  value === null ||
+  (isRecord(value) &&
+    Number.isInteger(value.max) &&
+    (value.max as number) > 0 &&
+    (value.mode === 'strict' || value.mode === 'soft'));
+
+// Valida uma lista isolada; retorna null se estiver malformada
+const validateList = (value: unknown): IList | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.title !== 'string' ||
+    typeof value.colorVar !== 'string' ||
+    !isFiniteNumber(value.order) ||
+    !isValidWipLimit(value.wipLimit)
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    title: value.title,
+    colorVar: value.colorVar,
+    order: value.order,
+    wipLimit: isRecord(value.wipLimit)
+      ? {
+          max: value.wipLimit.max as number,
+          mode: value.wipLimit.mode as WipLimitMode,
+        }
+      : null,
+  };
+};
+
+// Valida uma etiqueta isolada; retorna null se estiver malformada
+const validateLabel = (value: unknown): ILabel | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.colorVar !== 'string'
+  ) {
+    return null;
+  }
+  return { id: value.id, name: value.name, colorVar: value.colorVar };
+};
+
+// Valida uma raia manual isolada; retorna null se estiver malformada
+const validateLane = (value: unknown): ILane | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string'
+  ) {
+    return null;
+  }
+  return { id: value.id, name: value.name };
+};
+
+// Valida um membro isolado; retorna null se estiver malformado
+const validateMember = (value: unknown): IMember | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.initials !== 'string' ||
+    typeof value.colorVar !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    initials: value.initials,
+    colorVar: value.colorVar,
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Valida um checklist; itens malformados tornam o checklist inteiro inválido
+const validateChecklist = (value: unknown): IChecklist | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.title !== 'string' ||
+    !Array.isArray(value.items)
+  ) {
+    return null;
+  }
+  const items: IChecklistItem[] = [];
+  for (const item of value.items) {
+    if (
+      !isRecord(item) ||
+      typeof item.id !== 'string' ||
+      typeof item.text !== 'string' ||
+      typeof item.done !== 'boolean'
+    ) {
+      return null;
+    }
+    items.push({ id: item.id, text: item.text, done: item.done });
+  }
+  return { id: value.id, title: value.title, items };
+};
+
+// Valida um comentário isolado; retorna null se estiver malformado
+const validateComment = (value: unknown): IComment | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.author !== 'string' ||
+    typeof value.text !== 'string' ||
+    !isFiniteNumber(value.createdAt) ||
+    !(value.editedAt === null || isFiniteNumber(value.editedAt))
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    author: value.author,
+    text: value.text,
+    createdAt: value.createdAt,
+    editedAt: value.editedAt,
+  };
+};
+
+// Valida os metadados de um anexo; retorna null se estiverem malformados
+const validateAttachment = (value: unknown): IAttachment | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.type !== 'string' ||
+    !isFiniteNumber(value.size) ||
+    !isFiniteNumber(value.createdAt)
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    name: value.name,
+    type: value.type,
+    size: value.size,
+    createdAt: value.createdAt,
+  };
+};
+
+// Valida um evento da atividade conforme o seu tipo; retorna null se estiver malformado
+const validateActivityEntry = (value: unknown): CardActivityEntry | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    !isFiniteNumber(value.at)
+  ) {
+    return null;
+  }
+  const { id, at } = value;
+  switch (value.type) {
+    case 'created':
+      return typeof value.listTitle === 'string'
+        ? { id, at, type: 'created', listTitle: value.listTitle }
+        : null;
+    case 'renamed':
+      return typeof value.from === 'string' && typeof value.to === 'string'
+        ? { id, at, type: 'renamed', from: value.from, to: value.to }
+        : null;
+    case 'description-edited':
+      return { id, at, type: 'description-edited' };
+    case 'moved':
+      return typeof value.fromListTitle === 'string' &&
+        typeof value.toListTitle === 'string'
+        ? {
+            id,
+            at,
+            type: 'moved',
+            fromListTitle: value.fromListTitle,
+            toListTitle: value.toListTitle,
+          }
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Valida todos os itens de um array; retorna null se algum for inválido
+const validateEach = <T,>(
+  value: unknown,
+  validate: (item: unknown) => T | null
+): T[] | null => {
+  if (!Array.isArray(value)) return null;
+  const items = value.map(validate);
+  return items.every((item) => item !== null) ? (items as T[]) : null;
+};
+
+// Um prazo salvo é null ou { at, hasTime }
+const isValidDueDate = (value: unknown): boolean =>
+  value === null ||
+  (isRecord(value) &&
+    isFiniteNumber(value.at) &&
+    typeof value.hasTime === 'boolean');
+
+// Valida a repetição de um cartão; retorna null se estiver malformada
+const validateRecurrence = (value: unknown): IRecurrence | null => {
+  if (
+    !isRecord(value) ||
+    !isRecord(value.rule) ||
+    typeof value.listId !== 'string' ||
+    !isFiniteNumber(value.lastSpawnAt)
+  ) {
+    return null;
+  }
+  const { rule } = value;
+  const isInteger = (entry: unknown, min: number, max: number): boolean =>
+    Number.isInteger(entry) &&
+    (entry as number) >= min &&
+    (entry as number) <= max;
+  let validRule: RecurrenceRule | null = null;
+  if (rule.kind === 'daily') {
+    validRule = { kind: 'daily' };
+  } else if (
+    rule.kind === 'weekly' &&
+    Array.isArray(rule.weekdays) &&
+    rule.weekdays.length > 0 &&
+    rule.weekdays.every((weekday) => isInteger(weekday, 0, 6))
+  ) {
+    validRule = {
+      kind: 'weekly',
+      weekdays: [...new Set(rule.weekdays as number[])].sort((a, b) => a - b),
+    };
+  } else if (rule.kind === 'monthly' && isInteger(rule.day, 1, 31)) {
+    validRule = { kind: 'monthly', day: rule.day as number };
+  } else if (rule.kind === 'interval' && isInteger(rule.days, 1, 365)) {
+    validRule = { kind: 'interval', days: rule.days as number };
+  }
+  return validRule
+    ? { rule: validRule, listId: value.listId, lastSpawnAt: value.lastSpawnAt }
+    : null;
+};
+
+// Valida um cartão isolado; retorna null se estiver malformado
+const validateCard = (value: unknown): ICard | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.listId !== 'string' ||
+    typeof value.title !== 'string' ||
+    typeof value.description !== 'string' ||
+    !isFiniteNumber(value.createdAt) ||
+    !isFiniteNumber(value.position) ||
+    !isStringArray(value.labelIds) ||
+    !isValidDueDate(value.due) ||
+    !isStringArray(value.assigneeIds)
+  ) {
+    return null;
+  }
+  const checklists = validateEach(value.checklists, validateChecklist);
+  const comments = validateEach(value.comments, validateComment);
+  const activity = validateEach(value.activity, validateActivityEntry);
+  const attachments = validateEach(value.attachments, validateAttachment);
+  const recurrence =
+    value.recurrence === null ? null : validateRecurrence(value.recurrence);
+  if (
+    !checklists ||
+    !comments ||
+    !activity ||
+    !attachments ||
+    (value.recurrence !== null && !recurrence) ||
+    !(
+      value.coverAttachmentId === null ||
+      typeof value.coverAttachmentId === 'string'
+    ) ||
+    !(
+      value.priority === null ||
+      (typeof value.priority === 'string' &&
+        Object.hasOwn(PRIORITY_LABELS, value.priority))
+    ) ||
+    !(value.laneId === null || typeof value.laneId === 'string')
+  ) {
+    return null;
+  }
+  return {
+    id: value.id,
+    listId: value.listId,
+    title: value.title,
+    description: value.description,
+    createdAt: value.createdAt,
+    position: value.position,
+    labelIds: value.labelIds,
+    due: isRecord(value.due)
+      ? { at: value.due.at as number, hasTime: value.due.hasTime as boolean }
+      : null,
+    assigneeIds: value.assigneeIds,
+    checklists,
+    comments,
+    activity,
+    attachments,
+    // A capa precisa ser um anexo de imagem do próprio cartão
+    coverAttachmentId: attachments.some(
+      (attachment) =>
+        attachment.id === value.coverAttachmentId &&
+        isImageAttachment(attachment)
+    )
+      ? (value.coverAttachmentId as string)
+      : null,
+    recurrence,
+    priority: value.priority as CardPriority | null,
+    laneId: value.laneId,
+  };
+};
+
+// Valida um modelo de cartão; retorna null se estiver malformado
+const validateTemplate = (value: unknown): ICardTemplate | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.titlePattern !== 'string' ||
+    typeof value.description !== 'string' ||
+    !isStringArray(value.labelIds) ||
+    !isStringArray(value.assigneeIds) ||
+    !(
+      value.dueInDays === null ||
+      (Number.isInteger(value.dueInDays) && (value.dueInDays as number) >= 0)
+    ) ||
+    !(value.listId === null || typeof value.listId === 'string')
+  ) {
+    return null;
+  }
+  const checklists = validateEach(value.checklists, validateChecklist);
+  if (!checklists) return null;
+  return {
+    id: value.id,
+    name: value.name,
+    titlePattern: value.titlePattern,
+    description: value.description,
+    labelIds: value.labelIds,
+    assigneeIds: value.assigneeIds,
+    checklists,
+    dueInDays: value.dueInDays as number | null,
+    listId: value.listId,
+  };
+};
+
+// Valida um item do arquivo ou da lixeira; retorna null se estiver malformado
+const validateArchivedItem = (value: unknown): ArchivedItem | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    !isFiniteNumber(value.archivedAt) ||
+    !(value.trashedAt === null || isFiniteNumber(value.trashedAt))
+  ) {
+    return null;
+  }
+  const { id, archivedAt, trashedAt } = value;
+  if (value.kind === 'card') {
+    const card = validateCard(value.card);
+    return card && card.id === id
+      ? { id, archivedAt, trashedAt, kind: 'card', card }
+      : null;
+  }
+  if (value.kind === 'list') {
+    const list = validateList(value.list);
+    const cards = validateEach(value.cards, validateCard);
+    return list &&
+      cards &&
+      list.id === id &&
+      cards.every((card) => card.listId === id)
+      ? { id, archivedAt, trashedAt, kind: 'list', list, cards }
+      : null;
+  }
+  return null;
+};
+
+// Valida um quadro; listas e cartões inválidos vão para a quarentena via `quarantine`
+const validateBoard = (
+  value: unknown,
+  quarantine: (reason: string, entry: unknown) => void
+): IBoard | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.title !== 'string' ||
+    !Array.isArray(value.lists) ||
+    !Array.isArray(value.cards) ||
+    !Array.isArray(value.labels) ||
+    !Array.isArray(value.members) ||
+    !Array.isArray(value.templates) ||
+    !Array.isArray(value.archive) ||
+    !Array.isArray(value.lanes)
+  ) {
+    return null;
+  }
+
+  const labels: ILabel[] = [];
+  value.labels.forEach((entry) => {
+    const label = validateLabel(entry);
+    if (!label) quarantine('Etiqueta malformada', entry);
+    else if (labels.some((other) => other.id === label.id))
+      quarantine('Etiqueta com ID duplicado', entry);
+    else labels.push(label);
+  });
+  const labelIds = new Set(labels.map((label) => label.id));
+
+  const members: IMember[] = [];
+  value.members.forEach((entry) => {
+    const member = validateMember(entry);
+    if (!member) quarantine('Membro malformado', entry);
+    else if (members.some((other) => other.id === member.id))
+      quarantine('Membro com ID duplicado', entry);
+    else members.push(member);
+  });
+  const memberIds = new Set(members.map((member) => member.id));
+
+  const lanes: ILane[] = [];
+  value.lanes.forEach((entry) => {
+    const lane = validateLane(entry);
+    if (!lane) quarantine('Raia malformada', entry);
+    else if (lanes.some((other) => other.id === lane.id))
+      quarantine('Raia com ID duplicado', entry);
+    else lanes.push(lane);
+  });
+
+  const lists: IList[] = [];
+  value.lists.forEach((entry) => {
+    const list = validateList(entry);
+    if (!list) quarantine('Lista malformada', entry);
+    else if (lists.some((other) => other.id === list.id))
+      quarantine('Lista com ID duplicado', entry);
+    else lists.push(list);
+  });
+
+  // Referências a etiquetas e membros inexistentes (ou repetidas) são descartadas
+  const withValidReferences = <T extends ICard | ICardTemplate>(
+    card: T
+  ): T => ({
+    ...card,
+    labelIds: [...new Set(card.labelIds)].filter((labelId) =>
+      labelIds.has(labelId)
+    ),
+    assigneeIds: [...new Set(card.assigneeIds)].filter((memberId) =>
+      memberIds.has(memberId)
+    ),
+  });
+  const withValidCardReferences = (card: ICard): ICard => ({
+    ...withValidReferences(card),
+    laneId: lanes.some((lane) => lane.id === card.laneId) ? card.laneId : null,
+  });
+
+  let cards: ICard[] = [];
+  value.cards.forEach((entry) => {
+    const card = validateCard(entry);
+    if (!card) quarantine('Cartão malformado', entry);
+    else if (cards.some((other) => other.id === card.id))
+      quarantine('Cartão com ID duplicado', entry);
+    else if (!lists.some((list) => list.id === card.listId))
+      quarantine('Cartão em lista inexistente', entry);
+    else cards.push(withValidCardReferences(card));
+  });
+  // Corrige lacunas ou repetições de posição deixadas por edições manuais
+  lists.forEach((list) => {
+    cards = normalizeListPositions(cards, list.id);
+  });
+
+  const templates: ICardTemplate[] = [];
+  value.templates.forEach((entry) => {
+    const template = validateTemplate(entry);
+    if (!template) quarantine('Modelo malformado', entry);
+    else if (templates.some((other) => other.id === template.id))
+      quarantine('Modelo com ID duplicado', entry);
+    else templates.push(withValidReferences(template));
+  });
+
+  const archive: ArchivedItem[] = [];
+  value.archive.forEach((entry) => {
+    const item = validateArchivedItem(entry);
+    if (!item) quarantine('Item arquivado malformado', entry);
+    else if (
+      archive.some((other) => other.id === item.id) ||
+      lists.some((list) => list.id === item.id) ||
+      cards.some((card) => card.id === item.id)
+    )
+      quarantine('Item arquivado com ID duplicado', entry);
+    else
+      archive.push(
+        item.kind === 'card'
+          ? { ...item, card: withValidCardReferences(item.card) }
+          : { ...item, cards: item.cards.map(withValidCardReferences) }
+      );
+  });
+
+  return {
+    id: value.id,
+    title: value.title,
+    lists,
+    cards,
+    labels,
+    members,
+    templates,
+    archive,
+    lanes,
+    // Agrupamento desconhecido volta ao quadro sem raias
+    swimlanes:
+      typeof value.swimlanes === 'string' &&
+      Object.hasOwn(SWIMLANE_GROUPING_LABELS, value.swimlanes)
+        ? (value.swimlanes as SwimlaneGrouping)
+        : 'none',
+  };
+};
+
+// Prazo da lixeira salvo: inteiro positivo de dias ou null (nunca excluir)
+const isValidTrashRetention = (value: unknown): value is number | null =>
+  value === null || (Number.isInteger(value) && (value as number) > 0);
+
+// Mantém só as escolhas de "quem sou eu" que apontam para membros existentes
+const validateCurrentMembers = (
+  value: unknown,
+  boards: IBoard[]
+): Record<string, string> => {
+  if (!isRecord(value)) return {};
+  const result: Record<string, string> = {};
+  boards.forEach((board) => {
+    const memberId = value[board.id];
+    if (board.members.some((member) => member.id === memberId)) {
+      result[board.id] = memberId as string;
+    }
+  });
+  return result;
+};
+
+/**
+ * Valida, em tempo de execução, um estado já migrado para a versão atual.
+ * Quadros, listas e cartões inválidos (malformados, com ID repetido ou órfãos)
+ * são separados em `quarantined`. Retorna null se a estrutura for irrecuperável.
+ */
+const validateKanbanState = (
+  data: unknown
+): { state: IKanbanState; quarantined: IQuarantineEntry[] } | null => {
+  if (!isRecord(data) || !Array.isArray(data.boards)) {
+    return null;
+  }
+  const quarantined: IQuarantineEntry[] = [];
+  const quarantine = (reason: string, entry: unknown): void => {
+    quarantined.push({ reason, data: entry, quarantinedAt: Date.now() });
+  };
+
+  const boards: IBoard[] = [];
+  data.boards.forEach((entry) => {
+    const board = validateBoard(entry, quarantine);
+    if (!board) quarantine('Quadro malformado', entry);
+    else if (boards.some((other) => other.id === board.id))
+      quarantine('Quadro com ID duplicado', entry);
+    else boards.push(board);
+  });
+  if (boards.length === 0) return null;
+
+  return {
+    state: {
+      boards,
+      activeBoardId: boards.some((board) => board.id === data.activeBoardId)
+        ? (data.activeBoardId as string)
+        : boards[0].id,
+      theme: data.theme === 'dark' ? 'dark' : 'light',
+      searchTerm: typeof data.searchTerm === 'string' ? data.searchTerm : '',
+      currentMemberByBoard: validateCurrentMembers(
+        data.currentMemberByBoard,
+        boards
+      ),
+      trashRetentionDays: isValidTrashRetention(data.trashRetentionDays)
+        ? data.trashRetentionDays
+        : DEFAULT_TRASH_RETENTION_DAYS,
+    },
+    quarantined,
+  };
+};
+
+// Guarda dados rejeitados em uma chave separada, para recuperação manual
+const quarantineEntries = (entries: IQuarantineEntry[]): void => {
+  if (entries.length === 0) return;
+  console.warn('Dados inválidos colocados em quarentena:', entries);
+  try {
+    const stored = localStorage.getItem(QUARANTINE_KEY);
+    const previous: unknown = stored ? JSON.parse(stored) : [];
+    localStorage.setItem(
+      QUARANTINE_KEY,
+      JSON.stringify([...(Array.isArray(previous) ? previous : []), ...entries])
+    );
+  } catch (error) {
+    console.error('Erro ao salvar quarentena no localStorage:', error);
+  }
+};
+
+// Resultado da leitura de um estado serializado (localStorage ou arquivo importado)
+type ParsedStateResult =
+  | { ok: true; state: IKanbanState; quarantined: IQuarantineEntry[] }
+  | { ok: false; reason: string };
+
+// Interpreta o conteúdo bruto salvo (texto JSON); ver parsePersistedData
+const parsePersistedState = (raw: string): ParsedStateResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, reason: 'JSON inválido' };
+  }
+  return parsePersistedData(parsed);
+};
+
+/**
+ * Interpreta os dados salvos já desserializados, aplica as migrações pendentes
+ * passo a passo e valida o resultado. Não tem efeitos colaterais.
+ */
+const parsePersistedData = (parsed: unknown): ParsedStateResult => {
+  // Saves sem envelope { version, state } são da versão 0
+  let version = 0;
+  let data: unknown = parsed;
+  if (isRecord(parsed) && isFiniteNumber(parsed.version) && 'state' in parsed) {
+    version = parsed.version;
+    data = parsed.state;
+  }
+
+  if (!Number.isInteger(version) || version < 0 || version > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      reason: `Versão de esquema não suportada: ${version}`,
+    };
+  }
+  for (let step = version; step < SCHEMA_VERSION; step++) {
+    if (!isRecord(data)) break;
+    data = MIGRATIONS[step](data);
+  }
+
+  const result = validateKanbanState(data);
+  if (!result) return { ok: false, reason: 'Estrutura do estado inválida' };
+  return { ok: true, ...result };
+};
+
+// Manda para a quarentena o que a leitura rejeitou e devolve o estado aproveitável.
+// Dados irrecuperáveis (`raw`) vão inteiros para a quarentena.
+const acceptParsedState = (
+  result: ParsedStateResult,
+  raw: unknown
+): IKanbanState | null => {
+  if (!result.ok) {
+    quarantineEntries([
+      { reason: result.reason, data: raw, quarantinedAt: Date.now() },
+    ]);
+    return null;
+  }
+  quarantineEntries(result.quarantined);
+  return result.state;
+};
+
+// Carrega o estado salvo em texto JSON
+const loadPersistedState = (raw: string): IKanbanState | null =>
+  acceptParsedState(parsePersistedState(raw), raw);
+
+// Estado de um primeiro acesso, sem nada salvo
+const getInitialState = (): IKanbanState => {
+  return {
+    boards: INITIAL_BOARDS,
+    activeBoardId: DEFAULT_BOARD_ID,
+    theme: 'light', // Padrão
+    searchTerm: '',
+    currentMemberByBoard: {},
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  };
+};
+// --- SEÇÃO 2.2: EXPORTAÇÃO E IMPORTAÇÃO DO QUADRO ---
+
+// Serializa o estado completo (quadros com listas e cartões, e tema) no formato versionado
+const serializeKanbanState = (state: IKanbanState): string => {
+  const exportedState: IPersistedState = {
+    version: SCHEMA_VERSION,
+    state: {
+      boards: state.boards,
+      activeBoardId: state.activeBoardId,
+      theme: state.theme,
+      searchTerm: '', // A busca é estado de interface, não faz parte do backup
+      currentMemberByBoard: state.currentMemberByBoard,
+      trashRetentionDays: state.trashRetentionDays,
+    },
+  };
+  return JSON.stringify(exportedState, null, 2);
+};
+
+// Dispara o download de um arquivo gerado no navegador
+const downloadFile = (
+  fileName: string,
+  content: string | Blob,
+  mimeType: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Sufixo de data (AAAA-MM-DD) usado nos nomes dos arquivos exportados
+const getExportDateSuffix = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Mescla itens nomeados de um quadro (etiquetas, membros). Itens com o mesmo
+ * nome são unificados; IDs repetidos com nomes diferentes seguem `strategy`.
+ * Retorna os itens finais e o mapa de ID importado -> ID final.
+ */
+const mergeNamedItems = <T extends { id: string; name: string }>(
+  current: T[],
+  incoming: T[],
+  strategy: ConflictStrategy,
+  idPrefix: string
+): { items: T[]; idMap: Map<string, string> } => {
+  const items: T[] = [...current];
+  const idMap = new Map<string, string>();
+  incoming.forEach((item) => {
+    const existingIndex = items.findIndex((other) => other.id === item.id);
+    const existing = items[existingIndex];
+    const sameName = findByName(items, item.name);
+    if (existing && (existing.name === item.name || strategy === 'overwrite')) {
+      items[existingIndex] = item;
+      idMap.set(item.id, item.id);
+    } else if (sameName) {
+      idMap.set(item.id, sameName.id);
+    } else {
+      const id = existing ? createId(idPrefix) : item.id;
+      items.push({ ...item, id });
+      idMap.set(item.id, id);
+    }
+  });
+  return { items, idMap };
+};
+
+// Mescla listas, cartões, modelos e arquivo importados a um quadro existente,
+// resolvendo IDs repetidos
+const mergeBoards = (
+  current: IBoard,
+  incoming: IBoard,
+  strategy: ConflictStrategy
+): IBoard => {
+  const lists: IList[] = [...current.lists];
+  const listIdMap = new Map<string, string>(); // ID importado -> ID final
+  let nextOrder = Math.max(-1, ...lists.map((list) => list.order)) + 1;
+
+  [...incoming.lists]
+    .sort((a, b) => a.order - b.order)
+    .forEach((list) => {
+      const existingIndex = lists.findIndex((other) => other.id === list.id);
+      const existing = lists[existingIndex];
+      if (!existing) {
+        lists.push({ ...list, order: nextOrder++ });
+        listIdMap.set(list.id, list.id);
+      } else if (existing.title === list.title) {
+        // Mesma coluna: os cartões importados são mesclados nela
+        listIdMap.set(list.id, list.id);
+      } else if (strategy === 'overwrite') {
+        lists[existingIndex] = { ...list, order: existing.order };
+        listIdMap.set(list.id, list.id);
+      } else {
+        const id = createId('list');
+        lists.push({ ...list, id, order: nextOrder++ });
+        listIdMap.set(list.id, id);
+      }
+    });
+
+  const { items: labels, idMap: labelIdMap } = mergeNamedItems(
+    current.labels,
+    incoming.labels,
+    strategy,
+    'label'
+  );
+  const { items: members, idMap: memberIdMap } = mergeNamedItems(
+    current.members,
+    incoming.members,
+    strategy,
+    'member'
+  );
+  const { items: lanes, idMap: laneIdMap } = mergeNamedItems(
+    current.lanes,
+    incoming.lanes,
+    strategy,
+    'lane'
+  );
+
+  // Etiquetas, membros e raia do cartão importado com os IDs finais
+  const remapReferences = (card: ICard): ICard => ({
+    ...card,
+    labelIds: [
+      ...new Set(
+        card.labelIds.map((labelId) => labelIdMap.get(labelId) ?? labelId)
+      ),
+    ],
+    assigneeIds: [
+      ...new Set(
+        card.assigneeIds.map(
+          (memberId) => memberIdMap.get(memberId) ?? memberId
+        )
+      ),
+    ],
+    laneId: card.laneId && (laneIdMap.get(card.laneId) ?? card.laneId),
+  });
+
+  let cards: ICard[] = [...current.cards];
+  // Cartões novos entram no final da lista de destino, na ordem do arquivo
+  const nextPosition = new Map<string, number>();
+  const appendPosition = (listId: string): number => {
+    const position =
+      nextPosition.get(listId) ??
+      cards.filter((card) => card.listId === listId).length;
+    nextPosition.set(listId, position + 1);
+    return position;
+  };
+
+  sortCardsByPosition(incoming.cards).forEach((incomingCard) => {
+    const card = remapReferences(incomingCard);
+    const listId = listIdMap.get(card.listId) ?? card.listId;
+    const existingIndex = cards.findIndex((other) => other.id === card.id);
+    const existing = cards[existingIndex];
+    if (!existing) {
+      cards.push({ ...card, listId, position: appendPosition(listId) });
+    } else if (
+      existing.listId === listId &&
+      existing.title === card.title &&
+      existing.description === card.description &&
+      existing.createdAt === card.createdAt &&
+      existing.labelIds.join() === card.labelIds.join() &&
+      JSON.stringify(existing.due) === JSON.stringify(card.due) &&
+      existing.assigneeIds.join() === card.assigneeIds.join() &&
+      JSON.stringify(existing.checklists) === JSON.stringify(card.checklists) &&
+      JSON.stringify(existing.comments) === JSON.stringify(card.comments) &&
+      JSON.stringify(existing.attachments) ===
+        JSON.stringify(card.attachments) &&
+      existing.coverAttachmentId === card.coverAttachmentId &&
+      JSON.stringify(existing.recurrence) === JSON.stringify(card.recurrence) &&
+      existing.priority === card.priority &&
+      existing.laneId === card.laneId
+    ) {
+      // Cartão idêntico já presente: nada a fazer
+    } else if (strategy === 'overwrite') {
+      cards[existingIndex] = {
+        ...card,
+        listId,
+        position:
+          existing.listId === listId
+            ? existing.position
+            : appendPosition(listId),
+      };
+    } else {
+      cards.push({
+        ...card,
+        id: createId('card'),
+        listId,
+        position: appendPosition(listId),
+      });
+    }
+  });
+  lists.forEach((list) => {
+    cards = normalizeListPositions(cards, list.id);
+  });
+
+  // Modelos com os IDs finais; sem a lista de destino, entram onde forem usados
+  const labelIds = new Set(labels.map((label) => label.id));
+  const memberIds = new Set(members.map((member) => member.id));
+  const templates: ICardTemplate[] = [...current.templates];
+  incoming.templates.forEach((incomingTemplate) => {
+    const listId =
+      incomingTemplate.listId &&
+      (listIdMap.get(incomingTemplate.listId) ?? incomingTemplate.listId);
+    const template: ICardTemplate = {
+      ...incomingTemplate,
+      labelIds: [
+        ...new Set(
+          incomingTemplate.labelIds.map(
+            (labelId) => labelIdMap.get(labelId) ?? labelId
+          )
+        ),
+      ].filter((labelId) => labelIds.has(labelId)),
+      assigneeIds: [
+        ...new Set(
+          incomingTemplate.assigneeIds.map(
+            (memberId) => memberIdMap.get(memberId) ?? memberId
+          )
+        ),
+      ].filter((memberId) => memberIds.has(memberId)),
+      listId: lists.some((list) => list.id === listId) ? listId : null,
+    };
+    const existingIndex = templates.findIndex(
+      (other) => other.id === template.id
+    );
+    const existing = templates[existingIndex];
+    if (!existing) {
+      templates.push(template);
+    } else if (JSON.stringify(existing) === JSON.stringify(template)) {
+      // Modelo idêntico já presente: nada a fazer
+    } else if (strategy === 'overwrite') {
+      templates[existingIndex] = template;
+    } else {
+      templates.push({ ...template, id: createId('template') });
+    }
+  });
+
+  const archive: ArchivedItem[] = [...current.archive];
+  incoming.archive.forEach((incomingItem) => {
+    const item: ArchivedItem =
+      incomingItem.kind === 'card'
+        ? {
+            ...incomingItem,
+            card: {
+              ...remapReferences(incomingItem.card),
+              listId:
+                listIdMap.get(incomingItem.card.listId) ??
+                incomingItem.card.listId,
+            },
+          }
+        : { ...incomingItem, cards: incomingItem.cards.map(remapReferences) };
+    const existingIndex = archive.findIndex((other) => other.id === item.id);
+    const existing = archive[existingIndex];
+    if (!existing) {
+      archive.push(item);
+    } else if (JSON.stringify(existing) === JSON.stringify(item)) {
+      // Item idêntico já arquivado: nada a fazer
+    } else if (strategy === 'overwrite') {
+      archive[existingIndex] = item;
+    } else if (item.kind === 'card') {
+      const id = createId('card');
+      archive.push({ ...item, id, card: { ...item.card, id } });
+    } else {
+      const id = createId('list');
+      archive.push({
+        ...item,
+        id,
+        list: { ...item.list, id },
+        cards: item.cards.map((card) => ({
+          ...card,
+          id: createId('card'),
+          listId: id,
+        })),
+      });
+    }
+  });
+
+  return {
+    ...current,
+    lists,
+    cards,
+    labels,
+    members,
+    lanes,
+    templates,
+    // O que o arquivo importado traz ativo no quadro sai do arquivo
+    archive: archive.filter(
+      (item) =>
+        !lists.some((list) => list.id === item.id) &&
+        !cards.some((card) => card.id === item.id)
+    ),
+  };
+};
+
+// Mescla os quadros importados: mesmo ID e título (ou 'overwrite') mescla o conteúdo
+const mergeKanbanStates = (
+  current: IKanbanState,
+  incoming: IKanbanState,
+  strategy: ConflictStrategy
+): IKanbanState => {
+  const boards: IBoard[] = [...current.boards];
+  incoming.boards.forEach((board) => {
+    const existingIndex = boards.findIndex((other) => other.id === board.id);
+    const existing = boards[existingIndex];
+    if (!existing) {
+      boards.push(board);
+    } else if (existing.title === board.title || strategy === 'overwrite') {
+      boards[existingIndex] = {
+        ...mergeBoards(existing, board, strategy),
+        title: board.title,
+      };
+    } else {
+      boards.push({ ...board, id: createId('board') });
+    }
+  });
+  return { ...current, boards };
+};
+
+// Calcula o estado resultante de uma importação (usado na prévia e na aplicação)
+const applyImport = (
+  current: IKanbanState,
+  incoming: IKanbanState,
+  mode: ImportMode,
+  strategy: ConflictStrategy
+): IKanbanState =>
+  mode === 'replace'
+    ? {
+        boards: incoming.boards,
+        activeBoardId: incoming.activeBoardId,
+        theme: incoming.theme,
+        searchTerm: current.searchTerm,
+        currentMemberByBoard: incoming.currentMemberByBoard,
+        trashRetentionDays: incoming.trashRetentionDays,
+      }
+    : mergeKanbanStates(current, incoming, strategy);
+
+// Compara dois estados e conta o que foi adicionado, alterado ou removido
+const summarizeBoardChanges = (
+  before: IKanbanState,
+  after: IKanbanState
+): IBoardChangeSummary => {
+  const diff = <T extends { id: string }>(previous: T[], next: T[]) => {
+    const previousById = new Map(previous.map((item) => [item.id, item]));
+    const nextIds = new Set(next.map((item) => item.id));
+    return {
+      added: next.filter((item) => !previousById.has(item.id)).length,
+      updated: next.filter((item) => {
+        const old = previousById.get(item.id);
+        return (
+          old !== undefined && JSON.stringify(old) !== JSON.stringify(item)
+        );
+      }).length,
+      removed: previous.filter((item) => !nextIds.has(item.id)).length,
+    };
+  };
+  // IDs de listas e cartões só são únicos dentro do próprio quadro
+  const flatten = <T extends { id: string }>(
+    boards: IBoard[],
+    pick: (board: IBoard) => T[]
+  ): T[] =>
+    boards.flatMap((board) =>
+      pick(board).map((item) => ({ ...item, id: `${board.id}/${item.id}` }))
+    );
+  return {
+    boards: diff(
+      before.boards.map(({ id, title }) => ({ id, title })),
+      after.boards.map(({ id, title }) => ({ id, title }))
+    ),
+    lists: diff(
+      flatten(before.boards, (board) => board.lists),
+      flatten(after.boards, (board) => board.lists)
+    ),
+    cards: diff(
+      flatten(before.boards, (board) => board.cards),
+      flatten(after.boards, (board) => board.cards)
+    ),
+  };
+};
+
+// --- SEÇÃO 2.3: EXPORTAÇÃO E IMPORTAÇÃO DE CARTÕES EM CSV (RFC 4180) ---
+
+// Separador dos nomes de etiquetas (e de responsáveis) dentro de uma célula
+const LABEL_CELL_SEPARATOR = '; ';
+
+// Colunas do CSV de cartões, na ordem em que são exportadas
+const CSV_COLUMNS: ICsvColumn[] = [
+  { field: 'id', header: 'ID', aliases: ['id'], toCell: (card) => card.id },
+  {
+    field: 'title',
+    header: 'Título',
+    aliases: ['titulo', 'title'],
+    toCell: (card) => card.title,
+  },
+  {
+    field: 'description',
+    header: 'Descrição',
+    aliases: ['descricao', 'description'],
+    toCell: (card) => card.description,
+  },
+  {
+    field: 'list',
+    header: 'Lista',
+    aliases: ['lista', 'list'],
+    toCell: (card, board) =>
+      board.lists.find((list) => list.id === card.listId)?.title ?? '',
+  },
+  {
+    field: 'position',
+    header: 'Posição',
+    aliases: ['posicao', 'position'],
+    toCell: (card) => String(card.position),
+  },
+  {
+    field: 'createdAt',
+    header: 'Criado em',
+    aliases: ['criado em', 'createdat', 'created at'],
+    toCell: (card) => new Date(card.createdAt).toISOString(),
+  },
+  {
+    field: 'labels',
+    header: 'Etiquetas',
+    aliases: ['etiquetas', 'labels', 'tags'],
+    // Nomes separados por ponto e vírgula, na ordem das etiquetas do quadro
+    toCell: (card, board) =>
+      board.labels
+        .filter((label) => card.labelIds.includes(label.id))
+        .map((label) => label.name)
+        .join(LABEL_CELL_SEPARATOR),
+  },
+  {
+    field: 'due',
+    header: 'Prazo',
+    aliases: ['prazo', 'vencimento', 'due', 'due date'],
+    // Data e hora locais (AAAA-MM-DD HH:MM), legíveis em qualquer planilha
+    toCell: (card) =>
+      card.due
+        ? `${toDateInputValue(card.due.at)}${card.due.hasTime ? ` ${toTimeInputValue(card.due.at)}` : ''}`
+        : '',
+  },
+  {
+    field: 'assignees',
+    header: 'Responsáveis',
+    aliases: ['responsaveis', 'assignees', 'membros'],
+    toCell: (card, board) =>
+      board.members
+        .filter((member) => card.assigneeIds.includes(member.id))
+        .map((member) => member.name)
+        .join(LABEL_CELL_SEPARATOR),
+  },
+  {
+    field: 'priority',
+    header: 'Prioridade',
+    aliases: ['prioridade', 'priority'],
+    toCell: (card) => (card.priority ? PRIORITY_LABELS[card.priority] : ''),
+  },
+  {
+    field: 'lane',
+    header: 'Raia',
+    aliases: ['raia', 'lane', 'swimlane'],
+    toCell: (card, board) =>
+      board.lanes.find((lane) => lane.id === card.laneId)?.name ?? '',
+  },
+];
+
+// Campo entre aspas quando contém vírgula, aspas ou quebra de linha (aspas são duplicadas)
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Gera o CSV com CRLF entre registros, como pede a RFC 4180
+const serializeCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+
+/**
+ * Interpreta um CSV conforme a RFC 4180: campos entre aspas podem conter
+ * vírgulas, quebras de linha e aspas duplicadas (""). Aceita CRLF ou LF.
+ * Lança erro se um campo entre aspas não for fechado.
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Ignora o BOM do UTF-8
+
+  for (; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new Error('Campo entre aspas não foi fechado');
+  // Último registro (o CRLF final é opcional)
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Normaliza um cabeçalho para comparação (minúsculas, sem acentos e espaços extras)
+const normalizeCsvHeader = (header: string): string =>
+  header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+// Exporta todos os cartões do quadro, agrupados pela ordem das listas e pela posição
+const serializeCardsCsv = (board: IBoard): string => {
+  const sortedLists = [...board.lists].sort((a, b) => a.order - b.order);
+  const rows = sortedLists.flatMap((list) =>
+    sortCardsByPosition(
+      board.cards.filter((card) => card.listId === list.id)
+    ).map((card) => CSV_COLUMNS.map((column) => column.toCell(card, board)))
+  );
+  return serializeCsv([CSV_COLUMNS.map((column) => column.header), ...rows]);
+};
+
+/**
+ * Importa cartões de um CSV para o quadro informado (função pura).
+ * Cartões com ID existente são atualizados; os demais são criados. Listas
+ * ausentes são criadas pelo título. Linhas inválidas entram em `errors`.
+ */
+const importCardsFromCsv = (
+  current: IBoard,
+  text: string
+): ICsvImportResult => {
+  const result: ICsvImportResult = {
+    board: current,
+    created: 0,
+    updated: 0,
+    createdLists: 0,
+    createdLabels: 0,
+    createdMembers: 0,
+    createdLanes: 0,
+    errors: [],
+  };
+
+  let rows: string[][];
+  try {
+    rows = parseCsv(text);
+  } catch (error) {
+    result.errors.push({ row: 0, reason: (error as Error).message });
+    return result;
+  }
+  const [headerRow = [], ...dataRows] = rows;
+
+  // Mapeia cada coluna do arquivo para um campo do cartão (colunas desconhecidas são ignoradas)
+  const columnFields = headerRow.map(
+    (header) =>
+      CSV_COLUMNS.find((column) =>
+        column.aliases.includes(normalizeCsvHeader(header))
+      )?.field
+  );
+  const missingHeaders = CSV_COLUMNS.filter(
+    (column) =>
+      (column.field === 'title' || column.field === 'list') &&
+      !columnFields.includes(column.field)
+  ).map((column) => column.header);
+  if (missingHeaders.length > 0) {
+    result.errors.push({
+      row: 1,
+      reason: `Coluna(s) obrigatória(s) ausente(s): ${missingHeaders.join(', ')}`,
+    });
+    return result;
+  }
+
+  const lists: IList[] = [...current.lists];
+  let cards: ICard[] = [...current.cards];
+  const labels: ILabel[] = [...current.labels];
+  const members: IMember[] = [...current.members];
+  const lanes: ILane[] = [...current.lanes];
+  let nextOrder = Math.max(-1, ...lists.map((list) => list.order)) + 1;
+
+  // Resolve os nomes de uma célula (etiquetas, responsáveis), criando os que não existem
+  const resolveNames = <T extends { id: string; name: string }>(
+    cell: string,
+    items: T[],
+    create: (name: string) => T
+  ): string[] => {
+    const ids = cell
+      .split(';')
+      .map((name) => name.trim())
+      .filter((name) => name !== '')
+      .map((name) => {
+        let item = findByName(items, name);
+        if (!item) {
+          item = create(name);
+          items.push(item);
+        }
+        return item.id;
+      });
+    return [...new Set(ids)];
+  };
+  const createLabel = (name: string): ILabel => {
+    result.createdLabels++;
+    return { id: createId('label'), name, colorVar: '--color-list-gray' };
+  };
+  const createMember = (name: string): IMember => {
+    result.createdMembers++;
+    return {
+      id: createId('member'),
+      name,
+      initials: getInitials(name),
+      colorVar: '--color-list-gray',
+    };
+  };
+
+  dataRows.forEach((cells, rowIndex) => {
+    const rowNumber = rowIndex + 2; // Linha 1 é o cabeçalho
+    if (cells.every((cell) => cell.trim() === '')) return; // Linha em branco
+    const reject = (reason: string): void => {
+      result.errors.push({ row: rowNumber, reason });
+    };
+    if (cells.length !== headerRow.length) {
+      return reject(
+        `Linha com ${cells.length} colunas; o cabeçalho tem ${headerRow.length}`
+      );
+    }
+
+    const values: Partial<Record<CsvField, string>> = {};
+    columnFields.forEach((field, index) => {
+      if (field) values[field] = cells[index];
+    });
+
+    const title = values.title?.trim() ?? '';
+    const listTitle = values.list?.trim() ?? '';
+    if (!title) return reject('Título vazio');
+    if (!listTitle) return reject('Lista não informada');
+
+    let createdAt = Date.now();
+    if (values.createdAt?.trim()) {
+      const rawDate = values.createdAt.trim();
+      createdAt = /^\d+$/.test(rawDate)
+        ? Number(rawDate)
+        : new Date(rawDate).getTime();
+      if (!Number.isFinite(createdAt)) {
+        return reject(`Data de criação inválida: "${rawDate}"`);
+      }
+    }
+
+    let position: number | undefined;
+    if (values.position?.trim()) {
+      position = Number(values.position.trim());
+      if (!Number.isFinite(position)) {
+        return reject(`Posição inválida: "${values.position}"`);
+      }
+    }
+
+    // Prazo: vazio remove; "AAAA-MM-DD" ou "AAAA-MM-DD HH:MM" no fuso local
+    let due: IDueDate | null | undefined;
+    if (values.due !== undefined) {
+      const [dateValue = '', timeValue = ''] = values.due.trim().split(/[ T]/);
+      due = dateValue ? parseDueDate(dateValue, timeValue) : null;
+      if (dateValue && !due) return reject(`Prazo inválido: "${values.due}"`);
+    }
+
+    // Prioridade: vazio remove; aceita o nome exibido ou o valor interno
+    let priority: CardPriority | null | undefined;
+    if (values.priority !== undefined) {
+      const rawPriority = normalizeCsvHeader(values.priority);
+      priority = rawPriority
+        ? ((Object.keys(PRIORITY_LABELS) as CardPriority[]).find(
+            (option) =>
+              option === rawPriority ||
+              normalizeCsvHeader(PRIORITY_LABELS[option]) === rawPriority
+          ) ?? undefined)
+        : null;
+      if (priority === undefined) {
+        return reject(`Prioridade inválida: "${values.priority}"`);
+      }
+    }
+
+    let list = lists.find(
+      (other) => other.title.trim().toLowerCase() === listTitle.toLowerCase()
+    );
+    if (!list) {
+      list = {
+        id: createId('list'),
+        title: listTitle,
+        colorVar: '--color-list-yellow',
+        order: nextOrder++,
+        wipLimit: null,
+      };
+      lists.push(list);
+      result.createdLists++;
+    }
+    const listId = list.id;
+    const appendPosition = cards.filter(
+      (card) => card.listId === listId
+    ).length;
+    const labelIds =
+      values.labels === undefined
+        ? undefined
+        : resolveNames(values.labels, labels, createLabel);
+    const assigneeIds =
+      values.assignees === undefined
+        ? undefined
+        : resolveNames(values.assignees, members, createMember);
+    // Raia pelo nome, criada se ainda não existe no quadro
+    const laneName = values.lane?.trim() ?? '';
+    let lane = laneName ? findByName(lanes, laneName) : undefined;
+    if (laneName && !lane) {
+      lane = { id: createId('lane'), name: laneName };
+      lanes.push(lane);
+      result.createdLanes++;
+    }
+    const laneId = values.lane === undefined ? undefined : (lane?.id ?? null);
+
+    const id = values.id?.trim() ?? '';
+    const existing = id ? cards.find((card) => card.id === id) : undefined;
+    if (existing) {
+      cards = cards.map((card) =>
+        card.id === existing.id
+          ? {
+              ...card,
+              title,
+              description: values.description ?? card.description,
+              listId,
+              createdAt: values.createdAt?.trim() ? createdAt : card.createdAt,
+              labelIds: labelIds ?? card.labelIds,
+              due: due === undefined ? card.due : due,
+              assigneeIds: assigneeIds ?? card.assigneeIds,
+              priority: priority === undefined ? card.priority : priority,
+              laneId: laneId === undefined ? card.laneId : laneId,
+              position:
+                position ??
+                (card.listId === listId ? card.position : appendPosition),
+            }
+          : card
+      );
+      result.updated++;
+    } else {
+      cards.push({
+        id: id || createId('card'),
+        listId,
+        title,
+        description: values.description ?? '',
+        createdAt,
+        position: position ?? appendPosition,
+        labelIds: labelIds ?? [],
+        due: due ?? null,
+        assigneeIds: assigneeIds ?? [],
+        checklists: [],
+        comments: [],
+        attachments: [],
+        coverAttachmentId: null,
+        recurrence: null,
+        priority: priority ?? null,
+        laneId: laneId ?? null,
+        activity: [
+          {
+            id: createId('activity'),
+            at: createdAt,
+            type: 'created',
+            listTitle: list.title,
+          },
+        ],
+      });
+      result.created++;
+    }
+  });
+
+  lists.forEach((list) => {
+    cards = normalizeListPositions(cards, list.id);
+  });
+  result.board = { ...current, lists, cards, labels, members, lanes };
+  return result;
+};
+
+// --- SEÇÃO 2.4: MARKDOWN DAS DESCRIÇÕES ---
+// Subconjunto do Markdown convertido em uma árvore própria e renderizado como
+// elementos React: HTML digitado na descrição aparece como texto, nunca é injetado.
+
+// Protocolos aceitos em links; os demais (javascript:, data:...) viram texto
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Retorna o endereço normalizado se ele for absoluto e seguro, ou null
+const sanitizeLinkUrl = (href: string): string | null => {
+  try {
+    const url = new URL(href.trim());
+    return SAFE_LINK_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const MARKDOWN_AUTOLINK = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/;
+const MARKDOWN_ESCAPABLE = '\\`*_~[]()#>-+.!';
+
+// Converte o texto de uma linha (ou parágrafo) em trechos inline
+const parseMarkdownInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = (): void => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+
+    if (char === '\\' && MARKDOWN_ESCAPABLE.includes(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Negrito (** ou __), tachado (~~) e itálico (* ou _), nessa ordem
+    const delimiter = ['**', '__', '~~', '*', '_'].find((candidate) =>
+      rest.startsWith(candidate)
+    );
+    // "_" no meio de uma palavra (snake_case) não abre ênfase
+    const isIntraword = char === '_' && /\w/.test(text[i - 1] ?? '');
+    if (
+      delimiter &&
+      !isIntraword &&
+      !/\s/.test(text[i + delimiter.length] ?? ' ')
+    ) {
+      const end = text.indexOf(delimiter, i + delimiter.length + 1);
+      if (end !== -1 && !/\s/.test(text[end - 1])) {
+        flush();
+        nodes.push({
+          type:
+            delimiter === '~~'
+              ? 'del'
+              : delimiter.length === 2
+                ? 'strong'
+                : 'em',
+          children: parseMarkdownInline(text.slice(i + delimiter.length, end)),
+        });
+        i = end + delimiter.length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      // O endereço aceita um nível de parênteses (ex.: páginas da Wikipédia)
+      const match = /^\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/.exec(rest);
+      if (match) {
+        flush();
+        const href = sanitizeLinkUrl(match[2]);
+        const children = parseMarkdownInline(match[1]);
+        if (href) nodes.push({ type: 'link', href, children });
+        else nodes.push(...children);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const autolink = char === 'h' ? MARKDOWN_AUTOLINK.exec(rest) : null;
+    const autolinkHref = autolink && sanitizeLinkUrl(autolink[0]);
+    if (autolink && autolinkHref && !/\w/.test(text[i - 1] ?? '')) {
+      flush();
+      nodes.push({
+        type: 'link',
+        href: autolinkHref,
+        children: [{ type: 'text', text: autolink[0] }],
+      });
+      i += autolink[0].length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+const MARKDOWN_FENCE = /^\s*```/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const MARKDOWN_RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const MARKDOWN_QUOTE = /^\s*>\s?/;
+const MARKDOWN_LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const MARKDOWN_TASK = /^\[([ xX])\]\s+(.*)$/;
+
+// Linha que começa um bloco e, portanto, encerra o parágrafo anterior
+const startsMarkdownBlock = (line: string): boolean =>
+  MARKDOWN_FENCE.test(line) ||
+  MARKDOWN_HEADING.test(line) ||
+  MARKDOWN_RULE.test(line) ||
+  MARKDOWN_QUOTE.test(line) ||
+  MARKDOWN_LIST_ITEM.test(line);
+
+// Converte as linhas em blocos; `firstLine` é o número da primeira linha no
+// texto original (as citações são analisadas recursivamente)
+const parseMarkdownLines = (
+  lines: string[],
+  firstLine: number
+): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (MARKDOWN_FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !MARKDOWN_FENCE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++; // Cerca de fechamento (ausente no fim do texto)
+      continue;
+    }
+
+    const heading = MARKDOWN_HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseMarkdownInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    // Antes das listas: "---" e "* * *" são divisórias, não itens
+    if (MARKDOWN_RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (MARKDOWN_QUOTE.test(line)) {
+      const start = i;
+      const quoted: string[] = [];
+      while (i < lines.length && MARKDOWN_QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(MARKDOWN_QUOTE, ''));
+        i++;
+      }
+      blocks.push({
+        type: 'quote',
+        children: parseMarkdownLines(quoted, firstLine + start),
+      });
+      continue;
+    }
+
+    const listItem = MARKDOWN_LIST_ITEM.exec(line);
+    if (listItem) {
+      const ordered = listItem[2] !== undefined;
+      const items: IMarkdownListItem[] = [];
+      const texts: string[] = [];
+      const itemLines: number[] = [];
+      while (i < lines.length) {
+        const item = MARKDOWN_LIST_ITEM.exec(lines[i]);
+        if (item && (item[2] !== undefined) === ordered) {
+          texts.push(item[3]);
+          itemLines.push(firstLine + i);
+        } else if (
+          !item &&
+          texts.length > 0 &&
+          /^\s+\S/.test(lines[i]) &&
+          !startsMarkdownBlock(lines[i])
+        ) {
+          // Linha recuada continua o item anterior
+          texts[texts.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      texts.forEach((text, index) => {
+        const task = MARKDOWN_TASK.exec(text);
+        items.push(
+          task
+            ? {
+                children: parseMarkdownInline(task[2]),
+                task: { done: task[1] !== ' ', line: itemLines[index] },
+              }
+            : { children: parseMarkdownInline(text), task: null }
+        );
+      });
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? Number(listItem[2]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      (paragraph.length === 0 || !startsMarkdownBlock(lines[i]))
+    ) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({
+      type: 'paragraph',
+      children: parseMarkdownInline(paragraph.join(' ')),
+    });
+  }
+  return blocks;
+};
+
+// Converte uma descrição em Markdown na árvore de blocos
+const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseMarkdownLines(source.split(/\r?\n/), 0);
+
+// Alterna "[ ]" <-> "[x]" do item de tarefa na linha `line` da descrição
+const toggleMarkdownTask = (source: string, line: number): string => {
+  const lines = source.split(/\r?\n/);
+  const target = lines[line];
+  if (target === undefined) return source;
+  lines[line] = target.replace(
+    /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/,
+    (_, prefix: string, mark: string) =>
+      `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+};
+
+// --- SEÇÃO 2.5: INDEXEDDB (UTILITÁRIOS E CONTEÚDO DOS ANEXOS) ---
+
+// Conexão com um banco IndexedDB, aberta no primeiro uso e reaproveitada depois.
+// Se a abertura falhar (ex.: navegação privada), a próxima chamada tenta de novo.
+const createIndexedDbConnection = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): (() => Promise<IDBDatabase>) => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+};
+
+// Executa `operation` numa transação e resolve com o retorno dela após a conclusão.
+// Um erro dentro de `operation` aborta a transação inteira.
+const runIndexedDbTransaction = <T,>(
+  db: IDBDatabase,
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  operation: (transaction: IDBTransaction) => T
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    let result: T;
+    try {
+      result = operation(transaction);
+    } catch (error) {
+      transaction.abort();
+      reject(error);
+      return;
+    }
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const ATTACHMENT_DB_NAME = 'kanban-attachments';
+const ATTACHMENT_STORE_NAME = 'files'; // Chave = ID do anexo, valor = Blob
+// Tamanho máximo de cada arquivo anexado
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+const openAttachmentDb = createIndexedDbConnection(
+  ATTACHMENT_DB_NAME,
+  1,
+  (db) => {
+    db.createObjectStore(ATTACHMENT_STORE_NAME);
+  }
+);
+
+const runAttachmentTransaction = async <T,>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => T
+): Promise<T> =>
+  runIndexedDbTransaction(
+    await openAttachmentDb(),
+    ATTACHMENT_STORE_NAME,
+    mode,
+    (transaction) => operation(transaction.objectStore(ATTACHMENT_STORE_NAME))
+  );
+
+const putAttachmentBlob = async (id: string, blob: Blob): Promise<void> => {
+  await runAttachmentTransaction('readwrite', (store) => store.put(blob, id));
+};
+
+// Conteúdo do anexo, ou null se ele não estiver neste navegador
+const getAttachmentBlob = async (id: string): Promise<Blob | null> => {
+  const request = await runAttachmentTransaction('readonly', (store) =>
+    store.get(id)
+  );
+  return request.result instanceof Blob ? request.result : null;
+};
+
+// Cartões do arquivo e da lixeira de um quadro, incluindo os das listas arquivadas
+const getArchivedCards = (board: IBoard): ICard[] =>
+  board.archive.flatMap((item) =>
+    item.kind === 'card' ? [item.card] : item.cards
+  );
+
+// IDs de todos os anexos referenciados pelos cartões dos quadros. Os arquivados
+// contam: os arquivos só somem quando o cartão é excluído da lixeira.
+const collectAttachmentIds = (boards: IBoard[]): Set<string> =>
+  new Set(
+    boards.flatMap((board) =>
+      [...board.cards, ...getArchivedCards(board)].flatMap((card) =>
+        card.attachments.map((attachment) => attachment.id)
+      )
+    )
+  );
+
+// Apaga os arquivos que nenhum cartão referencia mais. Roda ao carregar o app, e
+// não ao excluir o anexo, para que a exclusão possa ser desfeita.
+const pruneAttachmentBlobs = async (
+  referencedIds: Set<string>
+): Promise<void> => {
+  const request = await runAttachmentTransaction('readonly', (store) =>
+    store.getAllKeys()
+  );
+  const orphanKeys = request.result.filter(
+    (key) => typeof key !== 'string' || !referencedIds.has(key)
+  );
+  if (orphanKeys.length === 0) return;
+  await runAttachmentTransaction('readwrite', (store) =>
+    orphanKeys.forEach((key) => store.delete(key))
+  );
+};
+
+// Ex.: 2048 -> "2 KB"
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${units[unit]}`;
+};
+
+// --- SEÇÃO 2.6: SINCRONIZAÇÃO ENTRE ABAS (MESCLA EM TRÊS VIAS) ---
+// `base` é o último estado que as duas abas tinham em comum (o que estava salvo),
+// `local` é o desta aba e `remote` o que outra aba acabou de salvar. Cada lado
+// contribui com o que mudou desde `base`; quando os dois mudam o mesmo campo do
+// mesmo registro, vence `local`, que ainda será gravado depois de `remote` (ou
+// seja, vale a última gravação). Excluído de um lado e editado do outro, a
+// edição vence e o registro volta.
+
+// Iguais por referência ou, na falta dela (dados lidos do armazenamento), por conteúdo
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Valor de um campo após a mescla
+const pickMergedValue = <T,>(base: T, local: T, remote: T): T =>
+  isSameValue(local, base) ? remote : local;
+
+// Mescla campo a campo um registro presente nos três lados
+const mergeRecordFields = <T extends object>(
+  base: T,
+  local: T,
+  remote: T
+): T => {
+  const merged = { ...remote };
+  (Object.keys(local) as (keyof T)[]).forEach((key) => {
+    merged[key] = pickMergedValue(base[key], local[key], remote[key]);
+  });
+  return merged;
+};
+
+// Mescla coleções de registros com ID (na ordem de `remote`, depois os novos locais)
+const mergeRecordsById = <T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeRecord: (base: T, local: T, remote: T) => T = mergeRecordFields
+): T[] => {
+  const baseById = new Map(base.map((record) => [record.id, record]));
+  const localById = new Map(local.map((record) => [record.id, record]));
+  const remoteIds = new Set(remote.map((record) => record.id));
+  const merged: T[] = [];
+  remote.forEach((remoteRecord) => {
+    const baseRecord = baseById.get(remoteRecord.id);
+    const localRecord = localById.get(remoteRecord.id);
+    if (!localRecord) {
+      // Excluído aqui: só volta se a outra aba o criou ou editou
+      if (!baseRecord || !isSameValue(remoteRecord, baseRecord)) {
+        merged.push(remoteRecord);
+      }
+    } else if (!baseRecord || isSameValue(remoteRecord, baseRecord)) {
+      merged.push(localRecord);
+    } else if (isSameValue(localRecord, baseRecord)) {
+      merged.push(remoteRecord);
+    } else {
+      merged.push(mergeRecord(baseRecord, localRecord, remoteRecord));
+    }
+  });
+  local.forEach((localRecord) => {
+    if (remoteIds.has(localRecord.id)) return;
+    const baseRecord = baseById.get(localRecord.id);
+    // Excluído na outra aba: só fica se foi criado ou editado aqui
+    if (!baseRecord || !isSameValue(localRecord, baseRecord)) {
+      merged.push(localRecord);
+    }
+  });
+  return merged;
+};
+
+// Comentários, anexos e histórico de um cartão são mesclados item a item, para
+// que o que cada aba acrescentou ao mesmo cartão não se perca
+const mergeCardVersions = (
+  base: ICard,
+  local: ICard,
+  remote: ICard
+): ICard => ({
+  ...mergeRecordFields(base, local, remote),
+  comments: mergeRecordsById(base.comments, local.comments, remote.comments),
+  attachments: mergeRecordsById(
+    base.attachments,
+    local.attachments,
+    remote.attachments
+  ),
+  activity: mergeRecordsById(
+    base.activity,
+    local.activity,
+    remote.activity
+  ).sort((a, b) => a.at - b.at),
+});
+
+// Quadro sem os cartões, como fica guardado no IndexedDB
+type BoardShell = Omit<IBoard, 'cards'>;
+
+// Mescla os campos do quadro, as listas, as etiquetas e os membros
+const mergeBoardShells = (
+  base: BoardShell,
+  local: BoardShell,
+  remote: BoardShell
+): BoardShell => ({
+  ...mergeRecordFields(base, local, remote),
+  lists: normalizeListOrder(
+    mergeRecordsById(base.lists, local.lists, remote.lists)
+  ),
+  labels: mergeRecordsById(base.labels, local.labels, remote.labels),
+  members: mergeRecordsById(base.members, local.members, remote.members),
+  lanes: mergeRecordsById(base.lanes, local.lanes, remote.lanes),
+  templates: mergeRecordsById(
+    base.templates,
+    local.templates,
+    remote.templates
+  ),
+  archive: mergeRecordsById(base.archive, local.archive, remote.archive),
+});
+
+// Mescla as duas versões de um quadro e corrige as referências que a mescla
+// pode deixar soltas (ex.: cartão criado numa lista excluída na outra aba)
+const mergeBoardVersions = (
+  base: IBoard,
+  local: IBoard,
+  remote: IBoard
+): IBoard =>
+  repairBoardReferences(
+    {
+      ...mergeBoardShells(base, local, remote),
+      cards: mergeRecordsById(
+        base.cards,
+        local.cards,
+        remote.cards,
+        mergeCardVersions
+      ),
+    },
+    // A lista excluída de um lado volta se o outro lado ainda tem cartões nela
+    [...local.lists, ...remote.lists, ...base.lists]
+  );
+
+// Estado desta aba após receber o que outra aba salvou. O quadro aberto e a
+// busca são de cada aba e nunca vêm de fora.
+const mergeConcurrentStates = (
+  base: IKanbanState,
+  local: IKanbanState,
+  remote: IKanbanState
+): IKanbanState => {
+  const boards =
+    local === base
+      ? remote.boards
+      : mergeRecordsById(
+          base.boards,
+          local.boards,
+          remote.boards,
+          mergeBoardVersions
+        );
+  return {
+    boards,
+    activeBoardId: boards.some((board) => board.id === local.activeBoardId)
+      ? local.activeBoardId
+      : boards[0].id,
+    theme: pickMergedValue(base.theme, local.theme, remote.theme),
+    searchTerm: local.searchTerm,
+    currentMemberByBoard: pickMergedValue(
+      base.currentMemberByBoard,
+      local.currentMemberByBoard,
+      remote.currentMemberByBoard
+    ),
+    trashRetentionDays: pickMergedValue(
+      base.trashRetentionDays,
+      local.trashRetentionDays,
+      remote.trashRetentionDays
+    ),
+  };
+};
+
+// Troca o estado atual por um que inclui mudanças feitas fora desta aba. Desfazer
+// num quadro alterado por fora apagaria essas mudanças, então o histórico dele sai.
+const replacePresentFromOutside = (
+  prev: IUndoableState,
+  present: IKanbanState
+): IUndoableState => {
+  const changedBoardIds = new Set(
+    present.boards
+      .filter((board) => !prev.present.boards.includes(board))
+      .map((board) => board.id)
+  );
+  const isUnchanged = (entry: IHistoryEntry): boolean =>
+    !changedBoardIds.has(entry.board.id);
+  return {
+    present,
+    past: prev.past.filter(isUnchanged),
+    future: prev.future.filter(isUnchanged),
+  };
+};
+
+// --- SEÇÃO 2.7: ADAPTADORES DE PERSISTÊNCIA (LOCALSTORAGE E INDEXEDDB) ---
+
+// Adaptador simples: o estado inteiro serializado numa única chave do localStorage
+const createLocalStorageAdapter = (): IStorageAdapter => {
+  // Último conteúdo gravado ou lido por esta aba (base da mescla ao gravar)
+  let savedRaw: string | null = null;
+  let savedState: IKanbanState | null = null;
+
+  return {
+    name: 'localStorage',
+    load: async () => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const state = stored ? loadPersistedState(stored) : null;
+      savedRaw = stored;
+      savedState = state;
+      return state;
+    },
+    // Se outra aba gravou depois da última leitura, grava a mescla das duas versões
+    save: async (state) => {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      let merged = state;
+      if (stored && stored !== savedRaw && savedState) {
+        const result = parsePersistedState(stored);
+        if (result.ok) {
+          merged = mergeConcurrentStates(savedState, state, result.state);
+        }
+      }
+      const persistedState: IPersistedState = {
+        version: SCHEMA_VERSION,
+        state: merged,
+      };
+      savedRaw = JSON.stringify(persistedState);
+      savedState = merged;
+      localStorage.setItem(STORAGE_KEY, savedRaw);
+    },
+    // O evento "storage" só dispara nas outras abas, nunca na que gravou
+    subscribe: (listener) => {
+      const handleStorage = (e: StorageEvent): void => {
+        if (e.key !== STORAGE_KEY || !e.newValue) return;
+        const result = parsePersistedState(e.newValue);
+        if (!result.ok) return;
+        savedRaw = e.newValue;
+        savedState = result.state;
+        listener(result.state);
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
+
+const STATE_DB_NAME = 'kanban-state';
+// Object stores: metadados do estado, quadros sem os cartões e cartões avulsos
+const META_STORE_NAME = 'meta';
+const BOARD_STORE_NAME = 'boards'; // Chave = ID do quadro
+const CARD_STORE_NAME = 'cards'; // Chave = [ID do quadro, ID do cartão]
+const META_KEY = 'state';
+// Canal usado para avisar as outras abas de que o IndexedDB mudou
+const STATE_CHANNEL_NAME = 'kanban-state';
+
+// Registro de metadados: o estado sem o conteúdo dos quadros, mais a ordem deles
+type StoredMeta = { version: number; boardIds: string[] } & Omit<
+  IKanbanState,
+  'boards'
+>;
+
+const openStateDb = createIndexedDbConnection(STATE_DB_NAME, 1, (db) => {
+  db.createObjectStore(META_STORE_NAME);
+  db.createObjectStore(BOARD_STORE_NAME);
+  db.createObjectStore(CARD_STORE_NAME);
+});
+
+// Lê os registros e remonta o envelope { version, state } salvo pelo localStorage,
+// para passar pelas mesmas migrações e validações. Retorna null se o banco está vazio.
+const readStateDb = async (): Promise<unknown> => {
+  const [meta, boards, cardKeys, cards] = await runIndexedDbTransaction(
+    await openStateDb(),
+    [META_STORE_NAME, BOARD_STORE_NAME, CARD_STORE_NAME],
+    'readonly',
+    (transaction) =>
+      [
+        transaction.objectStore(META_STORE_NAME).get(META_KEY),
+        transaction.objectStore(BOARD_STORE_NAME).getAll(),
+        transaction.objectStore(CARD_STORE_NAME).getAllKeys(),
+        transaction.objectStore(CARD_STORE_NAME).getAll(),
+      ] as const
+  );
+  if (!isRecord(meta.result)) return null;
+
+  // getAll e getAllKeys devolvem os registros na mesma ordem (a das chaves)
+  const cardsByBoard = new Map<unknown, unknown[]>();
+  cardKeys.result.forEach((key, index) => {
+    const boardId = Array.isArray(key) ? key[0] : null;
+    cardsByBoard.set(boardId, [
+      ...(cardsByBoard.get(boardId) ?? []),
+      cards.result[index],
+    ]);
+  });
+  const { version, boardIds, ...rest } = meta.result;
+  return {
+    version,
+    state: {
+      ...rest,
+      boards: Array.isArray(boardIds)
+        ? boardIds.map((boardId) => ({
+            ...boards.result.find(
+              (board) => isRecord(board) && board.id === boardId
+            ),
+            cards: cardsByBoard.get(boardId) ?? [],
+          }))
+        : boardIds,
+    },
+  };
+};
+
+// Grava um registro que já existia quando o estado foi lido. Se outra aba o
+// alterou nesse meio-tempo, grava a mescla das duas versões em vez de sobrescrever.
+const putMergedRecord = <T,>(
+  store: IDBObjectStore,
+  key: IDBValidKey,
+  before: T,
+  record: T,
+  merge: (base: T, local: T, remote: T) => T
+): void => {
+  const request = store.get(key);
+  request.onsuccess = () => {
+    const stored = request.result as T | undefined;
+    store.put(
+      stored === undefined || isSameValue(stored, before)
+        ? record
+        : merge(before, record, stored),
+      key
+    );
+  };
+};
+
+/**
+ * Adaptador IndexedDB: cada quadro e cada cartão é um registro próprio. Como o
+ * estado é imutável, comparar referências com o último estado gravado indica
+ * exatamente o que mudou, e só esses registros são regravados.
+ */
+const createIndexedDbAdapter = (): IStorageAdapter => {
+  // Último estado gravado (ou lido); null força regravar tudo na próxima vez
+  let savedState: IKanbanState | null = null;
+  const channel =
+    typeof BroadcastChannel === 'undefined'
+      ? null
+      : new BroadcastChannel(STATE_CHANNEL_NAME);
+
+  const save = async (state: IKanbanState): Promise<void> => {
+    const previous = savedState;
+    const { boards, ...rest } = state;
+    const meta: StoredMeta = {
+      ...rest,
+      version: SCHEMA_VERSION,
+      boardIds: boards.map((board) => board.id),
+    };
+    try {
+      await runIndexedDbTransaction(
+        await openStateDb(),
+        [META_STORE_NAME, BOARD_STORE_NAME, CARD_STORE_NAME],
+        'readwrite',
+        (transaction) => {
+          const boardStore = transaction.objectStore(BOARD_STORE_NAME);
+          const cardStore = transaction.objectStore(CARD_STORE_NAME);
+          if (!previous) {
+            boardStore.clear();
+            cardStore.clear();
+          }
+          transaction.objectStore(META_STORE_NAME).put(meta, META_KEY);
+
+          const previousBoards = new Map(
+            (previous?.boards ?? []).map((board) => [board.id, board])
+          );
+          boards.forEach((board) => {
+            const before = previousBoards.get(board.id);
+            previousBoards.delete(board.id);
+            if (before === board) return;
+            let previousCards = new Map<string, ICard>();
+            const { cards, ...shell } = board;
+            if (!before) {
+              boardStore.put(shell, board.id);
+            } else {
+              const { cards: beforeCards, ...beforeShell } = before;
+              const isShellChanged = (
+                Object.keys(shell) as (keyof typeof shell)[]
+              ).some((key) => shell[key] !== beforeShell[key]);
+              if (isShellChanged) {
+                putMergedRecord(
+                  boardStore,
+                  board.id,
+                  beforeShell,
+                  shell,
+                  mergeBoardShells
+                );
+              }
+              previousCards = new Map(
+                beforeCards.map((card) => [card.id, card])
+              );
+            }
+            cards.forEach((card) => {
+              const beforeCard = previousCards.get(card.id);
+              previousCards.delete(card.id);
+              if (beforeCard === card) return;
+              if (beforeCard) {
+                putMergedRecord(
+                  cardStore,
+                  [board.id, card.id],
+                  beforeCard,
+                  card,
+                  mergeCardVersions
+                );
+              } else {
+                cardStore.put(card, [board.id, card.id]);
+              }
+            });
+            previousCards.forEach((_, cardId) =>
+              cardStore.delete([board.id, cardId])
+            );
+          });
+          // Quadros excluídos levam junto todos os seus cartões
+          previousBoards.forEach((_, boardId) => {
+            boardStore.delete(boardId);
+            cardStore.delete(IDBKeyRange.bound([boardId], [boardId, []]));
+          });
+        }
+      );
+    } catch (error) {
+      savedState = null;
+      throw error;
+    }
+    savedState = state;
+    channel?.postMessage('saved');
+  };
+
+  // O estado lido passa a ser a referência das próximas gravações, a menos que
+  // tenha sido migrado ou tenha registros rejeitados: aí ele é regravado por inteiro
+  const readState = async (): Promise<IKanbanState | null> => {
+    const data = await readStateDb();
+    if (data === null) return null;
+    const result = parsePersistedData(data);
+    savedState =
+      result.ok &&
+      result.quarantined.length === 0 &&
+      isRecord(data) &&
+      data.version === SCHEMA_VERSION
+        ? result.state
+        : null;
+    return acceptParsedState(result, data);
+  };
+
+  return {
+    name: 'IndexedDB',
+    // Na primeira vez, traz o estado salvo pelo localStorage para o IndexedDB
+    load: async () => {
+      const state = await readState();
+      if (state) return state;
+      const legacy = localStorage.getItem(STORAGE_KEY);
+      const migrated = legacy ? loadPersistedState(legacy) : null;
+      if (migrated) {
+        await save(migrated);
+        localStorage.removeItem(STORAGE_KEY);
+      }
+      return migrated;
+    },
+    save,
+    subscribe: (listener) => {
+      if (!channel) return () => {};
+      const handleMessage = (): void => {
+        readState()
+          .then((state) => {
+            if (state) listener(state);
+          })
+          .catch((error) =>
+            console.error('Erro ao ler o estado salvo por outra aba:', error)
+          );
+      };
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+};
+
+// IndexedDB quando disponível; o localStorage fica como alternativa
+const createStorageAdapter = (): IStorageAdapter =>
+  typeof indexedDB === 'undefined'
+    ? createLocalStorageAdapter()
+    : createIndexedDbAdapter();
+
+// --- SEÇÃO 2.8: SINCRONIZAÇÃO COM O SERVIDOR (API REST E FILA OFFLINE) ---
+// API esperada (veja server/mock-sync-server.js):
+//   PUT    {url}/boards/:boardId/cards/:id  { clientId, record } -> { seq }
+//   DELETE {url}/boards/:boardId/cards/:id  { clientId }         -> { seq }
+//   (o mesmo para /lists/:id)
+//   GET    {url}/changes?since=N -> { cursor, changes: SyncChange[] }
+// Só cartões e listas são sincronizados, e apenas em quadros que existem nos dois
+// lados; quadros, etiquetas e membros continuam locais.
+
+// Identifica o registro afetado por uma mudança (para fila, ecos e conflitos)
+const getSyncKey = (
+  mutation: Pick<SyncMutation, 'kind' | 'boardId' | 'id'>
+): string => `${mutation.kind}:${mutation.boardId}:${mutation.id}`;
+
+// Valida uma mudança vinda do servidor ou da fila salva
+const parseSyncMutation = (value: unknown): SyncMutation | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.boardId !== 'string' ||
+    typeof value.id !== 'string'
+  ) {
+    return null;
+  }
+  const { boardId, id } = value;
+  if (value.kind === 'card') {
+    const record = value.record === null ? null : validateCard(value.record);
+    return value.record !== null && !record
+      ? null
+      : { kind: 'card', boardId, id, record };
+  }
+  if (value.kind === 'list') {
+    const record = value.record === null ? null : validateList(value.record);
+    return value.record !== null && !record
+      ? null
+      : { kind: 'list', boardId, id, record };
+  }
+  return null;
+};
+
+const parseSyncChange = (value: unknown): SyncChange | null => {
+  const mutation = parseSyncMutation(value);
+  return mutation &&
+    isRecord(value) &&
+    Number.isInteger(value.seq) &&
+    typeof value.clientId === 'string'
+    ? { ...mutation, seq: value.seq as number, clientId: value.clientId }
+    : null;
+};
+
+// Lê a configuração salva; entradas inválidas da fila são descartadas
+const loadSyncConfig = (): ISyncConfig | null => {
+  try {
+    const stored = localStorage.getItem(SYNC_CONFIG_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isRecord(parsed) || typeof parsed.url !== 'string') return null;
+    return {
+      url: parsed.url,
+      cursor: Number.isInteger(parsed.cursor) ? (parsed.cursor as number) : 0,
+      queue: Array.isArray(parsed.queue)
+        ? parsed.queue
+            .map(parseSyncMutation)
+            .filter((mutation) => mutation !== null)
+        : [],
+    };
+  } catch {
+    return null;
+  }
+};
+
+const saveSyncConfig = (config: ISyncConfig | null): void => {
+  if (config) localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(SYNC_CONFIG_KEY);
+};
+
+// Compara registros por referência e chama `onChange` para os criados,
+// alterados (com o novo registro) e excluídos (com null)
+const diffRecordsById = <T extends { id: string }>(
+  previous: T[],
+  next: T[],
+  onChange: (id: string, record: T | null) => void
+): void => {
+  const previousById = new Map(previous.map((record) => [record.id, record]));
+  next.forEach((record) => {
+    if (previousById.get(record.id) !== record) onChange(record.id, record);
+    previousById.delete(record.id);
+  });
+  previousById.forEach((_, id) => onChange(id, null));
+};
+
+// Mudanças de cartões e listas de um quadro (null = quadro inexistente)
+const diffBoardRecords = (
+  boardId: string,
+  before: IBoard | null,
+  after: IBoard | null
+): SyncMutation[] => {
+  const mutations: SyncMutation[] = [];
+  diffRecordsById(before?.lists ?? [], after?.lists ?? [], (id, record) =>
+    mutations.push({ kind: 'list', boardId, id, record })
+  );
+  diffRecordsById(before?.cards ?? [], after?.cards ?? [], (id, record) =>
+    mutations.push({ kind: 'card', boardId, id, record })
+  );
+  return mutations;
+};
+
+// Mudanças de cartões e listas entre dois estados
+const diffSyncRecords = (
+  previous: IKanbanState,
+  next: IKanbanState
+): SyncMutation[] => {
+  const previousBoards = new Map(
+    previous.boards.map((board) => [board.id, board])
+  );
+  const mutations = next.boards.flatMap((board) => {
+    const before = previousBoards.get(board.id);
+    previousBoards.delete(board.id);
+    return before === board
+      ? []
+      : diffBoardRecords(board.id, before ?? null, board);
+  });
+  previousBoards.forEach((board) =>
+    mutations.push(...diffBoardRecords(board.id, board, null))
+  );
+  return mutations;
+};
+
+// Troca, acrescenta (se novo) ou remove (null) o registro com o ID informado
+const replaceRecordById = <T extends { id: string }>(
+  records: T[],
+  id: string,
+  record: T | null
+): T[] => {
+  if (!record) return records.filter((other) => other.id !== id);
+  return records.some((other) => other.id === id)
+    ? records.map((other) => (other.id === id ? record : other))
+    : [...records, record];
+};
+
+// Aplica as mudanças recebidas do servidor ou da colaboração aos quadros locais.
+// Cada registro chega sozinho, então os quadros alterados passam pela mesma correção de
+// referências da mescla entre abas.
+const applySyncChanges = (
+  state: IKanbanState,
+  changes: SyncMutation[]
+): IKanbanState => ({
+  ...state,
+  boards: state.boards.map((board) => {
+    const boardChanges = changes.filter(
+      (change) => change.boardId === board.id
+    );
+    if (boardChanges.length === 0) return board;
+    const changed = boardChanges.reduce(
+      (current, change) =>
+        change.kind === 'card'
+          ? {
+              ...current,
+              cards: replaceRecordById(current.cards, change.id, change.record),
+            }
+          : {
+              ...current,
+              lists: replaceRecordById(current.lists, change.id, change.record),
+            },
+      board
+    );
+    // Uma lista excluída no servidor volta se ainda há cartões locais nela
+    return repairBoardReferences(changed, board.lists);
+  }),
+});
+
+/**
+ * Sincroniza com a API em `config.url`: envia a fila (uma mudança por vez, na
+ * ordem em que foram feitas), busca as mudanças dos outros clientes a cada
+ * SYNC_POLL_MS e guarda a fila no localStorage a cada alteração, para que nada
+ * se perca offline ou ao fechar a aba. Se o envio falha, a fila fica como está
+ * e é reenviada na próxima tentativa ou quando o navegador volta a ficar online.
+ *
+ * Conflitos: o servidor guarda a última versão recebida de cada registro. Uma
+ * mudança do servidor para um registro com envio pendente aqui é ignorada, pois
+ * o envio vai sobrescrevê-la. Na primeira sincronização (cursor 0) o que já
+ * existe no servidor prevalece e só os registros que ele não conhece são enviados.
+ */
+const createRemoteSync = (
+  config: ISyncConfig,
+  callbacks: {
+    getState: () => IKanbanState;
+    onChanges: (changes: SyncChange[]) => void;
+    onStatus: (status: SyncStatus) => void;
+  }
+): IRemoteSync => {
+  const baseUrl = config.url.replace(/\/+$/, '');
+  const clientId = createId('client');
+  let { cursor, queue } = config;
+  // Última versão conhecida no servidor de cada registro (JSON), para não
+  // devolver a ele o que acabou de chegar de lá
+  const serverRecords = new Map<string, string>();
+  let timer: number | undefined;
+  let isRunning = false;
+  let isStopped = false;
+
+  // Não recria a configuração se a sincronização foi desligada ou trocada
+  const persist = (): void => {
+    if (loadSyncConfig()?.url !== config.url) return;
+    saveSyncConfig({ url: config.url, cursor, queue });
+  };
+
+  const reportStatus = (status: SyncStatus): void => {
+    if (!isStopped) callbacks.onStatus(status);
+  };
+
+  const request = async (
+    path: string,
+    init?: RequestInit
+  ): Promise<unknown> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`O servidor respondeu com o status ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const send = async (mutation: SyncMutation): Promise<void> => {
+    await request(
+      `/boards/${encodeURIComponent(mutation.boardId)}/${mutation.kind}s/${encodeURIComponent(mutation.id)}`,
+      mutation.record
+        ? {
+            method: 'PUT',
+            body: JSON.stringify({ clientId, record: mutation.record }),
+          }
+        : { method: 'DELETE', body: JSON.stringify({ clientId }) }
+    );
+    serverRecords.set(getSyncKey(mutation), JSON.stringify(mutation.record));
+  };
+
+  // Acrescenta à fila, trocando o que já estava pendente para o mesmo registro
+  const enqueue = (mutations: SyncMutation[]): void => {
+    const changed = mutations.filter(
+      (mutation) =>
+        serverRecords.get(getSyncKey(mutation)) !==
+        JSON.stringify(mutation.record)
+    );
+    if (changed.length === 0) return;
+    changed.forEach((mutation) => {
+      const key = getSyncKey(mutation);
+      const index = queue.findIndex((other) => getSyncKey(other) === key);
+      queue =
+        index === -1
+          ? [...queue, mutation]
+          : queue.map((other, position) =>
+              position === index ? mutation : other
+            );
+    });
+    persist();
+    reportStatus('pending');
+  };
+
+  const pull = async (): Promise<void> => {
+    const response = await request(`/changes?since=${cursor}`);
+    if (isStopped) return;
+    if (!isRecord(response) || !Array.isArray(response.changes)) {
+      throw new Error('Resposta inválida do servidor');
+    }
+    const changes = response.changes
+      .map(parseSyncChange)
+      .filter((change) => change !== null);
+    const isFirstSync = cursor === 0;
+    const pendingKeys = new Set(queue.map(getSyncKey));
+    const remoteChanges = changes.filter(
+      (change) =>
+        change.clientId !== clientId && !pendingKeys.has(getSyncKey(change))
+    );
+    changes.forEach((change) =>
+      serverRecords.set(getSyncKey(change), JSON.stringify(change.record))
+    );
+    if (remoteChanges.length > 0) callbacks.onChanges(remoteChanges);
+    if (Number.isInteger(response.cursor)) cursor = response.cursor as number;
+    if (isFirstSync) {
+      // Envia o que só existe aqui (o resto acabou de vir do servidor)
+      const knownKeys = new Set(changes.map(getSyncKey));
+      enqueue(
+        callbacks
+          .getState()
+          .boards.flatMap((board) => diffBoardRecords(board.id, null, board))
+          .filter((mutation) => !knownKeys.has(getSyncKey(mutation)))
+      );
+    }
+    persist();
+  };
+
+  const run = async (): Promise<void> => {
+    if (isRunning || isStopped) return;
+    isRunning = true;
+    window.clearTimeout(timer);
+    let delay = SYNC_POLL_MS;
+    try {
+      while (queue.length > 0 && !isStopped) {
+        const mutation = queue[0];
+        await send(mutation);
+        // Se o registro mudou de novo durante o envio, a versão nova continua na fila
+        queue = queue.filter((other) => other !== mutation);
+        persist();
+      }
+      await pull();
+      reportStatus(queue.length > 0 ? 'pending' : 'synced');
+      // O que entrou na fila durante a busca é enviado em seguida
+      if (queue.length > 0) delay = 0;
+    } catch (error) {
+      console.error('Erro ao sincronizar com o servidor:', error);
+      // Sem rede é só espera; online, o servidor está fora do ar ou recusou
+      reportStatus(navigator.onLine ? 'error' : 'pending');
+    } finally {
+      isRunning = false;
+      if (!isStopped) timer = window.setTimeout(run, delay);
+    }
+  };
+
+  const handleOnline = (): void => {
+    run();
+  };
+  window.addEventListener('online', handleOnline);
+  run();
+
+  return {
+    push: (mutations) => {
+      enqueue(mutations);
+      if (queue.length > 0) run();
+    },
+    stop: () => {
+      isStopped = true;
+      window.clearTimeout(timer);
+      window.removeEventListener('online', handleOnline);
+    },
+  };
+};
+
+// --- SEÇÃO 2.9: COLABORAÇÃO EM TEMPO REAL (CRDT SOBRE WEBSOCKET) ---
+// Cada campo de cada cartão e lista funciona como um registro em que vence a
+// escrita com a maior marca de um relógio lógico híbrido (HLC), no formato
+// `${ms}-${contador}-${cliente}` com os números preenchidos com zeros: a ordem do
+// texto é a ordem no tempo e o cliente desempata, então duas marcas nunca são
+// iguais. Assim, aplicar as mesmas operações em qualquer ordem, repetidas ou não,
+// leva todos os clientes ao mesmo resultado. Alterações concorrentes em campos
+// diferentes do mesmo cartão (ex.: um renomeia e outro move de lista) se somam.
+//
+// Protocolo com server/collab-relay-server.js (mensagens JSON):
+//   cliente -> { type: 'join', boardId, clientId, member, cardId, mode }
+//              { type: 'ops', ops } | { type: 'presence', cardId, mode }
+//   servidor -> { type: 'snapshot', ops } (todas as operações do quadro, ao entrar)
+//               { type: 'ops', ops } | { type: 'presence', peers }
+//               { type: 'ack', stamp } (maior marca guardada de um envio)
+//               { type: 'ack', stamp } (maior marca guardada de um envio)
+
+const formatCollabStamp = (
+  wall: number,
+  counter: number,
+  clientId: string
+): string =>
+  `${String(wall).padStart(15, '0')}-${String(counter).padStart(6, '0')}-${clientId}`;
+
+// Relógio do cliente: nunca volta e fica à frente de toda marca que já viu, para
+// que uma edição feita depois de receber outra sempre vença
+const createCollabClock = (clientId: string) => {
+  let wall = 0;
+  let counter = 0;
+  return {
+    next: (): string => {
+      const now = Date.now();
+      if (now > wall) {
+        wall = now;
+        counter = 0;
+      } else {
+        counter += 1;
+      }
+      return formatCollabStamp(wall, counter, clientId);
+    },
+    observe: (stamp: string): void => {
+      const [remoteWall, remoteCounter] = stamp.split('-').map(Number);
+      if (
+        remoteWall > wall ||
+        (remoteWall === wall && remoteCounter > counter)
+      ) {
+        wall = remoteWall;
+        counter = remoteCounter;
+      }
+    },
+  };
+};
+
+const isValidCollabOperation = (value: unknown): value is ICollabOperation =>
+  isRecord(value) &&
+  typeof value.stamp === 'string' &&
+  /^\d{15}-\d{6}-/.test(value.stamp) &&
+  (value.kind === 'card' || value.kind === 'list') &&
+  typeof value.boardId === 'string' &&
+  typeof value.id === 'string' &&
+  (value.fields === null || isRecord(value.fields));
+
+// Aplica uma operação ao documento; retorna se algo mudou
+const applyCollabOperation = (
+  doc: Map<string, ICollabRecord>,
+  operation: ICollabOperation
+): boolean => {
+  const key = getSyncKey(operation);
+  const record = doc.get(key) ?? {
+    kind: operation.kind,
+    boardId: operation.boardId,
+    id: operation.id,
+    fields: {},
+    deletedAt: null,
+  };
+  let isChanged = !doc.has(key);
+  if (operation.fields === null) {
+    if (record.deletedAt === null || operation.stamp > record.deletedAt) {
+      record.deletedAt = operation.stamp;
+      isChanged = true;
+    }
+  } else {
+    Object.entries(operation.fields).forEach(([field, value]) => {
+      const current = record.fields[field];
+      if (!current || operation.stamp > current.stamp) {
+        record.fields[field] = { value, stamp: operation.stamp };
+        isChanged = true;
+      }
+    });
+  }
+  doc.set(key, record);
+  return isChanged;
+};
+
+// Existe se nunca foi excluído ou se algum campo foi escrito depois da exclusão
+const isCollabRecordVisible = (record: ICollabRecord): boolean =>
+  record.deletedAt === null ||
+  Object.values(record.fields).some(
+    (field) => record.deletedAt !== null && field.stamp > record.deletedAt
+  );
+
+// Cartão ou lista resultante do documento; null se ainda estiver incompleto
+const projectCollabRecord = (record: ICollabRecord): SyncMutation | null =>
+  parseSyncMutation({
+    kind: record.kind,
+    boardId: record.boardId,
+    id: record.id,
+    record: isCollabRecordVisible(record)
+      ? Object.fromEntries(
+          Object.entries(record.fields).map(([field, { value }]) => [
+            field,
+            value,
+          ])
+        )
+      : null,
+  });
+
+// Operações para as mudanças locais, só com os campos que diferem do documento.
+// Com `onlyMissing`, envia apenas os campos que o documento ainda não tem.
+const createCollabOperations = (
+  doc: Map<string, ICollabRecord>,
+  mutations: SyncMutation[],
+  nextStamp: () => string,
+  onlyMissing = false
+): ICollabOperation[] =>
+  mutations.flatMap((mutation): ICollabOperation[] => {
+    const { kind, boardId, id } = mutation;
+    const current = doc.get(getSyncKey(mutation));
+    const isVisible = current ? isCollabRecordVisible(current) : false;
+    if (!mutation.record) {
+      return current && isVisible
+        ? [{ stamp: nextStamp(), kind, boardId, id, fields: null }]
+        : [];
+    }
+    const fields = Object.fromEntries(
+      Object.entries(mutation.record).filter(([field, value]) => {
+        const known = current?.fields[field];
+        if (onlyMissing) return !known;
+        return !isVisible || !known || !isSameValue(known.value, value);
+      })
+    );
+    return Object.keys(fields).length > 0
+      ? [{ stamp: nextStamp(), kind, boardId, id, fields }]
+      : [];
+  });
+
+// Operações com o que o documento local tem mais novo que o do servidor, com as
+// marcas originais (ex.: o servidor reiniciou ou perdeu um envio)
+const createNewerCollabOperations = (
+  doc: Map<string, ICollabRecord>,
+  serverDoc: Map<string, ICollabRecord>
+): ICollabOperation[] =>
+  [...doc.entries()].flatMap(([key, record]): ICollabOperation[] => {
+    const server = serverDoc.get(key);
+    const { kind, boardId, id } = record;
+    const fieldsByStamp = new Map<string, Record<string, unknown>>();
+    Object.entries(record.fields).forEach(([field, { value, stamp }]) => {
+      const serverField = server?.fields[field];
+      if (serverField && serverField.stamp >= stamp) return;
+      fieldsByStamp.set(stamp, {
+        ...fieldsByStamp.get(stamp),
+        [field]: value,
+      });
+    });
+    const operations: ICollabOperation[] = [...fieldsByStamp].map(
+      ([stamp, fields]) => ({ stamp, kind, boardId, id, fields })
+    );
+    if (
+      record.deletedAt !== null &&
+      (!server?.deletedAt || server.deletedAt < record.deletedAt)
+    ) {
+      operations.push({
+        stamp: record.deletedAt,
+        kind,
+        boardId,
+        id,
+        fields: null,
+      });
+    }
+    return operations;
+  });
+
+// Operações ainda não confirmadas pelo servidor, por quadro (sobrevivem a
+// recarregar offline)
+const loadCollabPending = (): Record<string, ICollabOperation[]> => {
+  try {
+    const stored = localStorage.getItem(COLLAB_PENDING_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).map(([boardId, ops]) => [
+        boardId,
+        Array.isArray(ops) ? ops.filter(isValidCollabOperation) : [],
+      ])
+    );
+  } catch {
+    return {};
+  }
+};
+
+const saveCollabPending = (boardId: string, ops: ICollabOperation[]): void => {
+  const all = { ...loadCollabPending(), [boardId]: ops };
+  localStorage.setItem(
+    COLLAB_PENDING_KEY,
+    JSON.stringify(
+      Object.fromEntries(
+        Object.entries(all).filter(([, boardOps]) => boardOps.length > 0)
+      )
+    )
+  );
+};
+
+const isValidCollabPeer = (value: unknown): value is ICollabPeer =>
+  isRecord(value) &&
+  typeof value.clientId === 'string' &&
+  validateMember(value.member) !== null &&
+  (value.cardId === null || typeof value.cardId === 'string') &&
+  (value.mode === 'viewing' || value.mode === 'editing');
+
+/**
+ * Conecta ao servidor de colaboração e mantém o quadro `boardId` em sincronia:
+ * mudanças locais viram operações (guardadas enquanto não há conexão) e as
+ * operações recebidas são aplicadas ao documento e devolvidas como cartões e
+ * listas prontos para o estado. Ao entrar, o que o servidor já tem prevalece e
+ * os campos que ele ainda não conhece, ou conhece numa versão mais antiga, são
+ * enviados a partir do documento e do estado local.
+ * Se a conexão cai, tenta de novo a cada COLLAB_RETRY_MS.
+ *
+ * Como cada campo vence separado, o resultado pode ter um cartão numa lista
+ * excluída ou arquivada, ou duas posições iguais. Quem recebe as mudanças corrige
+ * o quadro, e a correção volta aos outros como qualquer mudança local.
+ */
+const createCollabSession = (
+  url: string,
+  boardId: string,
+  member: IMember,
+  callbacks: {
+    getBoard: () => IBoard | null; // O quadro como está agora neste cliente
+    onChanges: (mutations: SyncMutation[]) => void;
+    onPeers: (peers: ICollabPeer[]) => void;
+    onConnectionChange: (isConnected: boolean) => void;
+  }
+): ICollabSession => {
+  const clientId = createId('client');
+  const clock = createCollabClock(clientId);
+  const doc = new Map<string, ICollabRecord>();
+  let pending = loadCollabPending()[boardId] ?? [];
+  let presence: { cardId: string | null; mode: PresenceMode } = {
+    cardId: null,
+    mode: 'viewing',
+  };
+  let socket: WebSocket | null = null;
+  let hasJoined = false; // Já recebeu o snapshot nesta conexão
+  let sentStamp = ''; // Maior marca já enviada nesta conexão
+  let retryTimer: number | undefined;
+  let isStopped = false;
+
+  pending.forEach((operation) => {
+    clock.observe(operation.stamp);
+    applyCollabOperation(doc, operation);
+  });
+
+  // Retorna se a mensagem saiu (com a conexão fechando, ela se perde)
+  const send = (message: object): boolean => {
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  // Envia o que ainda não foi nesta conexão. A fila, em ordem de marca, só perde
+  // as operações que o servidor confirmar; o resto volta na próxima conexão.
+  const flush = (): void => {
+    if (!hasJoined) return;
+    const unsent = pending.filter((operation) => operation.stamp > sentStamp);
+    if (unsent.length > 0 && send({ type: 'ops', ops: unsent })) {
+      sentStamp = unsent[unsent.length - 1].stamp;
+    }
+  };
+
+  // Devolve ao estado os registros do documento que diferem do quadro local
+  const emitChanges = (keys: Iterable<string>): void => {
+    const board = callbacks.getBoard();
+    if (!board) return;
+    const mutations = [...keys].flatMap((key) => {
+      const record = doc.get(key);
+      const mutation = record ? projectCollabRecord(record) : null;
+      if (!mutation) return [];
+      const local =
+        mutation.kind === 'card'
+          ? board.cards.find((card) => card.id === mutation.id)
+          : board.lists.find((list) => list.id === mutation.id);
+      return isSameValue(local ?? null, mutation.record) ? [] : [mutation];
+    });
+    if (mutations.length > 0) callbacks.onChanges(mutations);
+  };
+
+  const receive = (ops: unknown[]): Set<string> => {
+    const changedKeys = new Set<string>();
+    ops.filter(isValidCollabOperation).forEach((operation) => {
+      if (operation.boardId !== boardId) return;
+      clock.observe(operation.stamp);
+      if (applyCollabOperation(doc, operation)) {
+        changedKeys.add(getSyncKey(operation));
+      }
+    });
+    return changedKeys;
+  };
+
+  const handleMessage = (e: MessageEvent): void => {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(e.data));
+    } catch {
+      return;
+    }
+    if (!isRecord(message)) return;
+    if (message.type === 'snapshot' && Array.isArray(message.ops)) {
+      receive(message.ops);
+      const serverDoc = new Map<string, ICollabRecord>();
+      message.ops.filter(isValidCollabOperation).forEach((operation) => {
+        if (operation.boardId === boardId) {
+          applyCollabOperation(serverDoc, operation);
+        }
+      });
+      // Completa o documento com o que só o estado local tem
+      const board = callbacks.getBoard();
+      if (board) {
+        createCollabOperations(
+          doc,
+          diffBoardRecords(boardId, null, board),
+          clock.next,
+          true
+        ).forEach((operation) => applyCollabOperation(doc, operation));
+      }
+      // A fila passa a ser tudo o que o servidor não tem ou tem mais antigo,
+      // inclusive o que foi enviado antes e se perdeu no caminho
+      pending = createNewerCollabOperations(doc, serverDoc).sort((a, b) =>
+        a.stamp.localeCompare(b.stamp)
+      );
+      saveCollabPending(boardId, pending);
+      hasJoined = true;
+      flush();
+      emitChanges(doc.keys());
+      callbacks.onConnectionChange(true);
+    } else if (message.type === 'ops' && Array.isArray(message.ops)) {
+      emitChanges(receive(message.ops));
+    } else if (message.type === 'ack' && typeof message.stamp === 'string') {
+      const stamp = message.stamp;
+      pending = pending.filter((operation) => operation.stamp > stamp);
+      saveCollabPending(boardId, pending);
+    } else if (message.type === 'presence' && Array.isArray(message.peers)) {
+      callbacks.onPeers(
+        message.peers
+          .filter(isValidCollabPeer)
+          .filter((peer) => peer.clientId !== clientId)
+      );
+    }
+  };
+
+  const connect = (): void => {
+    if (isStopped) return;
+    socket = new WebSocket(url);
+    socket.addEventListener('open', () =>
+      send({ type: 'join', boardId, clientId, member, ...presence })
+    );
+    socket.addEventListener('message', handleMessage);
+    socket.addEventListener('close', () => {
+      hasJoined = false;
+      sentStamp = '';
+      socket = null;
+      if (isStopped) return;
+      callbacks.onConnectionChange(false);
+      callbacks.onPeers([]);
+      retryTimer = window.setTimeout(connect, COLLAB_RETRY_MS);
+    });
+  };
+  connect();
+
+  return {
+    pushLocal: (previous, next) => {
+      const operations = createCollabOperations(
+        doc,
+        diffSyncRecords(previous, next).filter(
+          (mutation) => mutation.boardId === boardId
+        ),
+        clock.next
+      );
+      if (operations.length === 0) return;
+      operations.forEach((operation) => applyCollabOperation(doc, operation));
+      pending = [...pending, ...operations];
+      saveCollabPending(boardId, pending);
+      flush();
+    },
+    setPresence: (cardId, mode) => {
+      presence = { cardId, mode };
+      if (hasJoined) send({ type: 'presence', ...presence });
+    },
+    stop: () => {
+      isStopped = true;
+      window.clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
+
+// --- SEÇÃO 3: LÓGICA DO ESTADO (ZUSTAND SIMULADO) E PERSISTÊNCIA TIPADA ---
+
+// Este hook simula o store central (Zustand) para todo o aplicativo.
+const useKanbanStore = (): IKanbanStore => {
+  // useState tipado: estado atual e histórico de desfazer/refazer
+  const [undoable, setUndoable] = useState<IUndoableState>(() => ({
+    present: getInitialState(),
+    past: [],
+    future: [],
+  }));
+  const state: IKanbanState = undoable.present;
+  // Nada é gravado antes de o estado salvo terminar de carregar
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const [storageName, setStorageName] = useState<string | null>(null);
+  const adapterRef = useRef<IStorageAdapter | null>(null);
+  // Estado ainda não gravado (a gravação espera o usuário parar de mexer)
+  const pendingSaveRef = useRef<IKanbanState | null>(null);
+  // Último estado em comum com o armazenamento (gravado, carregado ou recebido
+  // de outra aba): base da mescla e o que não precisa ser gravado de novo
+  const syncedStateRef = useRef<IKanbanState | null>(null);
+  // Sincronização com o servidor: endereço configurado, situação e a instância
+  // em execução (só na aba que detém o lock)
+  const [syncUrl, setSyncUrlState] = useState<string | null>(
+    () => loadSyncConfig()?.url ?? null
+  );
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('pending');
+  const remoteSyncRef = useRef<IRemoteSync | null>(null);
+  // Último estado comparado para achar o que enviar ao servidor
+  const syncBaseRef = useRef<IKanbanState>(state);
+  // Colaboração em tempo real: endereço, conexão, quem mais está no quadro e a
+  // sessão em execução
+  const [collabUrl, setCollabUrlState] = useState<string | null>(() =>
+    localStorage.getItem(COLLAB_URL_KEY)
+  );
+  const [isCollabConnected, setIsCollabConnected] = useState<boolean>(false);
+  const [collabPeers, setCollabPeers] = useState<ICollabPeer[]>([]);
+  const collabSessionRef = useRef<ICollabSession | null>(null);
+  // Cartão aberto nesta aba, repassado a cada nova sessão
+  const presenceRef = useRef<{ cardId: string | null; mode: PresenceMode }>({
+    cardId: null,
+    mode: 'viewing',
+  });
+
+  // Carrega o estado salvo; se o IndexedDB falhar, usa o localStorage
+  useEffect(() => {
+    let isCancelled = false;
+    const load = async (): Promise<void> => {
+      let adapter = createStorageAdapter();
+      let loadedState: IKanbanState | null = null;
+      try {
+        loadedState = await adapter.load();
+      } catch (error) {
+        console.error(`Erro ao carregar estado do ${adapter.name}:`, error);
+        adapter = createLocalStorageAdapter();
+        try {
+          loadedState = await adapter.load();
+        } catch (fallbackError) {
+          console.error(
+            'Erro ao carregar estado do localStorage:',
+            fallbackError
+          );
+        }
+      }
+      if (isCancelled) return;
+      adapterRef.current = adapter;
+      setStorageName(adapter.name);
+      if (loadedState) {
+        syncedStateRef.current = loadedState;
+        setUndoable({ present: loadedState, past: [], future: [] });
+      }
+      setIsLoaded(true);
+      // Limpa os arquivos órfãos uma vez, com base nos quadros carregados
+      pruneAttachmentBlobs(
+        collectAttachmentIds((loadedState ?? getInitialState()).boards)
+      ).catch(() => {
+        // Sem IndexedDB não há o que limpar
+      });
+    };
+    load();
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  // Atualiza o estado sem registrar no histórico (tema, busca, gestão de quadros)
+  const setState = useCallback(
+    (updater: (prevState: IKanbanState) => IKanbanState): void => {
+      setUndoable((prev) => ({ ...prev, present: updater(prev.present) }));
+    },
+    []
+  );
+
+  // Esvazia o que venceu na lixeira ao carregar, a cada hora e ao mudar o prazo
+  useEffect(() => {
+    if (!isLoaded) return;
+    const purge = (): void =>
+      setState((prevState) => purgeExpiredTrash(prevState, Date.now()));
+    purge();
+    const timer = window.setInterval(purge, TRASH_PURGE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoaded, setState, state.trashRetentionDays]);
+
+  // Gera as cópias dos cartões recorrentes ao carregar e a cada minuto
+  useEffect(() => {
+    if (!isLoaded) return;
+    const spawn = (): void =>
+      setState((prevState) => spawnRecurringCards(prevState, Date.now()));
+    spawn();
+    const timer = window.setInterval(spawn, RECURRENCE_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoaded, setState]);
+
+  // Aplica uma mutação ao quadro ativo guardando o instantâneo anterior para desfazer
+  const commitBoardChange = useCallback(
+    (label: string, updater: (board: IBoard) => IBoard): void => {
+      setUndoable((prev) => {
+        const before = getActiveBoard(prev.present);
+        return {
+          present: updateActiveBoard(prev.present, updater),
+          past: [...prev.past, { label, board: before }].slice(-HISTORY_LIMIT),
+          future: [], // Uma nova ação invalida o que poderia ser refeito
+        };
+      });
+    },
+    []
+  );
+
+  // Move o topo de uma pilha para a outra, restaurando o quadro guardado
+  const travel = useCallback((direction: 'undo' | 'redo'): void => {
+    setUndoable((prev) => {
+      const source = direction === 'undo' ? prev.past : prev.future;
+      const entry = source[source.length - 1];
+      if (!entry) return prev;
+      const remaining = source.slice(0, -1);
+      const current = prev.present.boards.find(
+        (board) => board.id === entry.board.id
+      );
+      // Quadro excluído desde então: descarta a entrada
+      if (!current) {
+        return direction === 'undo'
+          ? { ...prev, past: remaining }
+          : { ...prev, future: remaining };
+      }
+      const opposite = { label: entry.label, board: current };
+      const present: IKanbanState = {
+        ...prev.present,
+        // O título não faz parte do histórico; mantém o nome atual do quadro
+        boards: prev.present.boards.map((board) =>
+          board.id === current.id
+            ? { ...entry.board, title: current.title }
+            : board
+        ),
+        activeBoardId: current.id, // Mostra o quadro afetado
+      };
+      return direction === 'undo'
+        ? { present, past: remaining, future: [...prev.future, opposite] }
+        : { present, past: [...prev.past, opposite], future: remaining };
+    });
+  }, []);
+
+  const undo = useCallback((): void => travel('undo'), [travel]);
+  const redo = useCallback((): void => travel('redo'), [travel]);
+
+  // Grava o estado pendente, se houver
+  const flushSave = useCallback((): void => {
+    const pending = pendingSaveRef.current;
+    if (!pending || !adapterRef.current) return;
+    pendingSaveRef.current = null;
+    adapterRef.current
+      .save(pending)
+      .then(() => {
+        syncedStateRef.current = pending;
+      })
+      .catch((error) => console.error('Erro ao salvar o estado:', error));
+  }, []);
+
+  // Persiste o estado após SAVE_DEBOUNCE_MS sem mudanças (ex.: digitação na busca).
+  // O que veio de outra aba sem mudanças locais não é regravado, senão as abas
+  // ficariam devolvendo a mesma gravação uma para a outra.
+  useEffect(() => {
+    if (!isLoaded || state === syncedStateRef.current) return;
+    pendingSaveRef.current = state;
+    const timer = window.setTimeout(flushSave, SAVE_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [state, isLoaded, flushSave]);
+
+  // Recebe o que as outras abas gravaram e mescla com o estado desta aba
+  useEffect(() => {
+    const adapter = adapterRef.current;
+    if (!isLoaded || !adapter) return;
+    return adapter.subscribe((remote) => {
+      const base = syncedStateRef.current;
+      setUndoable((prev) => {
+        const local = prev.present;
+        const isLocalSynced = base === null || local === base;
+        const present = mergeConcurrentStates(base ?? local, local, remote);
+        syncedStateRef.current = isLocalSynced ? present : remote;
+        return replacePresentFromOutside(prev, present);
+      });
+    });
+  }, [isLoaded]);
+
+  // Envia aos servidores o que mudou nos cartões e listas desde o último estado visto
+  useEffect(() => {
+    const previous = syncBaseRef.current;
+    syncBaseRef.current = state;
+    if (isLoaded && previous !== state) {
+      remoteSyncRef.current?.push(diffSyncRecords(previous, state));
+      collabSessionRef.current?.pushLocal(previous, state);
+    }
+  }, [state, isLoaded]);
+
+  // Sincroniza com o servidor configurado. Com várias abas abertas, só a que tem o
+  // lock sincroniza e avisa as outras da situação; as mudanças chegam a elas pelo
+  // armazenamento compartilhado, como qualquer outra gravação.
+  useEffect(() => {
+    if (!isLoaded || !syncUrl) return;
+    const channel =
+      typeof BroadcastChannel === 'undefined'
+        ? null
+        : new BroadcastChannel(SYNC_CHANNEL_NAME);
+    const handleMessage = (e: MessageEvent): void => setSyncStatus(e.data);
+    channel?.addEventListener('message', handleMessage);
+
+    const controller = new AbortController();
+    const start = (): Promise<void> =>
+      new Promise((resolve) => {
+        const config = loadSyncConfig();
+        const remoteSync = createRemoteSync(
+          config?.url === syncUrl
+            ? config
+            : { url: syncUrl, cursor: 0, queue: [] },
+          {
+            getState: () => syncBaseRef.current,
+            onChanges: (changes) =>
+              setUndoable((prev) =>
+                replacePresentFromOutside(
+                  prev,
+                  applySyncChanges(prev.present, changes)
+                )
+              ),
+            onStatus: (status) => {
+              setSyncStatus(status);
+              channel?.postMessage(status);
+            },
+          }
+        );
+        remoteSyncRef.current = remoteSync;
+        // O lock fica com esta aba até a sincronização ser desligada ou a aba fechar
+        controller.signal.addEventListener('abort', () => {
+          remoteSync.stop();
+          remoteSyncRef.current = null;
+          resolve();
+        });
+      });
+    if (navigator.locks) {
+      navigator.locks
+        .request(SYNC_LOCK_NAME, { signal: controller.signal }, start)
+        .catch(() => {
+          // Cancelado antes de obter o lock
+        });
+    } else {
+      start();
+    }
+    return () => {
+      controller.abort();
+      channel?.close();
+    };
+  }, [isLoaded, syncUrl]);
+
+  // Acompanha a configuração da sincronização e da colaboração alterada em outra aba
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent): void => {
+      if (e.key === SYNC_CONFIG_KEY) {
+        setSyncUrlState(loadSyncConfig()?.url ?? null);
+      } else if (e.key === COLLAB_URL_KEY) {
+        setCollabUrlState(e.newValue);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Liga (com a fila e o cursor zerados) ou desliga a sincronização
+  const setSyncUrl = useCallback((url: string | null): void => {
+    saveSyncConfig(url ? { url, cursor: 0, queue: [] } : null);
+    setSyncUrlState(url);
+    setSyncStatus('pending');
+  }, []);
+
+  // Não perde a última mudança ao fechar ou esconder a aba
+  useEffect(() => {
+    const handleVisibilityChange = (): void => {
+      if (document.visibilityState === 'hidden') flushSave();
+    };
+    window.addEventListener('pagehide', flushSave);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushSave);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushSave]);
+
+  // Aplica a classe de tema (light/dark)
+  useEffect(() => {
+    document.documentElement.className = state.theme;
+  }, [state.theme]);
+
+  const activeBoard: IBoard = getActiveBoard(state);
+  const activeBoardId = activeBoard.id;
+  // Como este cliente aparece para os colaboradores: o membro escolhido no quadro
+  const collabMember: IMember =
+    activeBoard.members.find(
+      (member) => member.id === state.currentMemberByBoard[activeBoardId]
+    ) ?? ANONYMOUS_MEMBER;
+  // Os campos, e não o objeto: salvar em outra aba troca os objetos dos membros
+  const {
+    id: collabMemberId,
+    name: collabMemberName,
+    initials: collabMemberInitials,
+    colorVar: collabMemberColorVar,
+  } = collabMember;
+
+  // Colaboração no quadro ativo: trocar de quadro ou de membro abre outra sessão
+  useEffect(() => {
+    if (!isLoaded || !collabUrl) return;
+    const session = createCollabSession(
+      collabUrl,
+      activeBoardId,
+      {
+        id: collabMemberId,
+        name: collabMemberName,
+        initials: collabMemberInitials,
+        colorVar: collabMemberColorVar,
+      },
+      {
+        getBoard: () =>
+          syncBaseRef.current.boards.find(
+            (board) => board.id === activeBoardId
+          ) ?? null,
+        // A correção de referências feita aqui é enviada de volta por pushLocal
+        onChanges: (mutations) =>
+          setUndoable((prev) =>
+            replacePresentFromOutside(
+              prev,
+              applySyncChanges(prev.present, mutations)
+            )
+          ),
+        onPeers: setCollabPeers,
+        onConnectionChange: setIsCollabConnected,
+      }
+    );
+    session.setPresence(presenceRef.current.cardId, presenceRef.current.mode);
+    collabSessionRef.current = session;
+    return () => {
+      session.stop();
+      collabSessionRef.current = null;
+      setIsCollabConnected(false);
+      setCollabPeers([]);
+    };
+  }, [
+    isLoaded,
+    collabUrl,
+    activeBoardId,
+    collabMemberId,
+    collabMemberName,
+    collabMemberInitials,
+    collabMemberColorVar,
+  ]);
+
+  const setCollabUrl = useCallback((url: string | null): void => {
+    if (url) localStorage.setItem(COLLAB_URL_KEY, url);
+    else localStorage.removeItem(COLLAB_URL_KEY);
+    setCollabUrlState(url);
+  }, []);
+
+  // Informa aos colaboradores o cartão aberto (e se está sendo editado)
+  const setPresence = useCallback(
+    (cardId: string | null, mode: PresenceMode): void => {
+      presenceRef.current = { cardId, mode };
+      collabSessionRef.current?.setPresence(cardId, mode);
+    },
+    []
+  );
+
+  const createBoard = useCallback(
+    (title: string): void => {
+      const newBoard = createEmptyBoard(title);
+      setState((prevState) => ({
+        ...prevState,
+        boards: [...prevState.boards, newBoard],
+        activeBoardId: newBoard.id,
+      }));
+    },
+    [setState]
+  );
+
+  const renameBoard = useCallback(
+    (boardId: string, title: string): void => {
+      setState((prevState) => ({
+        ...prevState,
+        boards: prevState.boards.map((board) =>
+          board.id === boardId ? { ...board, title } : board
+        ),
+      }));
+    },
+    [setState]
+  );
+
+  const duplicateBoard = useCallback(
+    (boardId: string): void => {
+      setState((prevState) => {
+        const source = prevState.boards.find((board) => board.id === boardId);
+        if (!source) return prevState;
+        const copy = cloneBoard(source, `${source.title} (cópia)`);
+        return {
+          ...prevState,
+          boards: [...prevState.boards, copy],
+          activeBoardId: copy.id,
+        };
+      });
+    },
+    [setState]
+  );
+
+  const deleteBoard = useCallback(
+    (boardId: string): void => {
+      setState((prevState) => {
+        // O último quadro não pode ser excluído
+        if (prevState.boards.length <= 1) return prevState;
+        const boards = prevState.boards.filter((board) => board.id !== boardId);
+        return {
+          ...prevState,
+          boards,
+          activeBoardId:
+            prevState.activeBoardId === boardId
+              ? boards[0].id
+              : prevState.activeBoardId,
+        };
+      });
+    },
+    [setState]
+  );
+
+  const switchBoard = useCallback(
+    (boardId: string): void => {
+      setState((prevState) => ({ ...prevState, activeBoardId: boardId }));
+    },
+    [setState]
+  );
+
+  // Importa o CSV sobre o quadro ativo como ele está agora (não sobre o da
+  // pré-visualização, que pode ter mudado até a confirmação)
+  const importCardsCsv = useCallback(
+    (text: string): void => {
+      commitBoardChange(
+        'Importar cartões',
+        (board) => importCardsFromCsv(board, text).board
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const addCard = useCallback(
+    (listId: string, title: string, description: string): void => {
+      commitBoardChange('Adicionar cartão', (board) => ({
+        ...board,
+        cards: [...board.cards, createCard(board, listId, title, description)],
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const addCardFromTemplate = useCallback(
+    (templateId: string, listId: string, title: string): void => {
+      commitBoardChange('Adicionar cartão do modelo', (board) => {
+        const template = board.templates.find(
+          (other) => other.id === templateId
+        );
+        if (!template) return board;
+        return {
+          ...board,
+          cards: [
+            ...board.cards,
+            createCardFromTemplate(board, template, listId, title, Date.now()),
+          ],
+        };
+      });
+    },
+    [commitBoardChange]
+  );
+
+  const updateCard = useCallback(
+    (
+      cardId: string,
+      newTitle: string,
+      newDescription: string,
+      details: CardDetails = {}
+    ): void => {
+      commitBoardChange('Editar cartão', (board) =>
+        updateBoardCard(board, cardId, (card) => {
+          let updated: ICard = {
+            ...card,
+            ...details,
+            title: newTitle,
+            description: newDescription,
+          };
+          if (newTitle !== card.title) {
+            updated = appendActivity(updated, {
+              type: 'renamed',
+              from: card.title,
+              to: newTitle,
+            });
+          }
+          if (newDescription !== card.description) {
+            updated = appendActivity(updated, { type: 'description-edited' });
+          }
+          return updated;
+        })
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const addComment = useCallback(
+    (cardId: string, author: string, text: string): void => {
+      commitBoardChange('Comentar', (board) =>
+        updateBoardCard(board, cardId, (card) => ({
+          ...card,
+          comments: [
+            ...card.comments,
+            {
+              id: createId('comment'),
+              author,
+              text,
+              createdAt: Date.now(),
+              editedAt: null,
+            },
+          ],
+        }))
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const updateComment = useCallback(
+    (cardId: string, commentId: string, text: string): void => {
+      commitBoardChange('Editar comentário', (board) =>
+        updateBoardCard(board, cardId, (card) => ({
+          ...card,
+          comments: card.comments.map((comment) =>
+            comment.id === commentId
+              ? { ...comment, text, editedAt: Date.now() }
+              : comment
+          ),
+        }))
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const deleteComment = useCallback(
+    (cardId: string, commentId: string): void => {
+      commitBoardChange('Excluir comentário', (board) =>
+        updateBoardCard(board, cardId, (card) => ({
+          ...card,
+          comments: card.comments.filter((comment) => comment.id !== commentId),
+        }))
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const addAttachments = useCallback(
+    (cardId: string, attachments: IAttachment[]): void => {
+      commitBoardChange('Anexar arquivo', (board) =>
+        updateBoardCard(board, cardId, (card) => ({
+          ...card,
+          attachments: [...card.attachments, ...attachments],
+        }))
+      );
+    },
+    [commitBoardChange]
+  );
+
+  // Só remove a referência: o arquivo continua no IndexedDB para o desfazer
+  const deleteAttachment = useCallback(
+    (cardId: string, attachmentId: string): void => {
+      commitBoardChange('Excluir anexo', (board) =>
+        updateBoardCard(board, cardId, (card) => ({
+          ...card,
+          attachments: card.attachments.filter(
+            (attachment) => attachment.id !== attachmentId
+          ),
+          coverAttachmentId:
+            card.coverAttachmentId === attachmentId
+              ? null
+              : card.coverAttachmentId,
+        }))
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const setCardCover = useCallback(
+    (cardId: string, attachmentId: string | null): void => {
+      commitBoardChange('Alterar capa', (board) =>
+        updateBoardCard(board, cardId, (card) => ({
+          ...card,
+          coverAttachmentId: attachmentId,
+        }))
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const archiveCard = useCallback(
+    (cardId: string): void => {
+      commitBoardChange('Arquivar cartão', (board) =>
+        archiveBoardCard(board, cardId, Date.now())
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const convertChecklistItem = useCallback(
+    (
+      cardId: string,
+      checklistId: string,
+      itemId: string,
+      title: string
+    ): void => {
+      commitBoardChange('Converter item em cartão', (board) => {
+        const sourceCard = board.cards.find((card) => card.id === cardId);
+        if (!sourceCard) return board;
+        const newCard = createCard(
+          board,
+          sourceCard.listId,
+          title,
+          `Item do checklist de "${sourceCard.title}".`
+        );
+        // O item sai do checklist (se já estiver salvo) e vira o novo cartão
+        const cards = board.cards.map((card) =>
+          card.id === cardId
+            ? {
+                ...card,
+                checklists: card.checklists.map((checklist) =>
+                  checklist.id === checklistId
+                    ? {
+                        ...checklist,
+                        items: checklist.items.filter(
+                          (item) => item.id !== itemId
+                        ),
+                      }
+                    : checklist
+                ),
+              }
+            : card
+        );
+        return {
+          ...board,
+          cards: moveCardToIndex(
+            [...cards, newCard],
+            newCard.id,
+            sourceCard.listId,
+            sourceCard.position + 1
+          ),
+        };
+      });
+    },
+    [commitBoardChange]
+  );
+
+  const sortListByDueDate = useCallback(
+    (listId: string): void => {
+      commitBoardChange('Ordenar por prazo', (board) => {
+        // Ordenação estável: empates e cartões sem prazo mantêm a ordem atual
+        const sortedIds = sortCardsByPosition(
+          board.cards.filter((card) => card.listId === listId)
+        )
+          .map((card, index) => ({ card, index }))
+          .sort(
+            (a, b) =>
+              (a.card.due ? getDueDeadline(a.card.due) : Infinity) -
+                (b.card.due ? getDueDeadline(b.card.due) : Infinity) ||
+              a.index - b.index
+          )
+          .map(({ card }) => card.id);
+        return {
+          ...board,
+          cards: board.cards.map((card) =>
+            card.listId === listId
+              ? { ...card, position: sortedIds.indexOf(card.id) }
+              : card
+          ),
+        };
+      });
+    },
+    [commitBoardChange]
+  );
+
+  const addLabel = useCallback(
+    (name: string, colorVar: string): string => {
+      const newLabel: ILabel = { id: createId('label'), name, colorVar };
+      commitBoardChange('Criar etiqueta', (board) => ({
+        ...board,
+        labels: [...board.labels, newLabel],
+      }));
+      return newLabel.id;
+    },
+    [commitBoardChange]
+  );
+
+  const updateLabel = useCallback(
+    (
+      labelId: string,
+      changes: Partial<Pick<ILabel, 'name' | 'colorVar'>>
+    ): void => {
+      commitBoardChange('Editar etiqueta', (board) => ({
+        ...board,
+        labels: board.labels.map((label) =>
+          label.id === labelId ? { ...label, ...changes } : label
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const deleteLabel = useCallback(
+    (labelId: string): void => {
+      commitBoardChange('Excluir etiqueta', (board) => ({
+        ...board,
+        labels: board.labels.filter((label) => label.id !== labelId),
+        cards: board.cards.map((card) =>
+          card.labelIds.includes(labelId)
+            ? {
+                ...card,
+                labelIds: card.labelIds.filter((id) => id !== labelId),
+              }
+            : card
+        ),
+        templates: board.templates.map((template) =>
+          template.labelIds.includes(labelId)
+            ? {
+                ...template,
+                labelIds: template.labelIds.filter((id) => id !== labelId),
+              }
+            : template
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const addMember = useCallback(
+    (name: string, initials: string, colorVar: string): void => {
+      commitBoardChange('Adicionar membro', (board) => ({
+        ...board,
+        members: [
+          ...board.members,
+          { id: createId('member'), name, initials, colorVar },
+        ],
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const updateMember = useCallback(
+    (
+      memberId: string,
+      changes: Partial<Pick<IMember, 'name' | 'initials' | 'colorVar'>>
+    ): void => {
+      commitBoardChange('Editar membro', (board) => ({
+        ...board,
+        members: board.members.map((member) =>
+          member.id === memberId ? { ...member, ...changes } : member
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const deleteMember = useCallback(
+    (memberId: string): void => {
+      commitBoardChange('Excluir membro', (board) => ({
+        ...board,
+        members: board.members.filter((member) => member.id !== memberId),
+        cards: board.cards.map((card) =>
+          card.assigneeIds.includes(memberId)
+            ? {
+                ...card,
+                assigneeIds: card.assigneeIds.filter((id) => id !== memberId),
+              }
+            : card
+        ),
+        templates: board.templates.map((template) =>
+          template.assigneeIds.includes(memberId)
+            ? {
+                ...template,
+                assigneeIds: template.assigneeIds.filter(
+                  (id) => id !== memberId
+                ),
+              }
+            : template
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const addTemplate = useCallback(
+    (template: CardTemplateDraft): void => {
+      commitBoardChange('Criar modelo', (board) => ({
+        ...board,
+        templates: [
+          ...board.templates,
+          { ...template, id: createId('template') },
+        ],
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const updateTemplate = useCallback(
+    (templateId: string, template: CardTemplateDraft): void => {
+      commitBoardChange('Editar modelo', (board) => ({
+        ...board,
+        templates: board.templates.map((other) =>
+          other.id === templateId ? { ...template, id: templateId } : other
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const deleteTemplate = useCallback(
+    (templateId: string): void => {
+      commitBoardChange('Excluir modelo', (board) => ({
+        ...board,
+        templates: board.templates.filter(
+          (template) => template.id !== templateId
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const addLane = useCallback(
+    (name: string): void => {
+      commitBoardChange('Criar raia', (board) => ({
+        ...board,
+        lanes: [...board.lanes, { id: createId('lane'), name }],
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const renameLane = useCallback(
+    (laneId: string, name: string): void => {
+      commitBoardChange('Renomear raia', (board) => ({
+        ...board,
+        lanes: board.lanes.map((lane) =>
+          lane.id === laneId ? { ...lane, name } : lane
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  // Os cartões arquivados perdem a raia excluída ao serem restaurados
+  const deleteLane = useCallback(
+    (laneId: string): void => {
+      commitBoardChange('Excluir raia', (board) => ({
+        ...board,
+        lanes: board.lanes.filter((lane) => lane.id !== laneId),
+        cards: board.cards.map((card) =>
+          card.laneId === laneId ? { ...card, laneId: null } : card
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  // Forma de exibir o quadro: não entra no histórico de desfazer
+  const setSwimlanes = useCallback(
+    (grouping: SwimlaneGrouping): void => {
+      setState((prevState) =>
+        updateActiveBoard(prevState, (board) => ({
+          ...board,
+          swimlanes: grouping,
+        }))
+      );
+    },
+    [setState]
+  );
+
+  // Preferência local (como o tema): não entra no histórico de desfazer
+  const setCurrentMember = useCallback(
+    (memberId: string | null): void => {
+      setState((prevState) => {
+        const boardId = getActiveBoard(prevState).id;
+        const currentMemberByBoard = { ...prevState.currentMemberByBoard };
+        if (memberId) currentMemberByBoard[boardId] = memberId;
+        else delete currentMemberByBoard[boardId];
+        return { ...prevState, currentMemberByBoard };
+      });
+    },
+    [setState]
+  );
+
+  const addList = useCallback(
+    (title: string): void => {
+      commitBoardChange('Adicionar lista', (board) => {
+        const newList: IList = {
+          id: createId('list'),
+          title,
+          colorVar: '--color-list-yellow',
+          order: board.lists.length,
+          wipLimit: null,
+        };
+        return {
+          ...board,
+          lists: [...board.lists, newList],
+        };
+      });
+    },
+    [commitBoardChange]
+  );
+
+  const updateList = useCallback(
+    (
+      listId: string,
+      changes: Partial<Pick<IList, 'title' | 'colorVar' | 'wipLimit'>>
+    ): void => {
+      commitBoardChange('Editar lista', (board) => ({
+        ...board,
+        lists: board.lists.map((list) =>
+          list.id === listId ? { ...list, ...changes } : list
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const archiveList = useCallback(
+    (listId: string, moveCardsToListId: string | null): void => {
+      commitBoardChange('Arquivar lista', (board) => {
+        const archivedList = board.lists.find((list) => list.id === listId);
+        if (!archivedList) return board;
+        const remainingLists = normalizeListOrder(
+          board.lists.filter((list) => list.id !== listId)
+        );
+        let cards = board.cards.filter((card) => card.listId !== listId);
+        let archivedCards = board.cards.filter(
+          (card) => card.listId === listId
+        );
+        if (moveCardsToListId && moveCardsToListId !== listId) {
+          // Os cartões movidos vão para o final da lista de destino, na mesma ordem
+          const offset = cards.filter(
+            (card) => card.listId === moveCardsToListId
+          ).length;
+          const movedCards = sortCardsByPosition(
+            board.cards.filter((card) => card.listId === listId)
+          ).map((card, index) =>
+            appendActivity(
+              { ...card, listId: moveCardsToListId, position: offset + index },
+              {
+                type: 'moved',
+                fromListTitle:
+                  board.lists.find((list) => list.id === listId)?.title ?? '',
+                toListTitle:
+                  board.lists.find((list) => list.id === moveCardsToListId)
+                    ?.title ?? '',
+              }
+            )
+          );
+          cards = [...cards, ...movedCards];
+          archivedCards = [];
+        }
+        return {
+          ...board,
+          lists: remainingLists,
+          cards,
+          archive: [
+            ...board.archive,
+            {
+              id: listId,
+              kind: 'list',
+              list: archivedList,
+              cards: archivedCards,
+              archivedAt: Date.now(),
+              trashedAt: null,
+            },
+          ],
+        };
+      });
+    },
+    [commitBoardChange]
+  );
+
+  const restoreArchivedItem = useCallback(
+    (itemId: string): void => {
+      commitBoardChange('Restaurar do arquivo', (board) =>
+        restoreBoardItem(board, itemId)
+      );
+    },
+    [commitBoardChange]
+  );
+
+  const trashArchivedItem = useCallback(
+    (itemId: string): void => {
+      commitBoardChange('Mover para a lixeira', (board) => ({
+        ...board,
+        archive: board.archive.map((item) =>
+          item.id === itemId ? { ...item, trashedAt: Date.now() } : item
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const deleteArchivedItem = useCallback(
+    (itemId: string): void => {
+      commitBoardChange('Excluir definitivamente', (board) => ({
+        ...board,
+        archive: board.archive.filter(
+          (item) => item.id !== itemId || item.trashedAt === null
+        ),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const emptyTrash = useCallback((): void => {
+    commitBoardChange('Esvaziar lixeira', (board) => ({
+      ...board,
+      archive: board.archive.filter((item) => item.trashedAt === null),
+    }));
+  }, [commitBoardChange]);
+
+  const setTrashRetentionDays = useCallback(
+    (days: number | null): void => {
+      setState((prevState) => ({ ...prevState, trashRetentionDays: days }));
+    },
+    [setState]
+  );
+
+  const moveList = useCallback(
+    (listId: string, targetIndex: number): void => {
+      commitBoardChange('Mover lista', (board) => ({
+        ...board,
+        lists: moveListToIndex(board.lists, listId, targetIndex),
+      }));
+    },
+    [commitBoardChange]
+  );
+
+  const toggleTheme = useCallback((): void => {
+    setState((prevState) => ({
+      ...prevState,
+      theme: prevState.theme === 'light' ? 'dark' : 'light',
+    }));
+  }, [setState]);
+
+  const setSearchTerm = useCallback(
+    (term: string): void => {
+      setState((prevState) => ({
+        ...prevState,
+        searchTerm: term,
+      }));
+    },
+    [setState]
+  );
+
+  const reorderCards = useCallback(
+    (
+      sourceListId: string | null,
+      cardId: string,
+      targetListId: string,
+      targetIndex: number,
+      laneMove?: ILaneMove
+    ): void => {
+      commitBoardChange('Mover cartão', (board) => {
+        const movedCards = moveCardToIndex(
+          board.cards,
+          cardId,
+          targetListId,
+          targetIndex
+        );
+        // Se a origem informada divergir do cartão, renumera-a também por segurança
+        const cards = recordCardMove(
+          board,
+          sourceListId && sourceListId !== targetListId
+            ? normalizeListPositions(movedCards, sourceListId)
+            : movedCards,
+          cardId
+        );
+        return {
+          ...board,
+          cards:
+            laneMove && laneMove.fromKey !== laneMove.toKey
+              ? cards.map((card) =>
+                  card.id === cardId ? moveCardToLane(card, laneMove) : card
+                )
+              : cards,
+        };
+      });
+    },
+    [commitBoardChange]
+  );
+
+  const importBoard = useCallback(
+    (
+      incoming: IKanbanState,
+      mode: ImportMode,
+      strategy: ConflictStrategy
+    ): void => {
+      // A importação pode trocar quadros inteiros: o histórico anterior deixa de valer
+      setUndoable((prev) => ({
+        present: applyImport(prev.present, incoming, mode, strategy),
+        past: [],
+        future: [],
+      }));
+    },
+    []
+  );
+
+  return {
+    ...state,
+    activeBoard,
+    lists: activeBoard.lists,
+    cards: activeBoard.cards,
+    labels: activeBoard.labels,
+    members: activeBoard.members,
+    lanes: activeBoard.lanes,
+    // Só vale se o membro ainda existir (ele pode ter sido excluído)
+    currentMemberId: activeBoard.members.some(
+      (member) => member.id === state.currentMemberByBoard[activeBoard.id]
+    )
+      ? state.currentMemberByBoard[activeBoard.id]
+      : null,
+    createBoard,
+    renameBoard,
+    duplicateBoard,
+    deleteBoard,
+    switchBoard,
+    importCardsCsv,
+    undo,
+    redo,
+    isLoaded,
+    storageName,
+    syncUrl,
+    syncStatus,
+    setSyncUrl,
+    collabUrl,
+    isCollabConnected,
+    collabPeers,
+    setCollabUrl,
+    setPresence,
+    canUndo: undoable.past.length > 0,
+    canRedo: undoable.future.length > 0,
+    addCard,
+    addCardFromTemplate,
+    updateCard,
+    archiveCard,
+    addComment,
+    updateComment,
+    deleteComment,
+    addAttachments,
+    deleteAttachment,
+    setCardCover,
+    convertChecklistItem,
+    sortListByDueDate,
+    addLabel,
+    updateLabel,
+    deleteLabel,
+    addMember,
+    updateMember,
+    deleteMember,
+    setCurrentMember,
+    templates: activeBoard.templates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    addLane,
+    renameLane,
+    deleteLane,
+    setSwimlanes,
+    addList,
+    updateList,
+    archiveList,
+    archive: activeBoard.archive,
+    restoreArchivedItem,
+    trashArchivedItem,
+    deleteArchivedItem,
+    emptyTrash,
+    setTrashRetentionDays,
+    moveList,
+    toggleTheme,
+    reorderCards,
+    setSearchTerm,
+    importBoard,
+  };
+};
+
+// URL temporária (object URL) do conteúdo de um anexo, revogada ao desmontar
+const useAttachmentUrl = (attachmentId: string | null): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!attachmentId) return;
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+    getAttachmentBlob(attachmentId)
+      .then((blob) => {
+        if (isCancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // Sem IndexedDB o anexo aparece sem miniatura
+      });
+    return () => {
+      isCancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [attachmentId]);
+  return url;
+};
+
+// Momento atual, atualizado a cada `intervalMs` (estados de prazo mudam com o tempo)
+const useNow = (intervalMs: number): number => {
+  const [now, setNow] = useState<number>(() => Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+};
+
+// --- SEÇÃO 3.1: ARRASTE POR PONTEIRO (TOQUE E CANETA) ---
+
+// Pressão longa que levanta o cartão, e quanto o dedo pode se mexer antes disso
+const LONG_PRESS_MS = 400;
+const LONG_PRESS_TOLERANCE_PX = 8;
+// Faixa junto às bordas que dispara a rolagem automática e velocidade máxima (px/quadro)
+const AUTO_SCROLL_EDGE_PX = 48;
+const AUTO_SCROLL_MAX_SPEED = 16;
+
+// Índice de inserção numa lista pelo meio vertical dos cartões irmãos (exceto o arrastado)
+const getCardInsertionIndex = (
+  container: Element,
+  clientY: number,
+  excludeCardId: string | null
+): number => {
+  const siblingElements = Array.from(
+    container.querySelectorAll<HTMLElement>('[data-card-id]')
+  ).filter((element) => element.dataset.cardId !== excludeCardId);
+  const index = siblingElements.findIndex((element) => {
+    const rect = element.getBoundingClientRect();
+    return clientY < rect.top + rect.height / 2;
+  });
+  return index === -1 ? siblingElements.length : index;
+};
+
+// Velocidade de rolagem para uma coordenada perto das bordas de [start, end]
+const getAutoScrollSpeed = (
+  position: number,
+  start: number,
+  end: number
+): number => {
+  if (position < start + AUTO_SCROLL_EDGE_PX) {
+    const depth = Math.min(
+      1,
+      (start + AUTO_SCROLL_EDGE_PX - position) / AUTO_SCROLL_EDGE_PX
+    );
+    return -Math.ceil(depth * AUTO_SCROLL_MAX_SPEED);
+  }
+  if (position > end - AUTO_SCROLL_EDGE_PX) {
+    const depth = Math.min(
+      1,
+      (position - (end - AUTO_SCROLL_EDGE_PX)) / AUTO_SCROLL_EDGE_PX
+    );
+    return Math.ceil(depth * AUTO_SCROLL_MAX_SPEED);
+  }
+  return 0;
+};
+
+// Após soltar, o navegador ainda dispara um clique no cartão: ele não deve abrir o modal
+const suppressNextClick = (): void => {
+  const handleClick = (event: MouseEvent): void => {
+    event.stopPropagation();
+    event.preventDefault();
+  };
+  window.addEventListener('click', handleClick, { capture: true, once: true });
+  window.setTimeout(
+    () => window.removeEventListener('click', handleClick, { capture: true }),
+    0
+  );
+};
+
+/**
+ * Motor de arraste baseado em Pointer Events para toque e caneta (o mouse
+ * continua com o D&D nativo). Pressão longa levanta o cartão, uma cópia segue
+ * o dedo e as áreas roláveis avançam sozinhas perto das bordas. O destino é
+ * informado como índice entre os cartões visíveis, igual ao drop nativo.
+ */
+const usePointerDrag = ({
+  onDragStateChange,
+  onDrop,
+}: IPointerDragOptions): {
+  dropTarget: IPointerDropTarget | null;
+  startPointerDrag: (
+    e: React.PointerEvent<HTMLElement>,
+    cardId: string
+  ) => void;
+} => {
+  const [dropTarget, setDropTarget] = useState<IPointerDropTarget | null>(null);
+  // Callbacks mais recentes, lidos pelos listeners registrados no início do gesto
+  const optionsRef = useRef<IPointerDragOptions>({ onDragStateChange, onDrop });
+  useEffect(() => {
+    optionsRef.current = { onDragStateChange, onDrop };
+  });
+  const cleanupRef = useRef<(() => void) | null>(null);
+  useEffect(() => () => cleanupRef.current?.(), []);
+
+  const startPointerDrag = useCallback(
+    (e: React.PointerEvent<HTMLElement>, cardId: string): void => {
+      if (e.pointerType === 'mouse' || !e.isPrimary) return;
+      cleanupRef.current?.();
+
+      const element = e.currentTarget;
+      const pointerId = e.pointerId;
+      const rect = element.getBoundingClientRect();
+      const startX = e.clientX;
+      const startY = e.clientY;
+      const offsetX = startX - rect.left;
+      const offsetY = startY - rect.top;
+      let pointerX = startX;
+      let pointerY = startY;
+      let active = false;
+      let preview: HTMLElement | null = null;
+      let frame = 0;
+      let target: IPointerDropTarget | null = null;
+      // Evita que o D&D nativo do navegador dispute o mesmo gesto
+      element.draggable = false;
+
+      const movePreview = (): void => {
+        if (preview) {
+          preview.style.transform = `translate(${pointerX - offsetX}px, ${pointerY - offsetY}px)`;
+        }
+      };
+
+      // Lista e posição sob o dedo (a cópia tem pointer-events: none)
+      const updateTarget = (): void => {
+        const listElement = document
+          .elementFromPoint(pointerX, pointerY)
+          ?.closest<HTMLElement>('[data-list-id]');
+        const listId = listElement?.dataset.listId;
+        const next: IPointerDropTarget | null =
+          listElement && listId
+            ? {
+                cardId,
+                listId,
+                laneKey: listElement.dataset.laneKey ?? null,
+                index: getCardInsertionIndex(listElement, pointerY, cardId),
+              }
+            : null;
+        if (
+          next?.listId !== target?.listId ||
+          next?.laneKey !== target?.laneKey ||
+          next?.index !== target?.index
+        ) {
+          target = next;
+          setDropTarget(next);
+        }
+      };
+
+      // Rola o quadro (horizontal) e a lista sob o dedo (vertical) perto das bordas
+      const autoScroll = (): void => {
+        const columns = document.querySelector('.kanban-columns-container');
+        if (columns) {
+          const bounds = columns.getBoundingClientRect();
+          columns.scrollLeft += getAutoScrollSpeed(
+            pointerX,
+            bounds.left,
+            bounds.right
+          );
+          // Com raias, o quadro também rola na vertical
+          if (columns.classList.contains('kanban-columns-container-lanes')) {
+            columns.scrollTop += getAutoScrollSpeed(
+              pointerY,
+              bounds.top,
+              bounds.bottom
+            );
+          }
+        }
+        const listCards = document
+          .elementFromPoint(pointerX, pointerY)
+          ?.closest('[data-list-id]')
+          ?.querySelector('.list-cards-container');
+        if (listCards) {
+          const bounds = listCards.getBoundingClientRect();
+          listCards.scrollTop += getAutoScrollSpeed(
+            pointerY,
+            bounds.top,
+            bounds.bottom
+          );
+        }
+        updateTarget();
+        frame = requestAnimationFrame(autoScroll);
+      };
+
+      const activate = (): void => {
+        active = true;
+        preview = element.cloneNode(true) as HTMLElement;
+        preview.classList.add('pointer-drag-preview');
+        preview.removeAttribute('data-card-id');
+        preview.style.width = `${rect.width}px`;
+        movePreview();
+        document.body.appendChild(preview);
+        element.classList.add('dragging-opacity');
+        navigator.vibrate?.(10);
+        optionsRef.current.onDragStateChange(cardId);
+        updateTarget();
+        frame = requestAnimationFrame(autoScroll);
+      };
+      const timer = window.setTimeout(activate, LONG_PRESS_MS);
+
+      const handlePointerMove = (event: PointerEvent): void => {
+        if (event.pointerId !== pointerId) return;
+        pointerX = event.clientX;
+        pointerY = event.clientY;
+        if (active) {
+          movePreview();
+        } else if (
+          Math.hypot(pointerX - startX, pointerY - startY) >
+          LONG_PRESS_TOLERANCE_PX
+        ) {
+          cleanup(); // O dedo se mexeu antes da pressão longa: é rolagem
+        }
+      };
+
+      // Com o cartão levantado, impede que o navegador role a página com o dedo
+      const handleTouchMove = (event: TouchEvent): void => {
+        if (active) event.preventDefault();
+      };
+
+      // Impede o menu de contexto da pressão longa
+      const handleContextMenu = (event: Event): void => {
+        event.preventDefault();
+      };
+
+      const handlePointerUp = (event: PointerEvent): void => {
+        if (event.pointerId !== pointerId) return;
+        const dropped = active ? target : null;
+        if (active) suppressNextClick();
+        cleanup();
+        if (dropped) {
+          optionsRef.current.onDrop(
+            dropped.cardId,
+            dropped.listId,
+            dropped.laneKey,
+            dropped.index
+          );
+        }
+      };
+
+      const handlePointerCancel = (event: PointerEvent): void => {
+        if (event.pointerId === pointerId) cleanup();
+      };
+
+      const cleanup = (): void => {
+        window.clearTimeout(timer);
+        cancelAnimationFrame(frame);
+        window.removeEventListener('pointermove', handlePointerMove);
+        window.removeEventListener('pointerup', handlePointerUp);
+        window.removeEventListener('pointercancel', handlePointerCancel);
+        window.removeEventListener('touchmove', handleTouchMove);
+        window.removeEventListener('contextmenu', handleContextMenu);
+        preview?.remove();
+        element.classList.remove('dragging-opacity');
+        element.draggable = true;
+        if (active) optionsRef.current.onDragStateChange(null);
+        setDropTarget(null);
+        cleanupRef.current = null;
+      };
+      cleanupRef.current = cleanup;
+
+      window.addEventListener('pointermove', handlePointerMove);
+      window.addEventListener('pointerup', handlePointerUp);
+      window.addEventListener('pointercancel', handlePointerCancel);
+      window.addEventListener('touchmove', handleTouchMove, { passive: false });
+      window.addEventListener('contextmenu', handleContextMenu);
+    },
+    []
+  );
+
+  return { dropTarget, startPointerDrag };
+};
+
+// --- SEÇÃO 4: COMPONENTES REUTILIZÁVEIS TIPADOS ---
+
+// Propriedades para o Componente Button
+interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+  children: React.ReactNode;
+  className?: string;
+  variant?: 'primary' | 'secondary' | 'destructive' | 'ghost';
+  // O restante das props são repassadas via React.ButtonHTMLAttributes
+}
+
+// Componente: Button (Botão Simples)
+const Button: React.FC<ButtonProps> = ({
+  children,
+  className = '',
+  variant = 'primary',
+  ...props
+}) => {
+  return (
+    <button
+      {...props}
+      className={`
+        button-base button-${variant} ${className}
+      `}
+    >
+      {children}
+    </button>
+  );
+};
+
+// Propriedades para o Componente MemberAvatar
+interface MemberAvatarProps {
+  member: IMember;
+  className?: string;
+}
+
+// Componente: MemberAvatar (Iniciais do Membro em um Círculo Colorido)
+const MemberAvatar: React.FC<MemberAvatarProps> = ({
+  member,
+  className = '',
+}) => {
+  return (
+    <span
+      title={member.name}
+      style={{ backgroundColor: `var(${member.colorVar})` }}
+      className={`
+        member-avatar ${className}
+      `}
+    >
+      {member.initials}
+    </span>
+  );
+};
+
+// Renderiza trechos inline; links abrem em nova aba sem acesso à janela de origem
+const renderMarkdownInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'strong':
+        return (
+          <strong key={index}>{renderMarkdownInline(node.children)}</strong>
+        );
+      case 'em':
+        return <em key={index}>{renderMarkdownInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderMarkdownInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            // Não abre o cartão nem inicia arraste ao clicar no link
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            {renderMarkdownInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+// Propriedades para o Componente MarkdownView
+interface MarkdownViewProps {
+  source: string;
+  // Sem callback, as caixas das tarefas ficam só para leitura
+  onToggleTask?: (line: number) => void;
+  maxBlocks?: number; // Mostra só os primeiros blocos (resumo no cartão)
+  className?: string;
+}
+
+// Componente: MarkdownView (Descrição em Markdown Renderizada com Segurança)
+const MarkdownView: React.FC<MarkdownViewProps> = ({
+  source,
+  onToggleTask,
+  maxBlocks,
+  className = '',
+}) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const visibleBlocks =
+    maxBlocks === undefined ? blocks : blocks.slice(0, maxBlocks);
+
+  const renderBlock = (block: MarkdownBlock, key: number): React.ReactNode => {
+    switch (block.type) {
+      case 'heading':
+        return React.createElement(
+          `h${block.level}`,
+          { key },
+          renderMarkdownInline(block.children)
+        );
+      case 'paragraph':
+        return <p key={key}>{renderMarkdownInline(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={key}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={key}>{block.children.map(renderBlock)}</blockquote>
+        );
+      case 'rule':
+        return <hr key={key} />;
+      case 'list': {
+        const items = block.items.map((item, index) => (
+          <li key={index} className={item.task ? 'markdown-task' : undefined}>
+            {item.task && (
+              <input
+                type="checkbox"
+                checked={item.task.done}
+                disabled={!onToggleTask}
+                onChange={() => item.task && onToggleTask?.(item.task.line)}
+                onClick={(e) => e.stopPropagation()}
+              />
+            )}
+            <span>{renderMarkdownInline(item.children)}</span>
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={key} start={block.start}>
+            {items}
+          </ol>
+        ) : (
+          <ul key={key}>{items}</ul>
+        );
+      }
+    }
+  };
+
+  return (
+    <div
+      className={`
+        markdown ${className}
+      `}
+    >
+      {visibleBlocks.map(renderBlock)}
+      {visibleBlocks.length < blocks.length && (
+        <p
+          className="
+            markdown-more
+          "
+        >
+          …
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Propriedades para o Componente CardCover
+interface CardCoverProps {
+  attachmentId: string;
+}
+
+// Componente: CardCover (Imagem de Capa no Topo do Cartão)
+const CardCover: React.FC<CardCoverProps> = ({ attachmentId }) => {
+  const url = useAttachmentUrl(attachmentId);
+  if (!url) return null;
+  return (
+    <img
+      src={url}
+      alt=""
+      draggable={false}
+      className="
+        card-cover
+      "
+    />
+  );
+};
+
+// Quantos avatares aparecem no cartão antes do contador "+N"
+const MAX_CARD_AVATARS = 3;
+
+// Blocos da descrição exibidos no cartão (o restante só no modal)
+const CARD_DESCRIPTION_BLOCKS = 3;
+
+const PRESENCE_MODE_LABELS: Record<PresenceMode, string> = {
+  viewing: 'vendo',
+  editing: 'editando',
+};
+
+// Descreve os colaboradores para leitores de tela (ex.: "Ana editando, Bruno vendo")
+const describePeers = (peers: ICollabPeer[]): string =>
+  peers
+    .map((peer) =>
+      peer.cardId
+        ? `${peer.member.name} ${PRESENCE_MODE_LABELS[peer.mode]}`
+        : peer.member.name
+    )
+    .join(', ');
+
+// Propriedades para o Componente PresenceAvatars
+interface PresenceAvatarsProps {
+  peers: ICollabPeer[];
+}
+
+// Componente: PresenceAvatars (Colaboradores Presentes, com Destaque para Quem Edita)
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ peers }) => {
+  return (
+    <span
+      aria-label={`Colaboradores: ${describePeers(peers)}`}
+      title={describePeers(peers)}
+      className="
+        avatar-stack presence-avatars
+      "
+    >
+      {peers.slice(0, MAX_CARD_AVATARS).map((peer) => (
+        <MemberAvatar
+          key={peer.clientId}
+          member={peer.member}
+          className={peer.cardId ? `presence-${peer.mode}` : ''}
+        />
+      ))}
+      {peers.length > MAX_CARD_AVATARS && (
+        <span
+          className="
+            member-avatar avatar-overflow
+          "
+        >
+          +{peers.length - MAX_CARD_AVATARS}
+        </span>
+      )}
+    </span>
+  );
+};
+
+// Propriedades para o Componente CardComponent
+interface CardComponentProps {
+  card: ICard;
+  labels: ILabel[]; // Etiquetas do quadro (as do cartão são resolvidas pelo ID)
+  now: number; // Referência para a situação do prazo
+  members: IMember[]; // Membros do quadro (os responsáveis são resolvidos pelo ID)
+  onEditClick: (card: ICard) => void;
+  onArchive: (cardId: string) => void;
+  listColorVar: string;
+  onDragStateChange: (cardId: string | null) => void;
+  onKeyDown: (card: ICard, e: React.KeyboardEvent<HTMLDivElement>) => void;
+  isPickedUp: boolean; // Levantado pelo teclado (movimento em andamento)
+  onPointerDown: (e: React.PointerEvent<HTMLElement>, cardId: string) => void;
+  peers: ICollabPeer[]; // Colaboradores com este cartão aberto
+}
+
+// Componente: CardComponent (Exibição de Cartão na Lista)
+const CardComponent: React.FC<CardComponentProps> = ({
+  card,
+  labels,
+  now,
+  members,
+  onEditClick,
+  onArchive,
+  listColorVar,
+  onDragStateChange,
+  onKeyDown,
+  isPickedUp,
+  onPointerDown,
+  peers,
+}) => {
+  const formattedDate = new Date(card.createdAt).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+  });
+  const cardLabels: ILabel[] = labels.filter((label) =>
+    card.labelIds.includes(label.id)
+  );
+  const dueStatus: DueStatus | null = card.due
+    ? getDueStatus(card.due, now)
+    : null;
+  const assignees: IMember[] = members.filter((member) =>
+    card.assigneeIds.includes(member.id)
+  );
+  const checklistProgress = getChecklistProgress(card.checklists);
+
+  // Tipagem para evento DragStart
+  const handleDragStart: DragEventHandler<HTMLDivElement> = (e) => {
+    e.dataTransfer.setData('cardId', card.id);
+    e.dataTransfer.effectAllowed = 'move';
+    (e.currentTarget as HTMLDivElement).classList.add('dragging-opacity');
+    onDragStateChange(card.id);
+  };
+
+  // Tipagem para evento DragEnd
+  const handleDragEnd: DragEventHandler<HTMLDivElement> = (e) => {
+    (e.currentTarget as HTMLDivElement).classList.remove('dragging-opacity');
+    onDragStateChange(null);
+  };
+
+  return (
+    <div
+      style={{ borderLeftColor: `var(${listColorVar})` }}
+      data-card-id={card.id}
+      draggable="true"
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onPointerDown={(e) => onPointerDown(e, card.id)}
+      onClick={() => onEditClick(card)}
+      onKeyDown={(e) => {
+        // Ignora teclas vindas de botões internos (ex.: lixeira)
+        if (e.target === e.currentTarget) onKeyDown(card, e);
+      }}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="cartão arrastável"
+      aria-describedby="card-move-instructions"
+      aria-pressed={isPickedUp}
+      className={`
+        card-component ${isPickedUp ? 'card-picked-up' : ''}
+      `}
+    >
+      {card.coverAttachmentId && (
+        <CardCover attachmentId={card.coverAttachmentId} />
+      )}
+      {cardLabels.length > 0 && (
+        <ul
+          aria-label="Etiquetas"
+          className="
+            card-labels
+          "
+        >
+          {cardLabels.map((label) => (
+            <li
+              key={label.id}
+              style={{ backgroundColor: `var(${label.colorVar})` }}
+              className="
+                label-chip
+              "
+            >
+              {label.name}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div
+        className="
+          card-header
+        "
+      >
+        <h3
+          className="
+            card-title
+          "
+        >
+          {card.title}
+        </h3>
+        <Button
+          variant="ghost"
+          onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+            e.stopPropagation();
+            onArchive(card.id);
+          }}
+          aria-label={`Arquivar cartão ${card.title}`}
+          title="Arquivar cartão"
+          className="
+            card-delete-btn
+          "
+        >
+          <Archive
+            className="
+              icon-sm color-red-400
+            "
+          />
+        </Button>
+      </div>
+      <MarkdownView
+        source={card.description}
+        maxBlocks={CARD_DESCRIPTION_BLOCKS}
+        className="card-description"
+      />
+      {checklistProgress.total > 0 && (
+        <div
+          className={`
+            card-checklist ${checklistProgress.done === checklistProgress.total ? 'card-checklist-complete' : ''}
+          `}
+        >
+          <span
+            aria-label={`Checklist: ${checklistProgress.done} de ${checklistProgress.total} itens concluídos`}
+            className="
+              card-checklist-count
+            "
+          >
+            <SquareCheckBig
+              className="
+                icon-xs
+              "
+            />
+            {checklistProgress.done}/{checklistProgress.total}
+          </span>
+          <span
+            className="
+              card-progress
+            "
+          >
+            <span
+              style={{
+                width: `${(checklistProgress.done / checklistProgress.total) * 100}%`,
+              }}
+              className="
+                card-progress-bar
+              "
+            ></span>
+          </span>
+        </div>
+      )}
+      <div
+        className="
+          card-footer
+        "
+      >
+        <span
+          style={{ color: `var(${listColorVar})` }}
+          className="
+            card-date
+          "
+        >
+          {formattedDate}
+        </span>
+        {card.priority && (
+          <span
+            aria-label={`Prioridade: ${PRIORITY_LABELS[card.priority]}`}
+            className={`
+              card-priority card-priority-${card.priority}
+            `}
+          >
+            {PRIORITY_LABELS[card.priority]}
+          </span>
+        )}
+        {card.due && dueStatus && (
+          <span
+            title={DUE_STATUS_LABELS[dueStatus]}
+            aria-label={`${DUE_STATUS_LABELS[dueStatus]}: ${formatDueDate(card.due)}`}
+            className={`
+              card-due card-due-${dueStatus}
+            `}
+          >
+            <Clock
+              className="
+                icon-xs
+              "
+            />
+            {formatDueDate(card.due)}
+          </span>
+        )}
+        {card.recurrence && (
+          <span
+            title={describeRecurrence(card.recurrence.rule)}
+            aria-label={`Repete: ${describeRecurrence(card.recurrence.rule)}`}
+            className="
+              card-recurrence
+            "
+          >
+            <Repeat
+              className="
+                icon-xs
+              "
+            />
+          </span>
+        )}
+        {assignees.length > 0 && (
+          <span
+            aria-label={`Responsáveis: ${assignees.map((member) => member.name).join(', ')}`}
+            className="
+              avatar-stack
+            "
+          >
+            {assignees.slice(0, MAX_CARD_AVATARS).map((member) => (
+              <MemberAvatar key={member.id} member={member} />
+            ))}
+            {assignees.length > MAX_CARD_AVATARS && (
+              <span
+                className="
+                  member-avatar avatar-overflow
+                "
+              >
+                +{assignees.length - MAX_CARD_AVATARS}
+              </span>
+            )}
+          </span>
+        )}
+        {peers.length > 0 && <PresenceAvatars peers={peers} />}
+      </div>
+    </div>
+  );
+};
+
+// Propriedades para o Componente ChecklistEditor
+interface ChecklistEditorProps {
+  checklist: IChecklist;
+  onChange: (checklist: IChecklist) => void;
+  onDelete: () => void;
+  onConvertItem: (item: IChecklistItem) => void;
+}
+
+// Componente: ChecklistEditor (Checklist Editável Dentro do CardModal)
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({
+  checklist,
+  onChange,
+  onDelete,
+  onConvertItem,
+}) => {
+  const [newItemText, setNewItemText] = useState<string>('');
+  const { done, total } = getChecklistProgress([checklist]);
+
+  const updateItems = (items: IChecklistItem[]): void => {
+    onChange({ ...checklist, items });
+  };
+
+  const handleAddItem = (): void => {
+    const text = newItemText.trim();
+    if (!text) return;
+    updateItems([
+      ...checklist.items,
+      { id: createId('item'), text, done: false },
+    ]);
+    setNewItemText('');
+  };
+
+  // Troca o item de lugar com o vizinho acima (-1) ou abaixo (+1)
+  const moveItem = (index: number, offset: -1 | 1): void => {
+    const items = [...checklist.items];
+    const [item] = items.splice(index, 1);
+    items.splice(index + offset, 0, item);
+    updateItems(items);
+  };
+
+  return (
+    <div
+      className="
+        checklist
+      "
+    >
+      <div
+        className="
+          checklist-header
+        "
+      >
+        <ListChecks
+          className="
+            icon-sm
+          "
+        />
+        <input
+          type="text"
+          value={checklist.title}
+          onChange={(e) => onChange({ ...checklist, title: e.target.value })}
+          aria-label="Nome do checklist"
+          className="
+            form-input checklist-title-input
+          "
+        />
+        <span
+          className="
+            checklist-count
+          "
+        >
+          {done}/{total}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onDelete}
+          aria-label={`Excluir checklist ${checklist.title}`}
+          title="Excluir checklist"
+        >
+          <Trash2
+            className="
+              icon-sm color-red-400
+            "
+          />
+        </Button>
+      </div>
+      <ul
+        className="
+          checklist-items
+        "
+      >
+        {checklist.items.map((item, index) => (
+          <li
+            key={item.id}
+            className="
+              checklist-item
+            "
+          >
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() =>
+                updateItems(
+                  checklist.items.map((other) =>
+                    other.id === item.id
+                      ? { ...other, done: !other.done }
+                      : other
+                  )
+                )
+              }
+              aria-label={`Concluir "${item.text}"`}
+            />
+            <input
+              type="text"
+              value={item.text}
+              onChange={(e) =>
+                updateItems(
+                  checklist.items.map((other) =>
+                    other.id === item.id
+                      ? { ...other, text: e.target.value }
+                      : other
+                  )
+                )
+              }
+              aria-label="Texto do item"
+              className={`
+                checklist-item-input ${item.done ? 'checklist-item-done' : ''}
+              `}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => moveItem(index, -1)}
+              disabled={index === 0}
+              aria-label={`Mover "${item.text}" para cima`}
+            >
+              <ChevronUp
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => moveItem(index, 1)}
+              disabled={index === checklist.items.length - 1}
+              aria-label={`Mover "${item.text}" para baixo`}
+            >
+              <ChevronDown
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => onConvertItem(item)}
+              disabled={!item.text.trim()}
+              aria-label={`Converter "${item.text}" em cartão`}
+              title="Converter em cartão"
+            >
+              <SquarePlus
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() =>
+                updateItems(
+                  checklist.items.filter((other) => other.id !== item.id)
+                )
+              }
+              aria-label={`Excluir "${item.text}"`}
+            >
+              <X
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <div
+        className="
+          checklist-add
+        "
+      >
+        <input
+          type="text"
+          placeholder="Novo item..."
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adiciona o item em vez de salvar o cartão
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddItem();
+            }
+          }}
+          aria-label={`Novo item em ${checklist.title}`}
+          className="
+            form-input
+          "
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={handleAddItem}
+          disabled={!newItemText.trim()}
+        >
+          Adicionar
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Propriedades para o Componente AttachmentItem
+interface AttachmentItemProps {
+  attachment: IAttachment;
+  isCover: boolean;
+  onToggleCover: () => void;
+  onDownload: () => void;
+  onDelete: () => void;
+}
+
+// Componente: AttachmentItem (Anexo com Miniatura e Ações)
+const AttachmentItem: React.FC<AttachmentItemProps> = ({
+  attachment,
+  isCover,
+  onToggleCover,
+  onDownload,
+  onDelete,
+}) => {
+  const isImage = isImageAttachment(attachment);
+  const url = useAttachmentUrl(isImage ? attachment.id : null);
+
+  return (
+    <li
+      className="
+        attachment
+      "
+    >
+      {url ? (
+        <img
+          src={url}
+          alt=""
+          className="
+            attachment-thumb
+          "
+        />
+      ) : (
+        <span
+          className="
+            attachment-thumb attachment-thumb-icon
+          "
+        >
+          <FileText
+            className="
+              icon-sm
+            "
+          />
+        </span>
+      )}
+      <div
+        className="
+          attachment-info
+        "
+      >
+        <span
+          title={attachment.name}
+          className="
+            attachment-name
+          "
+        >
+          {attachment.name}
+        </span>
+        <span
+          className="
+            attachment-meta
+          "
+        >
+          {formatFileSize(attachment.size)}
+          {isCover && ' · Capa'}
+        </span>
+      </div>
+      {isImage && (
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onToggleCover}
+          aria-pressed={isCover}
+          aria-label={
+            isCover
+              ? `Remover ${attachment.name} da capa`
+              : `Usar ${attachment.name} como capa`
+          }
+          title={isCover ? 'Remover capa' : 'Usar como capa'}
+        >
+          <ImageIcon
+            className={`
+              icon-sm ${isCover ? 'color-primary' : ''}
+            `}
+          />
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant="ghost"
+        onClick={onDownload}
+        aria-label={`Baixar ${attachment.name}`}
+        title="Baixar"
+      >
+        <Download
+          className="
+            icon-sm
+          "
+        />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        onClick={onDelete}
+        aria-label={`Excluir ${attachment.name}`}
+        title="Excluir anexo"
+      >
+        <Trash2
+          className="
+            icon-sm color-red-400
+          "
+        />
+      </Button>
+    </li>
+  );
+};
+
+// Propriedades para o Componente CommentItem
+interface CommentItemProps {
+  comment: IComment;
+  onUpdate: (text: string) => void;
+  onDelete: () => void;
+}
+
+// Componente: CommentItem (Comentário com Edição no Próprio Lugar)
+const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  onUpdate,
+  onDelete,
+}) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>(comment.text);
+
+  const handleSave = (): void => {
+    const text = draft.trim();
+    if (!text) return;
+    if (text !== comment.text) onUpdate(text);
+    setIsEditing(false);
+  };
+
+  return (
+    <li
+      className="
+        comment
+      "
+    >
+      <div
+        className="
+          comment-meta
+        "
+      >
+        <span
+          className="
+            comment-author
+          "
+        >
+          {comment.author}
+        </span>
+        <span>
+          {formatTimestamp(comment.createdAt)}
+          {comment.editedAt !== null && ' (editado)'}
+        </span>
+      </div>
+      {isEditing ? (
+        <>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={3}
+            aria-label="Editar comentário"
+            className="
+              form-textarea
+            "
+          />
+          <div
+            className="
+              comment-actions
+            "
+          >
+            <Button type="button" onClick={handleSave} disabled={!draft.trim()}>
+              Salvar
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => {
+                setDraft(comment.text);
+                setIsEditing(false);
+              }}
+            >
+              Cancelar
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p
+            className="
+              comment-text
+            "
+          >
+            {comment.text}
+          </p>
+          <div
+            className="
+              comment-actions
+            "
+          >
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setDraft(comment.text);
+                setIsEditing(true);
+              }}
+            >
+              <Pencil
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Editar
+            </Button>
+            <Button type="button" variant="ghost" onClick={onDelete}>
+              <Trash2
+                className="
+                  icon-sm color-red-400
+                "
+              />{' '}
+              Excluir
+            </Button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+};
+
+// Propriedades para o Componente CardModal
+interface CardModalProps {
+  card: ICard;
+  lists: IList[]; // Listas do quadro (destino das cópias recorrentes)
+  labels: ILabel[]; // Etiquetas do quadro
+  members: IMember[]; // Membros do quadro
+  lanes: ILane[]; // Raias manuais do quadro
+  onClose: () => void;
+  onSave: IKanbanStore['updateCard'];
+  onArchive: (cardId: string) => void;
+  onSaveAsTemplate: IKanbanStore['addTemplate'];
+  onCreateLabel: IKanbanStore['addLabel'];
+  onConvertChecklistItem: IKanbanStore['convertChecklistItem'];
+  currentAuthor: string; // Nome usado como autor dos novos comentários
+  onAddComment: IKanbanStore['addComment'];
+  onUpdateComment: IKanbanStore['updateComment'];
+  onDeleteComment: IKanbanStore['deleteComment'];
+  onAddAttachments: IKanbanStore['addAttachments'];
+  onDeleteAttachment: IKanbanStore['deleteAttachment'];
+  onSetCover: IKanbanStore['setCardCover'];
+  peers: ICollabPeer[]; // Colaboradores com este cartão aberto
+  onEditingChange: (isEditing: boolean) => void; // Foco entrou ou saiu do formulário
+}
+
+// Componente: CardModal (Modal de Edição de Cartão)
+const CardModal: React.FC<CardModalProps> = ({
+  card,
+  lists,
+  labels,
+  members,
+  lanes,
+  onClose,
+  onSave,
+  onArchive,
+  onSaveAsTemplate,
+  onCreateLabel,
+  onConvertChecklistItem,
+  currentAuthor,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
+  onAddAttachments,
+  onDeleteAttachment,
+  onSetCover,
+  peers,
+  onEditingChange,
+}) => {
+  const [title, setTitle] = useState<string>(card.title);
+  const [description, setDescription] = useState<string>(card.description);
+  const [descriptionTab, setDescriptionTab] = useState<'edit' | 'preview'>(
+    'edit'
+  );
+  const [labelIds, setLabelIds] = useState<string[]>(card.labelIds);
+  const [assigneeIds, setAssigneeIds] = useState<string[]>(card.assigneeIds);
+  const [checklists, setChecklists] = useState<IChecklist[]>(card.checklists);
+  const [dueDate, setDueDate] = useState<string>(
+    card.due ? toDateInputValue(card.due.at) : ''
+  );
+  const [dueTime, setDueTime] = useState<string>(
+    card.due?.hasTime ? toTimeInputValue(card.due.at) : ''
+  );
+  // Rascunho da repetição: cada tipo guarda seus campos, para alternar sem perdê-los
+  const rule = card.recurrence?.rule;
+  const [recurrenceKind, setRecurrenceKind] = useState<
+    RecurrenceRule['kind'] | 'none'
+  >(rule?.kind ?? 'none');
+  const [weekdays, setWeekdays] = useState<number[]>(
+    rule?.kind === 'weekly' ? rule.weekdays : [new Date().getDay()]
+  );
+  const [monthDay, setMonthDay] = useState<string>(
+    String(rule?.kind === 'monthly' ? rule.day : new Date().getDate())
+  );
+  const [intervalDays, setIntervalDays] = useState<string>(
+    String(rule?.kind === 'interval' ? rule.days : 7)
+  );
+  const [recurrenceListId, setRecurrenceListId] = useState<string>(
+    card.recurrence?.listId ?? card.listId
+  );
+  // '' = sem prioridade / sem raia
+  const [priority, setPriority] = useState<CardPriority | ''>(
+    card.priority ?? ''
+  );
+  const [laneId, setLaneId] = useState<string>(card.laneId ?? '');
+  // Nova etiqueta criada no próprio modal (já aplicada ao cartão)
+  const [newLabelName, setNewLabelName] = useState<string>('');
+  const [newLabelColor, setNewLabelColor] = useState<string>(
+    LIST_COLORS[0].colorVar
+  );
+  const [newComment, setNewComment] = useState<string>('');
+  // Arquivos sendo arrastados sobre a área de anexos
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+  const [attachmentMessage, setAttachmentMessage] = useState<string>('');
+  const [templateMessage, setTemplateMessage] = useState<string>('');
+
+  const toggleLabel = (labelId: string): void => {
+    setLabelIds((prev) =>
+      prev.includes(labelId)
+        ? prev.filter((id) => id !== labelId)
+        : [...prev, labelId]
+    );
+  };
+
+  const toggleWeekday = (weekday: number): void => {
+    setWeekdays((prev) =>
+      prev.includes(weekday)
+        ? prev.filter((other) => other !== weekday)
+        : [...prev, weekday]
+    );
+  };
+
+  // Repetição do formulário (null = não repete ou regra inválida)
+  const draftRecurrence: IRecurrence | null =
+    recurrenceKind === 'none'
+      ? null
+      : validateRecurrence({
+          rule: {
+            daily: { kind: 'daily' },
+            // Em ordem, para a regra não mudar só pela ordem dos cliques
+            weekly: {
+              kind: 'weekly',
+              weekdays: [...weekdays].sort((a, b) => a - b),
+            },
+            monthly: { kind: 'monthly', day: Number(monthDay) },
+            interval: { kind: 'interval', days: Number(intervalDays) },
+          }[recurrenceKind],
+          listId: recurrenceListId,
+          lastSpawnAt: getStartOfDay(Date.now()),
+        });
+  // Com a regra inválida o cartão não pode ser salvo
+  const recurrenceError: string =
+    recurrenceKind === 'none' || draftRecurrence
+      ? ''
+      : {
+          daily: '',
+          weekly: 'Escolha pelo menos um dia da semana.',
+          monthly: 'O dia do mês deve ser de 1 a 31.',
+          interval: 'O intervalo deve ser de 1 a 365 dias.',
+        }[recurrenceKind];
+
+  // Mudar a regra ou a lista recomeça a contagem a partir de hoje (hoje não gera
+  // cópia)
+  const getRecurrence = (): IRecurrence | null => {
+    if (!draftRecurrence) return null;
+    const isUnchanged =
+      card.recurrence !== null &&
+      card.recurrence.listId === draftRecurrence.listId &&
+      JSON.stringify(card.recurrence.rule) ===
+        JSON.stringify(draftRecurrence.rule);
+    return isUnchanged ? card.recurrence : draftRecurrence;
+  };
+
+  const toggleAssignee = (memberId: string): void => {
+    setAssigneeIds((prev) =>
+      prev.includes(memberId)
+        ? prev.filter((id) => id !== memberId)
+        : [...prev, memberId]
+    );
+  };
+
+  const handleAddChecklist = (): void => {
+    setChecklists((prev) => [
+      ...prev,
+      { id: createId('checklist'), title: 'Checklist', items: [] },
+    ]);
+  };
+
+  const updateChecklist = (checklist: IChecklist): void => {
+    setChecklists((prev) =>
+      prev.map((other) => (other.id === checklist.id ? checklist : other))
+    );
+  };
+
+  // A conversão é aplicada na hora; o item também sai do rascunho do modal
+  const handleConvertItem = (
+    checklist: IChecklist,
+    item: IChecklistItem
+  ): void => {
+    onConvertChecklistItem(card.id, checklist.id, item.id, item.text.trim());
+    updateChecklist({
+      ...checklist,
+      items: checklist.items.filter((other) => other.id !== item.id),
+    });
+  };
+
+  // Grava o conteúdo no IndexedDB e só então anexa os arquivos ao cartão
+  // (como os comentários, os anexos não dependem de salvar o formulário)
+  const handleAttachFiles = async (files: File[]): Promise<void> => {
+    const accepted = files.filter((file) => file.size <= MAX_ATTACHMENT_SIZE);
+    const rejected = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE);
+    setAttachmentMessage(
+      rejected.length > 0
+        ? `Acima do limite de ${formatFileSize(MAX_ATTACHMENT_SIZE)}: ${rejected.map((file) => file.name).join(', ')}.`
+        : ''
+    );
+    if (accepted.length === 0) return;
+    try {
+      const attachments = await Promise.all(
+        accepted.map(async (file): Promise<IAttachment> => {
+          const id = createId('attachment');
+          await putAttachmentBlob(id, file);
+          return {
+            id,
+            name: file.name,
+            type: file.type,
+            size: file.size,
+            createdAt: Date.now(),
+          };
+        })
+      );
+      onAddAttachments(card.id, attachments);
+    } catch {
+      setAttachmentMessage(
+        'Não foi possível guardar os arquivos: o armazenamento do navegador está indisponível ou cheio.'
+      );
+    }
+  };
+
+  // Tipagem para evento de input de arquivo
+  const handleAttachmentInput = (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): void => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Permite escolher o mesmo arquivo novamente
+    handleAttachFiles(files);
+  };
+
+  // Tipagem para evento Drop
+  const handleAttachmentDrop: DragEventHandler<HTMLDivElement> = (e) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    handleAttachFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDownloadAttachment = async (
+    attachment: IAttachment
+  ): Promise<void> => {
+    const blob = await getAttachmentBlob(attachment.id).catch(() => null);
+    if (!blob) {
+      setAttachmentMessage(
+        `O arquivo "${attachment.name}" não está disponível neste navegador.`
+      );
+      return;
+    }
+    downloadFile(attachment.name, blob, attachment.type);
+  };
+
+  // Comentários são gravados na hora, fora do rascunho do formulário
+  const handleAddComment = (): void => {
+    const text = newComment.trim();
+    if (!text) return;
+    onAddComment(card.id, currentAuthor, text);
+    setNewComment('');
+  };
+
+  // Histórico do mais recente para o mais antigo; cartões antigos não têm o
+  // evento de criação, então ele é reconstruído a partir de createdAt
+  const timeline = [...card.activity].sort((a, b) => b.at - a.at);
+  const hasCreatedEntry = card.activity.some(
+    (entry) => entry.type === 'created'
+  );
+
+  const handleCreateLabel = (): void => {
+    const name = newLabelName.trim();
+    if (!name) return;
+    const labelId = onCreateLabel(name, newLabelColor);
+    setLabelIds((prev) => [...prev, labelId]);
+    setNewLabelName('');
+  };
+
+  // Tipagem para evento de formulário
+  // Salva o que está no formulário (mesmo que o cartão não seja salvo) como modelo
+  const handleSaveAsTemplate = (): void => {
+    onSaveAsTemplate(
+      createTemplateFromCard({
+        ...card,
+        title: title.trim() || card.title,
+        description,
+        labelIds,
+        assigneeIds,
+        checklists,
+        due: dueDate ? (parseDueDate(dueDate, dueTime) ?? card.due) : null,
+      })
+    );
+    setTemplateMessage(
+      `Modelo "${title.trim() || card.title}" salvo. Edite-o em Configurações.`
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (recurrenceError) return;
+    // Mantém a ordem das etiquetas do quadro
+    onSave(card.id, title, description, {
+      labelIds: labels
+        .filter((label) => labelIds.includes(label.id))
+        .map((label) => label.id),
+      // Data vazia remove o prazo; valor inválido mantém o anterior
+      due: dueDate ? (parseDueDate(dueDate, dueTime) ?? card.due) : null,
+      assigneeIds: members
+        .filter((member) => assigneeIds.includes(member.id))
+        .map((member) => member.id),
+      checklists,
+      recurrence: getRecurrence(),
+      priority: priority || null,
+      // A raia pode ter sido excluída com o modal aberto
+      laneId: lanes.some((lane) => lane.id === laneId) ? laneId : null,
+    });
+    onClose();
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      className="
+        modal-backdrop
+      "
+    >
+      <div
+        onClick={(e: React.MouseEvent<HTMLDivElement>) => e.stopPropagation()}
+        className="
+          modal-content
+        "
+      >
+        <div
+          className="
+            modal-header
+          "
+        >
+          <h2
+            className="
+              modal-title
+            "
+          >
+            Editar Cartão
+          </h2>
+          {peers.length > 0 && <PresenceAvatars peers={peers} />}
+          <Button
+            variant="ghost"
+            onClick={onClose}
+            className="
+              modal-close-btn
+            "
+          >
+            <X
+              className="
+                icon-sm
+              "
+            />
+          </Button>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          onFocus={() => onEditingChange(true)}
+          onBlur={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget)) {
+              onEditingChange(false);
+            }
+          }}
+          className="
+            modal-form
+          "
+        >
+          <div>
+            <label
+              htmlFor="title"
+              className="
+                form-label
+              "
+            >
+              Título
+            </label>
+            <input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+              className="
+                form-input
+              "
+            />
+          </div>
+          <div>
+            <div
+              className="
+                description-header
+              "
+            >
+              <label
+                htmlFor="description"
+                className="
+                  form-label
+                "
+              >
+                Descrição
+              </label>
+              <div
+                role="tablist"
+                aria-label="Modo da descrição"
+                className="
+                  description-tabs
+                "
+              >
+                {(['edit', 'preview'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    role="tab"
+                    aria-selected={descriptionTab === tab}
+                    onClick={() => setDescriptionTab(tab)}
+                    className={`
+                      description-tab ${descriptionTab === tab ? 'description-tab-active' : ''}
+                    `}
+                  >
+                    {tab === 'edit' ? 'Editar' : 'Visualizar'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {descriptionTab === 'edit' ? (
+              <textarea
+                id="description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={6}
+                required
+                placeholder="Markdown: **negrito**, _itálico_, `código`, [link](https://...), - [ ] tarefa"
+                className="
+                  form-input form-textarea
+                "
+              ></textarea>
+            ) : (
+              <MarkdownView
+                source={description}
+                // Marcar uma tarefa altera o rascunho, salvo junto com o cartão
+                onToggleTask={(line) =>
+                  setDescription((prev) => toggleMarkdownTask(prev, line))
+                }
+                className="description-preview"
+              />
+            )}
+          </div>
+          <div>
+            <label
+              htmlFor="due-date"
+              className="
+                form-label
+              "
+            >
+              Prazo
+            </label>
+            <div
+              className="
+                due-inputs
+              "
+            >
+              <input
+                id="due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="
+                  form-input
+                "
+              />
+              <input
+                type="time"
+                value={dueTime}
+                onChange={(e) => setDueTime(e.target.value)}
+                disabled={!dueDate}
+                aria-label="Horário do prazo (opcional)"
+                className="
+                  form-input
+                "
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setDueDate('');
+                  setDueTime('');
+                }}
+                disabled={!dueDate}
+                aria-label="Remover prazo"
+                title="Remover prazo"
+              >
+                <X
+                  className="
+                    icon-sm
+                  "
+                />
+              </Button>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="card-priority"
+              className="
+                form-label
+              "
+            >
+              Prioridade
+            </label>
+            <select
+              id="card-priority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as CardPriority | '')}
+              className="
+                form-input import-select
+              "
+            >
+              <option value="">Sem prioridade</option>
+              {(Object.keys(PRIORITY_LABELS) as CardPriority[]).map(
+                (option) => (
+                  <option key={option} value={option}>
+                    {PRIORITY_LABELS[option]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+          {lanes.length > 0 && (
+            <div>
+              <label
+                htmlFor="card-lane"
+                className="
+                  form-label
+                "
+              >
+                Raia
+              </label>
+              <select
+                id="card-lane"
+                value={laneId}
+                onChange={(e) => setLaneId(e.target.value)}
+                className="
+                  form-input import-select
+                "
+              >
+                <option value="">Sem raia</option>
+                {lanes.map((lane) => (
+                  <option key={lane.id} value={lane.id}>
+                    {lane.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label
+              htmlFor="card-recurrence"
+              className="
+                form-label
+              "
+            >
+              Repetição
+            </label>
+            <div
+              className="
+                recurrence-inputs
+              "
+            >
+              <select
+                id="card-recurrence"
+                value={recurrenceKind}
+                onChange={(e) =>
+                  setRecurrenceKind(
+                    e.target.value as RecurrenceRule['kind'] | 'none'
+                  )
+                }
+                className="
+                  form-input import-select
+                "
+              >
+                <option value="none">Não repete</option>
+                {(
+                  Object.keys(
+                    RECURRENCE_KIND_LABELS
+                  ) as RecurrenceRule['kind'][]
+                ).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {RECURRENCE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              {recurrenceKind === 'monthly' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={monthDay}
+                  onChange={(e) => setMonthDay(e.target.value)}
+                  aria-label="Dia do mês"
+                  title="Dia do mês (em meses mais curtos, vale o último dia)"
+                  className="
+                    form-input recurrence-number-input
+                  "
+                />
+              )}
+              {recurrenceKind === 'interval' && (
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={intervalDays}
+                  onChange={(e) => setIntervalDays(e.target.value)}
+                  aria-label="Intervalo em dias"
+                  className="
+                    form-input recurrence-number-input
+                  "
+                />
+              )}
+            </div>
+            {recurrenceKind === 'weekly' && (
+              <div
+                role="group"
+                aria-label="Dias da semana"
+                className="
+                  label-picker
+                "
+              >
+                {WEEKDAY_LABELS.map((weekdayLabel, weekday) => (
+                  <button
+                    key={weekdayLabel}
+                    type="button"
+                    aria-pressed={weekdays.includes(weekday)}
+                    onClick={() => toggleWeekday(weekday)}
+                    className={`
+                      member-toggle ${weekdays.includes(weekday) ? 'member-toggle-active' : ''}
+                    `}
+                  >
+                    {weekdayLabel}
+                  </button>
+                ))}
+              </div>
+            )}
+            {recurrenceError && (
+              <p
+                role="alert"
+                className="
+                  recurrence-error
+                "
+              >
+                {recurrenceError}
+              </p>
+            )}
+            {recurrenceKind !== 'none' && (
+              <>
+                <label
+                  htmlFor="card-recurrence-list"
+                  className="
+                    settings-info-text
+                  "
+                >
+                  Criar as cópias na lista
+                </label>
+                <select
+                  id="card-recurrence-list"
+                  value={recurrenceListId}
+                  onChange={(e) => setRecurrenceListId(e.target.value)}
+                  className="
+                    form-input import-select
+                  "
+                >
+                  {lists.map((list) => (
+                    <option key={list.id} value={list.id}>
+                      {list.title}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+          <div>
+            <span
+              id="card-assignees-label"
+              className="
+                form-label
+              "
+            >
+              Responsáveis
+            </span>
+            {members.length === 0 ? (
+              <p
+                className="
+                  settings-info-text
+                "
+              >
+                Cadastre os membros do quadro em Configurações.
+              </p>
+            ) : (
+              <div
+                role="group"
+                aria-labelledby="card-assignees-label"
+                className="
+                  label-picker
+                "
+              >
+                {members.map((member) => (
+                  <button
+                    key={member.id}
+                    type="button"
+                    aria-pressed={assigneeIds.includes(member.id)}
+                    onClick={() => toggleAssignee(member.id)}
+                    className={`
+                      member-toggle ${assigneeIds.includes(member.id) ? 'member-toggle-active' : ''}
+                    `}
+                  >
+                    <MemberAvatar member={member} />
+                    {member.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <span
+              id="card-labels-label"
+              className="
+                form-label
+              "
+            >
+              Etiquetas
+            </span>
+            <div
+              role="group"
+              aria-labelledby="card-labels-label"
+              className="
+                label-picker
+              "
+            >
+              {labels.map((label) => (
+                <button
+                  key={label.id}
+                  type="button"
+                  aria-pressed={labelIds.includes(label.id)}
+                  onClick={() => toggleLabel(label.id)}
+                  style={{ backgroundColor: `var(${label.colorVar})` }}
+                  className={`
+                    label-chip label-toggle ${labelIds.includes(label.id) ? 'label-toggle-active' : ''}
+                  `}
+                >
+                  {label.name}
+                </button>
+              ))}
+            </div>
+            <div
+              className="
+                label-create
+              "
+            >
+              <input
+                type="text"
+                placeholder="Nova etiqueta..."
+                value={newLabelName}
+                onChange={(e) => setNewLabelName(e.target.value)}
+                onKeyDown={(e) => {
+                  // Enter cria a etiqueta em vez de salvar o cartão
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleCreateLabel();
+                  }
+                }}
+                aria-label="Nome da nova etiqueta"
+                className="
+                  form-input
+                "
+              />
+              {LIST_COLORS.map((color) => (
+                <button
+                  key={color.colorVar}
+                  type="button"
+                  aria-pressed={newLabelColor === color.colorVar}
+                  aria-label={`Cor: ${color.label}`}
+                  title={color.label}
+                  onClick={() => setNewLabelColor(color.colorVar)}
+                  style={{ backgroundColor: `var(${color.colorVar})` }}
+                  className={`
+                    list-color-swatch ${newLabelColor === color.colorVar ? 'list-color-swatch-active' : ''}
+                  `}
+                ></button>
+              ))}
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleCreateLabel}
+                disabled={!newLabelName.trim()}
+              >
+                <Plus
+                  className="
+                    icon-sm
+                  "
+                />{' '}
+                Criar
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <span
+              className="
+                form-label
+              "
+            >
+              Checklists
+            </span>
+            {checklists.map((checklist) => (
+              <ChecklistEditor
+                key={checklist.id}
+                checklist={checklist}
+                onChange={updateChecklist}
+                onDelete={() =>
+                  setChecklists((prev) =>
+                    prev.filter((other) => other.id !== checklist.id)
+                  )
+                }
+                onConvertItem={(item) => handleConvertItem(checklist, item)}
+              />
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleAddChecklist}
+            >
+              <Plus
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Checklist
+            </Button>
+          </div>
+
+          <div
+            className="
+              modal-actions
+            "
+          >
+            <Button type="submit" disabled={recurrenceError !== ''}>
+              Salvar Alterações
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={handleSaveAsTemplate}
+            >
+              <LayoutTemplate
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Salvar como modelo
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => {
+                onArchive(card.id);
+                onClose();
+              }}
+            >
+              <Archive
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Arquivar
+            </Button>
+          </div>
+          {templateMessage && (
+            <p
+              role="status"
+              className="
+                settings-info-text settings-message
+              "
+            >
+              {templateMessage}
+            </p>
+          )}
+        </form>
+
+        <section
+          className="
+            modal-section
+          "
+        >
+          <h3
+            className="
+              modal-section-title
+            "
+          >
+            <Paperclip
+              className="
+                icon-sm
+              "
+            />{' '}
+            Anexos ({card.attachments.length})
+          </h3>
+          <div
+            onDragOver={(e) => {
+              // Só aceita arquivos (não cartões ou texto arrastados)
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'copy';
+              setIsDraggingFiles(true);
+            }}
+            onDragLeave={(e) => {
+              if (e.currentTarget.contains(e.relatedTarget as Node | null))
+                return;
+              setIsDraggingFiles(false);
+            }}
+            onDrop={handleAttachmentDrop}
+            className={`
+              attachment-dropzone ${isDraggingFiles ? 'attachment-dropzone-active' : ''}
+            `}
+          >
+            <p>Arraste arquivos para cá ou</p>
+            <label
+              className="
+                button-base button-secondary
+              "
+            >
+              <Upload
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Escolher arquivos
+              <input
+                type="file"
+                multiple
+                onChange={handleAttachmentInput}
+                className="
+                  sr-only
+                "
+              />
+            </label>
+            <p
+              className="
+                attachment-limit
+              "
+            >
+              Até {formatFileSize(MAX_ATTACHMENT_SIZE)} por arquivo
+            </p>
+          </div>
+          {attachmentMessage && (
+            <p
+              role="alert"
+              className="
+                attachment-message
+              "
+            >
+              {attachmentMessage}
+            </p>
+          )}
+          <ul
+            className="
+              attachment-list
+            "
+          >
+            {card.attachments.map((attachment) => (
+              <AttachmentItem
+                key={attachment.id}
+                attachment={attachment}
+                isCover={card.coverAttachmentId === attachment.id}
+                onToggleCover={() =>
+                  onSetCover(
+                    card.id,
+                    card.coverAttachmentId === attachment.id
+                      ? null
+                      : attachment.id
+                  )
+                }
+                onDownload={() => handleDownloadAttachment(attachment)}
+                onDelete={() => onDeleteAttachment(card.id, attachment.id)}
+              />
+            ))}
+          </ul>
+        </section>
+
+        <section
+          className="
+            modal-section
+          "
+        >
+          <h3
+            className="
+              modal-section-title
+            "
+          >
+            <MessageSquare
+              className="
+                icon-sm
+              "
+            />{' '}
+            Comentários ({card.comments.length})
+          </h3>
+          <div
+            className="
+              comment-composer
+            "
+          >
+            <textarea
+              placeholder={`Comentar como ${currentAuthor}...`}
+              value={newComment}
+              onChange={(e) => setNewComment(e.target.value)}
+              rows={2}
+              aria-label="Novo comentário"
+              className="
+                form-textarea
+              "
+            />
+            <Button
+              type="button"
+              onClick={handleAddComment}
+              disabled={!newComment.trim()}
+            >
+              Comentar
+            </Button>
+          </div>
+          <ul
+            className="
+              comment-list
+            "
+          >
+            {card.comments.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                onUpdate={(text) => onUpdateComment(card.id, comment.id, text)}
+                onDelete={() => onDeleteComment(card.id, comment.id)}
+              />
+            ))}
+          </ul>
+        </section>
+
+        <section
+          className="
+            modal-section
+          "
+        >
+          <h3
+            className="
+              modal-section-title
+            "
+          >
+            <History
+              className="
+                icon-sm
+              "
+            />{' '}
+            Histórico
+          </h3>
+          <ol
+            className="
+              activity-timeline
+            "
+          >
+            {timeline.map((entry) => (
+              <li
+                key={entry.id}
+                className="
+                  activity-entry
+                "
+              >
+                <span>{describeActivity(entry)}</span>
+                <time dateTime={new Date(entry.at).toISOString()}>
+                  {formatTimestamp(entry.at)}
+                </time>
+              </li>
+            ))}
+            {!hasCreatedEntry && (
+              <li
+                className="
+                  activity-entry
+                "
+              >
+                <span>Criado</span>
+                <time dateTime={new Date(card.createdAt).toISOString()}>
+                  {formatTimestamp(card.createdAt)}
+                </time>
+              </li>
+            )}
+          </ol>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+// Propriedades para o Componente BoardSwitcher
+interface BoardSwitcherProps {
+  store: IKanbanStore;
+}
+
+// Componente: BoardSwitcher (Seletor e Gerenciamento de Quadros na Navbar)
+const BoardSwitcher: React.FC<BoardSwitcherProps> = ({ store }) => {
+  const {
+    boards,
+    activeBoard,
+    createBoard,
+    renameBoard,
+    duplicateBoard,
+    deleteBoard,
+    switchBoard,
+  } = store;
+  // Formulário inline: criação de um novo quadro ou renomeação do ativo
+  const [formMode, setFormMode] = useState<'create' | 'rename' | null>(null);
+  const [boardTitle, setBoardTitle] = useState<string>('');
+
+  const openForm = (mode: 'create' | 'rename'): void => {
+    setFormMode(mode);
+    setBoardTitle(mode === 'rename' ? activeBoard.title : '');
+  };
+
+  // Tipagem para evento de formulário
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const title = boardTitle.trim();
+    if (!title) return;
+    if (formMode === 'create') createBoard(title);
+    else renameBoard(activeBoard.id, title);
+    setFormMode(null);
+  };
+
+  const handleDelete = (): void => {
+    if (
+      window.confirm(
+        `Excluir o quadro "${activeBoard.title}" com todas as suas listas e cartões?`
+      )
+    ) {
+      deleteBoard(activeBoard.id);
+    }
+  };
+
+  if (formMode) {
+    return (
+      <form
+        onSubmit={handleSubmit}
+        className="
+          board-switcher
+        "
+      >
+        <input
+          type="text"
+          placeholder="Nome do quadro..."
+          value={boardTitle}
+          onChange={(e) => setBoardTitle(e.target.value)}
+          autoFocus
+          className="
+            form-input board-title-input
+          "
+        />
+        <Button type="submit" disabled={!boardTitle.trim()}>
+          {formMode === 'create' ? 'Criar' : 'Salvar'}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => setFormMode(null)}
+          aria-label="Cancelar"
+        >
+          <X
+            className="
+              icon-sm
+            "
+          />
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div
+      className="
+        board-switcher
+      "
+    >
+      <select
+        value={activeBoard.id}
+        onChange={(e) => switchBoard(e.target.value)}
+        aria-label="Quadro ativo"
+        className="
+          form-input board-select
+        "
+      >
+        {boards.map((board) => (
+          <option key={board.id} value={board.id}>
+            {board.title}
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="ghost"
+        onClick={() => openForm('create')}
+        aria-label="Novo quadro"
+        title="Novo quadro"
+      >
+        <Plus
+          className="
+            icon-sm
+          "
+        />
+      </Button>
+      <Button
+        variant="ghost"
+        onClick={() => openForm('rename')}
+        aria-label="Renomear quadro"
+        title="Renomear quadro"
+      >
+        <Pencil
+          className="
+            icon-sm
+          "
+        />
+      </Button>
+      <Button
+        variant="ghost"
+        onClick={() => duplicateBoard(activeBoard.id)}
+        aria-label="Duplicar quadro"
+        title="Duplicar quadro"
+      >
+        <Copy
+          className="
+            icon-sm
+          "
+        />
+      </Button>
+      <Button
+        variant="ghost"
+        onClick={handleDelete}
+        disabled={boards.length <= 1}
+        aria-label="Excluir quadro"
+        title="Excluir quadro"
+      >
+        <Trash2
+          className="
+            icon-sm
+          "
+        />
+      </Button>
+    </div>
+  );
+};
+
+// Propriedades para o Componente Toast
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number; // Em milissegundos
+}
+
+// Componente: Toast (Aviso Temporário com Ação Opcional)
+const Toast: React.FC<ToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 5000,
+}) => {
+  // Some sozinho após `duration`
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timer);
+  }, [onDismiss, duration]);
+
+  return (
+    <div
+      role="status"
+      className="
+        toast
+      "
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <Button
+          variant="ghost"
+          onClick={onAction}
+          className="
+            toast-action
+          "
+        >
+          {actionLabel}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        onClick={onDismiss}
+        aria-label="Fechar aviso"
+        className="
+          toast-close
+        "
+      >
+        <X
+          className="
+            icon-sm
+          "
+        />
+      </Button>
+    </div>
+  );
+};
+
+// Texto e dica de cada situação da sincronização
+const SYNC_STATUS_LABELS: Record<SyncStatus, { label: string; hint: string }> =
+  {
+    synced: {
+      label: 'Sincronizado',
+      hint: 'Todas as mudanças foram enviadas ao servidor',
+    },
+    pending: {
+      label: 'Pendente',
+      hint: 'Há mudanças na fila; elas serão enviadas assim que houver conexão',
+    },
+    error: {
+      label: 'Erro',
+      hint: 'O servidor não respondeu; as mudanças continuam na fila',
+    },
+  };
+
+// Propriedades para o Componente SyncStatusIndicator
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+}
+
+// Componente: SyncStatusIndicator (Situação da Sincronização na Navbar)
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
+  status,
+}) => {
+  const Icon =
+    status === 'synced' ? Cloud : status === 'pending' ? RefreshCw : CloudOff;
+  return (
+    <span
+      role="status"
+      title={SYNC_STATUS_LABELS[status].hint}
+      className={`
+        sync-status
+        sync-status-${status}
+      `}
+    >
+      <Icon
+        className="
+          icon-sm
+        "
+      />{' '}
+      {SYNC_STATUS_LABELS[status].label}
+    </span>
+  );
+};
+
+// Propriedades para o Componente CollabStatus
+interface CollabStatusProps {
+  isConnected: boolean;
+  peers: ICollabPeer[];
+}
+
+// Componente: CollabStatus (Conexão da Colaboração e Quem Está no Quadro)
+const CollabStatus: React.FC<CollabStatusProps> = ({ isConnected, peers }) => {
+  if (!isConnected) {
+    return (
+      <span
+        role="status"
+        title="Sem conexão com o servidor de colaboração; tentando de novo"
+        className="
+          collab-status collab-status-offline
+        "
+      >
+        <WifiOff
+          className="
+            icon-sm
+          "
+        />{' '}
+        Offline
+      </span>
+    );
+  }
+  return (
+    <span
+      role="status"
+      className="
+        collab-status
+      "
+    >
+      <Users
+        className="
+          icon-sm
+        "
+      />
+      {peers.length > 0 ? (
+        <PresenceAvatars peers={peers} />
+      ) : (
+        <span>Só você</span>
+      )}
+    </span>
+  );
+};
+
+// Modelo vazio, ponto de partida de um modelo criado nas configurações
+const EMPTY_TEMPLATE: CardTemplateDraft = {
+  name: '',
+  titlePattern: '',
+  description: '',
+  labelIds: [],
+  assigneeIds: [],
+  checklists: [],
+  dueInDays: null,
+  listId: null,
+};
+
+// Propriedades para o Componente TemplateEditor
+interface TemplateEditorProps {
+  initial: CardTemplateDraft;
+  lists: IList[];
+  labels: ILabel[];
+  members: IMember[];
+  onSave: (template: CardTemplateDraft) => void;
+  onCancel: () => void;
+}
+
+// Componente: TemplateEditor (Formulário de um Modelo de Cartão)
+const TemplateEditor: React.FC<TemplateEditorProps> = ({
+  initial,
+  lists,
+  labels,
+  members,
+  onSave,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState<CardTemplateDraft>(initial);
+  // Rascunho do prazo em dias ('' = sem prazo)
+  const [dueDraft, setDueDraft] = useState<string>(
+    initial.dueInDays === null ? '' : String(initial.dueInDays)
+  );
+  const dueInDays = dueDraft.trim() ? Number(dueDraft) : null;
+  const isValid =
+    draft.name.trim() !== '' &&
+    draft.titlePattern.trim() !== '' &&
+    (dueInDays === null || (Number.isInteger(dueInDays) && dueInDays >= 0));
+
+  const toggleId = (field: 'labelIds' | 'assigneeIds', id: string): void => {
+    setDraft((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(id)
+        ? prev[field].filter((other) => other !== id)
+        : [...prev[field], id],
+    }));
+  };
+
+  // Tipagem para evento de formulário
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      titlePattern: draft.titlePattern.trim(),
+      // Mantém a ordem das etiquetas e dos membros do quadro
+      labelIds: labels
+        .filter((label) => draft.labelIds.includes(label.id))
+        .map((label) => label.id),
+      assigneeIds: members
+        .filter((member) => draft.assigneeIds.includes(member.id))
+        .map((member) => member.id),
+      dueInDays,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="
+        template-editor
+      "
+    >
+      <input
+        type="text"
+        placeholder="Nome do modelo (ex.: Relato de bug)"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        autoFocus
+        aria-label="Nome do modelo"
+        className="
+          form-input
+        "
+      />
+      <input
+        type="text"
+        placeholder="Título dos cartões (ex.: Bug: {data})"
+        value={draft.titlePattern}
+        onChange={(e) => setDraft({ ...draft, titlePattern: e.target.value })}
+        aria-label="Título dos cartões; {data} e {lista} são substituídos"
+        className="
+          form-input
+        "
+      />
+      <textarea
+        placeholder="Descrição (Markdown)"
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        rows={5}
+        aria-label="Descrição dos cartões"
+        className="
+          form-input form-textarea
+        "
+      ></textarea>
+      <div
+        className="
+          settings-backup-actions
+        "
+      >
+        <label>
+          Lista:
+          <select
+            value={draft.listId ?? ''}
+            onChange={(e) =>
+              setDraft({ ...draft, listId: e.target.value || null })
+            }
+            className="
+              form-input import-select
+            "
+          >
+            <option value="">Onde o cartão for criado</option>
+            {lists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Prazo em dias:
+          <input
+            type="number"
+            min={0}
+            step={1}
+            placeholder="Sem prazo"
+            value={dueDraft}
+            onChange={(e) => setDueDraft(e.target.value)}
+            className="
+              form-input import-select template-due-input
+            "
+          />
+        </label>
+      </div>
+      {labels.length > 0 && (
+        <div
+          role="group"
+          aria-label="Etiquetas dos cartões"
+          className="
+            label-picker
+          "
+        >
+          {labels.map((label) => (
+            <button
+              key={label.id}
+              type="button"
+              aria-pressed={draft.labelIds.includes(label.id)}
+              onClick={() => toggleId('labelIds', label.id)}
+              style={{ backgroundColor: `var(${label.colorVar})` }}
+              className={`
+                label-chip label-toggle ${draft.labelIds.includes(label.id) ? 'label-toggle-active' : ''}
+              `}
+            >
+              {label.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {members.length > 0 && (
+        <div
+          role="group"
+          aria-label="Responsáveis pelos cartões"
+          className="
+            label-picker
+          "
+        >
+          {members.map((member) => (
+            <button
+              key={member.id}
+              type="button"
+              aria-pressed={draft.assigneeIds.includes(member.id)}
+              onClick={() => toggleId('assigneeIds', member.id)}
+              className={`
+                member-toggle ${draft.assigneeIds.includes(member.id) ? 'member-toggle-active' : ''}
+              `}
+            >
+              <MemberAvatar member={member} />
+              {member.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {/* Checklists vêm de "Salvar como modelo" no cartão; aqui só podem sair */}
+      {draft.checklists.map((checklist) => (
+        <div
+          key={checklist.id}
+          className="
+            settings-label-row
+          "
+        >
+          <SquareCheckBig
+            className="
+              icon-sm
+            "
+          />
+          <span>
+            {checklist.title} ({checklist.items.length} item(ns))
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                checklists: draft.checklists.filter(
+                  (other) => other.id !== checklist.id
+                ),
+              })
+            }
+            aria-label={`Remover checklist ${checklist.title}`}
+            title="Remover checklist"
+          >
+            <X
+              className="
+                icon-sm
+              "
+            />
+          </Button>
+        </div>
+      ))}
+      <div
+        className="
+          settings-backup-actions
+        "
+      >
+        <Button type="submit" disabled={!isValid}>
+          Salvar modelo
+        </Button>
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          Cancelar
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// --- SEÇÃO 5: COMPONENTES DE PÁGINA TIPADOS (LISTA E BOARD) ---
+
+// Propriedades para o Componente ListView
+interface ListViewProps {
+  list: IList;
+  cards: ICard[];
+  labels: ILabel[]; // Etiquetas do quadro, exibidas nos cartões
+  now: number;
+  members: IMember[];
+  sortListByDueDate: IKanbanStore['sortListByDueDate'];
+  addCard: IKanbanStore['addCard'];
+  templates: ICardTemplate[]; // Modelos oferecidos ao adicionar um cartão
+  addCardFromTemplate: IKanbanStore['addCardFromTemplate'];
+  // Cartão solto na lista; o índice é entre os cartões visíveis (sem o arrastado)
+  onCardDrop: (cardId: string, listId: string, visibleIndex: number) => void;
+  onEditCard: (card: ICard) => void;
+  archiveCard: IKanbanStore['archiveCard'];
+  draggedCardId: string | null;
+  onCardDragStateChange: (cardId: string | null) => void;
+  lists: IList[]; // Todas as listas do quadro (destinos ao excluir esta)
+  totalCardCount: number; // Cartões da lista, ignorando o filtro de busca
+  updateList: IKanbanStore['updateList'];
+  archiveList: IKanbanStore['archiveList'];
+  isDraggingList: boolean; // Esta lista está sendo arrastada
+  onListDragStateChange: (listId: string | null) => void;
+  onCardKeyDown: CardComponentProps['onKeyDown'];
+  pickedUpCardId: string | null;
+  onCardPointerDown: CardComponentProps['onPointerDown'];
+  pointerDropIndex: number | null; // Destino do arraste por toque nesta lista
+  collabPeers: ICollabPeer[]; // Colaboradores no quadro (mostrados nos cartões abertos)
+  // Com raias, cada lista aparece como cabeçalho (sem os cartões) e como uma
+  // célula (só os cartões) em cada raia
+  part: 'column' | 'header' | 'lane';
+  laneKey: string | null; // Raia da célula
+}
+
+// Componente: ListView (Coluna/Lista do Kanban)
+const ListView: React.FC<ListViewProps> = ({
+  list,
+  cards,
+  labels,
+  now,
+  members,
+  sortListByDueDate,
+  addCard,
+  templates,
+  addCardFromTemplate,
+  onCardDrop,
+  onEditCard,
+  archiveCard,
+  draggedCardId,
+  onCardDragStateChange,
+  lists,
+  totalCardCount,
+  updateList,
+  archiveList,
+  isDraggingList,
+  onListDragStateChange,
+  onCardKeyDown,
+  pickedUpCardId,
+  onCardPointerDown,
+  pointerDropIndex,
+  collabPeers,
+  part,
+  laneKey,
+}) => {
+  const [newCardTitle, setNewCardTitle] = useState<string>('');
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  // Modelo escolhido para o novo cartão ('' = cartão em branco)
+  const [templateId, setTemplateId] = useState<string>('');
+  // Menu do cabeçalho: fechado, aberto, editando o limite WIP ou confirmando o arquivamento
+  const [menuMode, setMenuMode] = useState<
+    'closed' | 'open' | 'wip' | 'archive'
+  >('closed');
+  const [isRenaming, setIsRenaming] = useState<boolean>(false);
+  const [renameTitle, setRenameTitle] = useState<string>(list.title);
+  // Destino dos cartões ao arquivar a lista ('' = arquivar os cartões junto)
+  const [archiveTargetId, setArchiveTargetId] = useState<string>('');
+  // Rascunho do limite WIP ('' = sem limite)
+  const [wipMaxDraft, setWipMaxDraft] = useState<string>('');
+  const [wipModeDraft, setWipModeDraft] = useState<WipLimitMode>('strict');
+  const menuRef = useRef<HTMLDivElement>(null);
+  // O limite vale para todos os cartões da lista, não só os visíveis na busca
+  const isOverWipLimit =
+    list.wipLimit !== null && totalCardCount > list.wipLimit.max;
+
+  const otherLists: IList[] = lists
+    .filter((other) => other.id !== list.id)
+    .sort((a, b) => a.order - b.order);
+
+  // Fecha o menu ao clicar fora dele
+  useEffect(() => {
+    if (menuMode === 'closed') return;
+    const handleMouseDown = (e: MouseEvent): void => {
+      if (!menuRef.current?.contains(e.target as Node)) setMenuMode('closed');
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [menuMode]);
+
+  // Tipagem para evento de formulário
+  const handleRename = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const title = renameTitle.trim();
+    if (title && title !== list.title) updateList(list.id, { title });
+    setIsRenaming(false);
+  };
+
+  // Tipagem para evento de formulário
+  const handleSaveWipLimit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const max = Number(wipMaxDraft);
+    if (wipMaxDraft.trim() && (!Number.isInteger(max) || max <= 0)) return;
+    updateList(list.id, {
+      wipLimit: wipMaxDraft.trim() ? { max, mode: wipModeDraft } : null,
+    });
+    setMenuMode('closed');
+  };
+
+  const handleConfirmArchive = (): void => {
+    archiveList(list.id, archiveTargetId || null);
+    setMenuMode('closed');
+  };
+
+  // Tipagem para eventos de arraste da coluna (pelo cabeçalho)
+  const handleHeaderDragStart: DragEventHandler<HTMLDivElement> = (e) => {
+    e.dataTransfer.setData('listId', list.id);
+    e.dataTransfer.effectAllowed = 'move';
+    onListDragStateChange(list.id);
+  };
+
+  const handleHeaderDragEnd: DragEventHandler<HTMLDivElement> = () => {
+    onListDragStateChange(null);
+  };
+  // Índice (entre os cartões visíveis, exceto o arrastado) onde o placeholder aparece
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const orderedCards: ICard[] = sortCardsByPosition(cards);
+  const siblingCards: ICard[] = orderedCards.filter(
+    (card) => card.id !== draggedCardId
+  );
+  // Sem arraste ativo, nenhum placeholder residual é exibido
+  const placeholderIndex: number | null = draggedCardId
+    ? (pointerDropIndex ?? dropIndex)
+    : null;
+
+  // Título da lista onde o modelo cria cartões (ele pode apontar para outra lista)
+  const getTemplateListTitle = (template: ICardTemplate): string =>
+    lists.find(
+      (other) => other.id === getTemplateListId(template, lists, list.id)
+    )?.title ?? list.title;
+
+  // Escolher um modelo preenche o título, que ainda pode ser editado
+  const handleTemplateChange = (id: string): void => {
+    setTemplateId(id);
+    const template = templates.find((other) => other.id === id);
+    setNewCardTitle(
+      template
+        ? renderTemplateTitle(
+            template.titlePattern,
+            getTemplateListTitle(template),
+            Date.now()
+          )
+        : ''
+    );
+  };
+
+  // Tipagem para evento de formulário
+  const handleAddCard = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (newCardTitle.trim()) {
+      if (templates.some((template) => template.id === templateId)) {
+        addCardFromTemplate(templateId, list.id, newCardTitle.trim());
+      } else {
+        addCard(list.id, newCardTitle.trim(), 'Adicione uma descrição aqui.');
+      }
+      setNewCardTitle('');
+      setTemplateId('');
+      setIsAdding(false);
+    }
+  };
+
+  // Calcula o índice de inserção comparando o cursor com o meio de cada cartão irmão
+  const getDropIndex = (container: HTMLDivElement, clientY: number): number =>
+    getCardInsertionIndex(container, clientY, draggedCardId);
+
+  // Tipagem para evento DragOver
+  const handleDragOver: DragEventHandler<HTMLDivElement> = (e) => {
+    if (!draggedCardId) return; // Arraste de coluna: tratado pelo BoardView
+    e.preventDefault(); // Necessário para permitir o drop
+    (e.currentTarget as HTMLDivElement).classList.add('drag-over-list');
+    e.dataTransfer.dropEffect = 'move';
+    const nextIndex = getDropIndex(e.currentTarget, e.clientY);
+    if (nextIndex !== dropIndex) setDropIndex(nextIndex);
+  };
+
+  // Tipagem para evento DragLeave
+  const handleDragLeave: DragEventHandler<HTMLDivElement> = (e) => {
+    // Ignora a saída para elementos filhos da própria lista
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    (e.currentTarget as HTMLDivElement).classList.remove('drag-over-list');
+    setDropIndex(null);
+  };
+
+  // Tipagem para evento Drop
+  const handleDrop: DragEventHandler<HTMLDivElement> = (e) => {
+    if (!draggedCardId) return;
+    e.preventDefault();
+    (e.currentTarget as HTMLDivElement).classList.remove('drag-over-list');
+    const cardId = e.dataTransfer.getData('cardId');
+    const visibleIndex = dropIndex ?? getDropIndex(e.currentTarget, e.clientY);
+    setDropIndex(null);
+    if (cardId) onCardDrop(cardId, list.id, visibleIndex);
+  };
+
+  // Placeholder exibido no ponto de inserção durante o arraste
+  const dropPlaceholder = (
+    <div
+      className="
+        card-drop-placeholder
+      "
+    ></div>
+  );
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      data-list-id={list.id}
+      data-lane-key={laneKey ?? undefined}
+      className={`
+        list-view list-view-${part} ${isDraggingList ? 'dragging-opacity' : ''} ${pointerDropIndex !== null ? 'drag-over-list' : ''}
+      `}
+    >
+      {part !== 'lane' && (
+        <div
+          // O cabeçalho é a alça de arraste da coluna (desligada durante edição)
+          draggable={!isRenaming && menuMode === 'closed'}
+          onDragStart={handleHeaderDragStart}
+          onDragEnd={handleHeaderDragEnd}
+          className={`
+          list-header ${isOverWipLimit ? 'list-header-wip-exceeded' : ''}
+        `}
+        >
+          {isRenaming ? (
+            <form
+              onSubmit={handleRename}
+              className="
+              list-rename-form
+            "
+            >
+              <input
+                type="text"
+                value={renameTitle}
+                onChange={(e) => setRenameTitle(e.target.value)}
+                onBlur={() => setIsRenaming(false)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setIsRenaming(false);
+                }}
+                autoFocus
+                aria-label="Título da lista"
+                className="
+                form-input list-rename-input
+              "
+              />
+            </form>
+          ) : (
+            <h2
+              className="
+              list-title
+            "
+            >
+              <span
+                style={{ backgroundColor: `var(${list.colorVar})` }}
+                className="
+                list-color-dot
+              "
+              ></span>
+              {list.title}
+              <span
+                className="
+                list-count
+              "
+              >
+                ({cards.length})
+              </span>
+              {list.wipLimit && (
+                <span
+                  title={`${totalCardCount} de no máximo ${list.wipLimit.max} cartões (${WIP_MODE_LABELS[list.wipLimit.mode]})`}
+                  className="
+                  list-wip-limit
+                "
+                >
+                  {isOverWipLimit && (
+                    <TriangleAlert
+                      className="
+                      icon-xs
+                    "
+                    />
+                  )}
+                  WIP {list.wipLimit.max}
+                </span>
+              )}
+            </h2>
+          )}
+          <div
+            ref={menuRef}
+            className="
+            list-header-actions
+          "
+          >
+            <Button
+              variant="ghost"
+              onClick={() =>
+                setMenuMode((prev) => (prev === 'closed' ? 'open' : 'closed'))
+              }
+              aria-label="Opções da lista"
+              aria-expanded={menuMode !== 'closed'}
+              className="
+              list-add-btn
+            "
+            >
+              <MoreHorizontal
+                className="
+                icon-sm
+              "
+              />
+            </Button>
+            {menuMode === 'open' && (
+              <div
+                role="menu"
+                className="
+                list-menu
+              "
+              >
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => {
+                    setRenameTitle(list.title);
+                    setIsRenaming(true);
+                    setMenuMode('closed');
+                  }}
+                  className="
+                  list-menu-item
+                "
+                >
+                  <Pencil
+                    className="
+                    icon-sm
+                  "
+                  />{' '}
+                  Renomear
+                </button>
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => {
+                    sortListByDueDate(list.id);
+                    setMenuMode('closed');
+                  }}
+                  className="
+                  list-menu-item
+                "
+                >
+                  <ArrowUpDown
+                    className="
+                    icon-sm
+                  "
+                  />{' '}
+                  Ordenar por prazo
+                </button>
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => {
+                    setWipMaxDraft(
+                      list.wipLimit ? String(list.wipLimit.max) : ''
+                    );
+                    setWipModeDraft(list.wipLimit?.mode ?? 'strict');
+                    setMenuMode('wip');
+                  }}
+                  className="
+                  list-menu-item
+                "
+                >
+                  <TriangleAlert
+                    className="
+                    icon-sm
+                  "
+                  />{' '}
+                  Limite WIP
+                </button>
+                <div
+                  className="
+                  list-menu-colors
+                "
+                >
+                  {LIST_COLORS.map((color) => (
+                    <button
+                      key={color.colorVar}
+                      type="button"
+                      role="menuitemradio"
+                      aria-checked={list.colorVar === color.colorVar}
+                      aria-label={`Cor: ${color.label}`}
+                      title={color.label}
+                      onClick={() =>
+                        updateList(list.id, { colorVar: color.colorVar })
+                      }
+                      style={{ backgroundColor: `var(${color.colorVar})` }}
+                      className={`
+                      list-color-swatch ${list.colorVar === color.colorVar ? 'list-color-swatch-active' : ''}
+                    `}
+                    ></button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => {
+                    setArchiveTargetId('');
+                    setMenuMode('archive');
+                  }}
+                  className="
+                  list-menu-item list-menu-item-destructive
+                "
+                >
+                  <Archive
+                    className="
+                    icon-sm
+                  "
+                  />{' '}
+                  Arquivar lista
+                </button>
+              </div>
+            )}
+            {menuMode === 'wip' && (
+              <form
+                role="dialog"
+                aria-label={`Limite WIP da lista ${list.title}`}
+                onSubmit={handleSaveWipLimit}
+                className="
+                list-menu
+              "
+              >
+                <p
+                  className="
+                  list-menu-text
+                "
+                >
+                  Máximo de cartões em "{list.title}" (vazio = sem limite)
+                </p>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={wipMaxDraft}
+                  onChange={(e) => setWipMaxDraft(e.target.value)}
+                  autoFocus
+                  aria-label="Máximo de cartões"
+                  className="
+                  form-input
+                "
+                />
+                <select
+                  value={wipModeDraft}
+                  onChange={(e) =>
+                    setWipModeDraft(e.target.value as WipLimitMode)
+                  }
+                  aria-label="Ao ultrapassar o limite"
+                  className="
+                  form-input
+                "
+                >
+                  {(Object.keys(WIP_MODE_LABELS) as WipLimitMode[]).map(
+                    (mode) => (
+                      <option key={mode} value={mode}>
+                        {WIP_MODE_LABELS[mode]}
+                      </option>
+                    )
+                  )}
+                </select>
+                <div
+                  className="
+                  new-card-actions
+                "
+                >
+                  <Button type="submit">Salvar</Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => setMenuMode('closed')}
+                  >
+                    Cancelar
+                  </Button>
+                </div>
+              </form>
+            )}
+            {menuMode === 'archive' && (
+              <div
+                role="dialog"
+                aria-label={`Arquivar a lista ${list.title}`}
+                className="
+                list-menu
+              "
+              >
+                <p
+                  className="
+                  list-menu-text
+                "
+                >
+                  {totalCardCount === 0
+                    ? `Arquivar a lista "${list.title}"?`
+                    : `A lista "${list.title}" tem ${totalCardCount} cartão(ões). O que fazer com eles?`}
+                </p>
+                {totalCardCount > 0 && (
+                  <select
+                    value={archiveTargetId}
+                    onChange={(e) => setArchiveTargetId(e.target.value)}
+                    aria-label="Destino dos cartões"
+                    className="
+                    form-input
+                  "
+                  >
+                    <option value="">Arquivar os cartões junto</option>
+                    {otherLists.map((other) => (
+                      <option key={other.id} value={other.id}>
+                        Mover para "{other.title}"
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <div
+                  className="
+                  new-card-actions
+                "
+                >
+                  <Button variant="destructive" onClick={handleConfirmArchive}>
+                    Arquivar
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => setMenuMode('closed')}
+                  >
+                    Cancelar
+                  </Button>
+                </div>
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              onClick={() => setIsAdding((prev) => !prev)}
+              aria-label="Adicionar cartão"
+              className="
+              list-add-btn
+            "
+            >
+              <Plus
+                className="
+                icon-sm
+              "
+              />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {part !== 'header' && (
+        <div
+          className="
+          list-cards-container custom-scrollbar
+        "
+        >
+          {orderedCards.map((card) => (
+            <React.Fragment key={card.id}>
+              {placeholderIndex !== null &&
+                siblingCards[placeholderIndex]?.id === card.id &&
+                dropPlaceholder}
+              <CardComponent
+                card={card}
+                labels={labels}
+                now={now}
+                members={members}
+                listColorVar={list.colorVar}
+                onEditClick={onEditCard}
+                onArchive={archiveCard}
+                onDragStateChange={onCardDragStateChange}
+                onKeyDown={onCardKeyDown}
+                isPickedUp={pickedUpCardId === card.id}
+                onPointerDown={onCardPointerDown}
+                peers={collabPeers.filter((peer) => peer.cardId === card.id)}
+              />
+            </React.Fragment>
+          ))}
+          {placeholderIndex !== null &&
+            placeholderIndex >= siblingCards.length &&
+            dropPlaceholder}
+        </div>
+      )}
+
+      {isAdding && part !== 'lane' && (
+        <form
+          onSubmit={handleAddCard}
+          className="
+            new-card-form
+          "
+        >
+          {templates.length > 0 && (
+            <select
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              aria-label="Modelo do cartão"
+              className="
+                form-input new-card-input
+              "
+            >
+              <option value="">Cartão em branco</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {getTemplateListId(template, lists, list.id) === list.id
+                    ? template.name
+                    : `${template.name} (em "${getTemplateListTitle(template)}")`}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="text"
+            placeholder="Título do novo cartão..."
+            value={newCardTitle}
+            onChange={(e) => setNewCardTitle(e.target.value)}
+            autoFocus
+            className="
+              form-input new-card-input
+            "
+          />
+          <div
+            className="
+              new-card-actions
+            "
+          >
+            <Button type="submit">Adicionar</Button>
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsAdding(false)}
+            >
+              Cancelar
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// Propriedades para o Componente BoardView
+interface BoardViewProps {
+  store: IKanbanStore;
+}
+
+// Componente: BoardView (Quadro Principal)
+const BoardView: React.FC<BoardViewProps> = ({ store }) => {
+  const {
+    lists,
+    cards,
+    labels,
+    addLabel,
+    sortListByDueDate,
+    convertChecklistItem,
+    addComment,
+    updateComment,
+    deleteComment,
+    addAttachments,
+    deleteAttachment,
+    setCardCover,
+    members,
+    currentMemberId,
+    reorderCards,
+    addList,
+    searchTerm,
+    setSearchTerm,
+    updateCard, // Adicionei para usar no modal
+    archiveCard, // Adicionei para usar no modal
+    addCard, // Adicionei para passar para ListView
+    templates,
+    addCardFromTemplate,
+    addTemplate,
+    restoreArchivedItem,
+    updateList,
+    archiveList,
+    moveList,
+    collabPeers,
+    setPresence,
+    activeBoard,
+    lanes,
+    setSwimlanes,
+  } = store;
+  const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+  // selectedCard pode ser ICard ou null
+  const [selectedCard, setSelectedCard] = useState<ICard | null>(null);
+  const [newListTitle, setNewListTitle] = useState<string>('');
+  // Cartão sendo arrastado no momento (usado para posicionar o placeholder)
+  const [draggedCardId, setDraggedCardId] = useState<string | null>(null);
+  // Coluna sendo arrastada e índice de inserção entre as demais colunas
+  const [draggedListId, setDraggedListId] = useState<string | null>(null);
+  const [listDropIndex, setListDropIndex] = useState<number | null>(null);
+  // Movimento de cartão pelo teclado: destino previsto (índice entre os cartões
+  // visíveis da célula). O cartão não sai da sua raia (null = quadro sem raias).
+  const [keyboardMove, setKeyboardMove] = useState<{
+    cardId: string;
+    listId: string;
+    laneKey: string | null;
+    index: number;
+    originListId: string;
+    originIndex: number;
+  } | null>(null);
+  // Texto anunciado aos leitores de tela pela região ARIA live
+  const [liveMessage, setLiveMessage] = useState<string>('');
+  // Cartão que deve receber o foco após a próxima renderização
+  const focusCardIdRef = useRef<string | null>(null);
+  // Aviso de arquivamento com opção de desfazer (o id reinicia o temporizador)
+  const [archiveToast, setArchiveToast] = useState<{
+    id: number;
+    cardId: string;
+    message: string;
+  } | null>(null);
+
+  // Painel de filtros (etiquetas) aberto no cabeçalho
+  const [isFilterOpen, setIsFilterOpen] = useState<boolean>(false);
+  const [labelFilter, setLabelFilter] = useState<ILabelFilter>({
+    labelIds: [],
+    mode: 'any',
+  });
+  const filterRef = useRef<HTMLDivElement>(null);
+  const now = useNow(60000);
+  // Filtro rápido "Meus cartões" (depende de quem é o usuário no quadro)
+  const [onlyMyCards, setOnlyMyCards] = useState<boolean>(false);
+  // Raias recolhidas (chave: agrupamento e raia)
+  const [collapsedLaneKeys, setCollapsedLaneKeys] = useState<string[]>([]);
+  // Raia de onde saiu o cartão arrastado (o destino vem da célula do drop)
+  const dragOriginLaneKeyRef = useRef<string | null>(null);
+
+  const dismissArchiveToast = useCallback(
+    (): void => setArchiveToast(null),
+    []
+  );
+  // Aviso de movimento bloqueado pelo limite WIP de uma lista estrita
+  const [wipToast, setWipToast] = useState<{
+    id: number;
+    message: string;
+  } | null>(null);
+  const dismissWipToast = useCallback((): void => setWipToast(null), []);
+
+  // Versão atual do cartão aberto (comentários e histórico mudam com o modal aberto)
+  const liveSelectedCard = selectedCard
+    ? (cards.find((card) => card.id === selectedCard.id) ?? null)
+    : null;
+  // Cartão com o foco em algum campo do modal (mostrado como "editando")
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const openCardId =
+    isModalOpen && liveSelectedCard ? liveSelectedCard.id : null;
+
+  // Conta aos colaboradores qual cartão está aberto aqui
+  useEffect(() => {
+    setPresence(
+      openCardId,
+      openCardId !== null && editingCardId === openCardId
+        ? 'editing'
+        : 'viewing'
+    );
+  }, [openCardId, editingCardId, setPresence]);
+  useEffect(() => () => setPresence(null, 'viewing'), [setPresence]);
+
+  // Fecha o painel de filtros ao clicar fora dele
+  useEffect(() => {
+    if (!isFilterOpen) return;
+    const handleMouseDown = (e: MouseEvent): void => {
+      if (!filterRef.current?.contains(e.target as Node))
+        setIsFilterOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isFilterOpen]);
+
+  // Limite WIP ultrapassado: o modo estrito avisa e bloqueia, o flexível pergunta
+  const confirmWipLimitBreach = (breach: IList): boolean => {
+    if (!breach.wipLimit) return true;
+    const limitText = `A lista "${breach.title}" tem limite de ${breach.wipLimit.max} cartão(ões)`;
+    if (breach.wipLimit.mode === 'strict') {
+      setWipToast({ id: Date.now(), message: `${limitText}.` });
+      return false;
+    }
+    return window.confirm(`${limitText}. Mover mesmo assim?`);
+  };
+
+  // Movimento de cartão sujeito ao limite WIP da lista de destino: no modo
+  // estrito é bloqueado, no flexível pede confirmação. Retorna se o cartão foi movido.
+  const reorderCardsWithinWipLimit = (
+    sourceListId: string | null,
+    cardId: string,
+    targetListId: string,
+    targetIndex: number,
+    laneMove?: ILaneMove
+  ): boolean => {
+    const breach = getWipLimitBreach(lists, cards, cardId, targetListId);
+    if (breach && !confirmWipLimitBreach(breach)) return false;
+    reorderCards(sourceListId, cardId, targetListId, targetIndex, laneMove);
+    return true;
+  };
+
+  // Arquivar uma lista levando os cartões para outra também respeita o limite
+  // WIP do destino
+  const archiveListWithinWipLimit = (
+    listId: string,
+    moveCardsToListId: string | null
+  ): void => {
+    const target = lists.find((list) => list.id === moveCardsToListId);
+    const movedCount = cards.filter((card) => card.listId === listId).length;
+    const targetCount = cards.filter(
+      (card) => card.listId === moveCardsToListId
+    ).length;
+    if (
+      target?.wipLimit &&
+      movedCount > 0 &&
+      targetCount + movedCount > target.wipLimit.max &&
+      !confirmWipLimitBreach(target)
+    ) {
+      return;
+    }
+    archiveList(listId, moveCardsToListId);
+  };
+
+  // Arquivamento a partir do cartão ou do modal: arquiva e oferece desfazer
+  const handleArchiveCard = (cardId: string): void => {
+    const card = cards.find((other) => other.id === cardId);
+    archiveCard(cardId);
+    setArchiveToast({
+      id: Date.now(),
+      cardId,
+      message: card ? `Cartão "${card.title}" arquivado` : 'Cartão arquivado',
+    });
+  };
+
+  const handleEditCard = (card: ICard): void => {
+    setSelectedCard(card);
+    setIsModalOpen(true);
+  };
+
+  // Tipagem para evento de input
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    setSearchTerm(e.target.value);
+  };
+
+  const toggleLabelFilter = (labelId: string): void => {
+    setLabelFilter((prev) => ({
+      ...prev,
+      labelIds: prev.labelIds.includes(labelId)
+        ? prev.labelIds.filter((id) => id !== labelId)
+        : [...prev.labelIds, labelId],
+    }));
+  };
+
+  // Etiquetas de outro quadro (ou já excluídas) não participam do filtro
+  const activeLabelFilter: ILabelFilter = {
+    ...labelFilter,
+    labelIds: labelFilter.labelIds.filter((labelId) =>
+      labels.some((label) => label.id === labelId)
+    ),
+  };
+
+  const filteredCards: ICard[] = cards.filter(
+    (card) =>
+      (card.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        card.description.toLowerCase().includes(searchTerm.toLowerCase())) &&
+      matchesLabelFilter(card, activeLabelFilter) &&
+      (!onlyMyCards ||
+        !currentMemberId ||
+        card.assigneeIds.includes(currentMemberId))
+  );
+
+  const sortedLists: IList[] = [...lists].sort((a, b) => a.order - b.order);
+  const swimlanes: ISwimlane[] = getSwimlanes(activeBoard);
+
+  // O cartão está na raia? (null = todas, para o quadro sem raias)
+  const isInLane = (card: ICard, laneKey: string | null): boolean =>
+    laneKey === null || getCardLaneKey(card, activeBoard.swimlanes) === laneKey;
+
+  // Soltar o cartão em outra raia troca o valor do campo agrupado
+  const getLaneMove = (toKey: string | null): ILaneMove | undefined =>
+    toKey !== null && dragOriginLaneKeyRef.current !== null
+      ? {
+          grouping: activeBoard.swimlanes,
+          fromKey: dragOriginLaneKeyRef.current,
+          toKey,
+        }
+      : undefined;
+
+  const toggleLane = (laneKey: string): void => {
+    const key = `${activeBoard.swimlanes}:${laneKey}`;
+    setCollapsedLaneKeys((prev) =>
+      prev.includes(key)
+        ? prev.filter((other) => other !== key)
+        : [...prev, key]
+    );
+  };
+
+  const overdueCount: number = cards.filter(
+    (card) => card.due && getDueStatus(card.due, now) === 'overdue'
+  ).length;
+
+  // Cartões visíveis de uma lista (ou da célula de uma raia), exceto o que está sendo movido
+  const getVisibleSiblings = (
+    cardId: string,
+    listId: string,
+    laneKey: string | null = null
+  ): ICard[] =>
+    sortCardsByPosition(
+      filteredCards.filter(
+        (card) =>
+          card.listId === listId &&
+          card.id !== cardId &&
+          isInLane(card, laneKey)
+      )
+    );
+
+  // Converte o índice entre os visíveis para o índice final na lista completa
+  // (os ocultos pela busca, pelos filtros ou pelas raias mantêm seu lugar).
+  // Vale para o drop nativo, o arraste por toque e o movimento pelo teclado.
+  const toFullIndex = (
+    cardId: string,
+    listId: string,
+    visibleIndex: number,
+    laneKey: string | null = null
+  ): number => {
+    const fullSiblings = sortCardsByPosition(
+      cards.filter((card) => card.listId === listId && card.id !== cardId)
+    );
+    const visibleSiblings = getVisibleSiblings(cardId, listId, laneKey);
+    const anchor = visibleSiblings[visibleIndex];
+    if (anchor) return fullSiblings.indexOf(anchor);
+    const lastSibling = visibleSiblings[visibleSiblings.length - 1];
+    return lastSibling
+      ? fullSiblings.indexOf(lastSibling) + 1
+      : fullSiblings.length;
+  };
+
+  // Ex.: "Em Progresso, posição 2 de 5"
+  const describePosition = (
+    cardId: string,
+    listId: string,
+    laneKey: string | null,
+    index: number
+  ): string => {
+    const list = lists.find((other) => other.id === listId);
+    const total = getVisibleSiblings(cardId, listId, laneKey).length + 1;
+    return `${list?.title ?? ''}, posição ${index + 1} de ${total}`;
+  };
+
+  // Pré-visualização do movimento pelo teclado, aplicada só à exibição
+  const visibleCardIds = new Set(filteredCards.map((card) => card.id));
+  const displayedCards: ICard[] = keyboardMove
+    ? moveCardToIndex(
+        cards,
+        keyboardMove.cardId,
+        keyboardMove.listId,
+        toFullIndex(
+          keyboardMove.cardId,
+          keyboardMove.listId,
+          keyboardMove.index,
+          keyboardMove.laneKey
+        )
+      ).filter((card) => visibleCardIds.has(card.id))
+    : filteredCards;
+
+  // Drop nativo ou por toque/caneta; sourceListId é null: a lista de origem é
+  // lida do próprio cartão no store
+  const handleCardDrop = (
+    cardId: string,
+    listId: string,
+    laneKey: string | null,
+    visibleIndex: number
+  ): void => {
+    reorderCardsWithinWipLimit(
+      null,
+      cardId,
+      listId,
+      toFullIndex(cardId, listId, visibleIndex, laneKey),
+      getLaneMove(laneKey)
+    );
+  };
+
+  // Arraste por toque/caneta: mesmo destino e mesma ação do drop nativo
+  const { dropTarget: pointerDropTarget, startPointerDrag } = usePointerDrag({
+    onDragStateChange: setDraggedCardId,
+    onDrop: handleCardDrop,
+  });
+
+  // Espaço levanta o cartão; setas movem; Enter/Espaço soltam; Esc cancela
+  const handleCardKeyDown = (
+    card: ICard,
+    e: React.KeyboardEvent<HTMLDivElement>
+  ): void => {
+    if (!keyboardMove) {
+      if (e.key === ' ') {
+        e.preventDefault();
+        const laneKey = getCardLaneKey(card, activeBoard.swimlanes);
+        const index = getVisibleSiblings(card.id, card.listId, laneKey).filter(
+          (other) => other.position < card.position
+        ).length;
+        focusCardIdRef.current = card.id;
+        setKeyboardMove({
+          cardId: card.id,
+          listId: card.listId,
+          laneKey,
+          index,
+          originListId: card.listId,
+          originIndex: index,
+        });
+        setLiveMessage(
+          `Cartão ${card.title} levantado em ${describePosition(card.id, card.listId, laneKey, index)}. Use as setas para mover, Enter para soltar ou Esc para cancelar.`
+        );
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        handleEditCard(card);
+      }
+      return;
+    }
+    if (keyboardMove.cardId !== card.id) return;
+
+    const { listId, laneKey, index, originListId, originIndex } = keyboardMove;
+    let next = keyboardMove;
+    switch (e.key) {
+      case 'ArrowUp':
+        next = { ...keyboardMove, index: Math.max(0, index - 1) };
+        break;
+      case 'ArrowDown':
+        next = {
+          ...keyboardMove,
+          index: Math.min(
+            getVisibleSiblings(card.id, listId, laneKey).length,
+            index + 1
+          ),
+        };
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const listIndex = sortedLists.findIndex((list) => list.id === listId);
+        const targetList =
+          sortedLists[listIndex + (e.key === 'ArrowLeft' ? -1 : 1)];
+        if (targetList) {
+          next = {
+            ...keyboardMove,
+            listId: targetList.id,
+            index: Math.min(
+              index,
+              getVisibleSiblings(card.id, targetList.id, laneKey).length
+            ),
+          };
+        }
+        break;
+      }
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        focusCardIdRef.current = card.id;
+        setKeyboardMove(null);
+        if (
+          (listId !== originListId || index !== originIndex) &&
+          !reorderCardsWithinWipLimit(
+            null,
+            card.id,
+            listId,
+            toFullIndex(card.id, listId, index, laneKey)
+          )
+        ) {
+          const originList = lists.find((list) => list.id === originListId);
+          setLiveMessage(
+            `Limite WIP atingido. Cartão ${card.title} voltou para ${originList?.title ?? ''}.`
+          );
+          return;
+        }
+        setLiveMessage(
+          `Cartão ${card.title} solto em ${describePosition(card.id, listId, laneKey, index)}.`
+        );
+        return;
+      case 'Escape':
+      case 'Tab': {
+        // Tab cancela sem impedir a troca de foco
+        if (e.key === 'Escape') e.preventDefault();
+        const originList = lists.find((list) => list.id === originListId);
+        focusCardIdRef.current = e.key === 'Escape' ? card.id : null;
+        setKeyboardMove(null);
+        setLiveMessage(
+          `Movimento cancelado. Cartão ${card.title} voltou para ${originList?.title ?? ''}.`
+        );
+        return;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+    if (next !== keyboardMove) {
+      focusCardIdRef.current = card.id;
+      setKeyboardMove(next);
+      setLiveMessage(
+        `Cartão ${card.title} movido para ${describePosition(card.id, next.listId, laneKey, next.index)}.`
+      );
+    }
+  };
+
+  // Devolve o foco ao cartão movido pelo teclado (ele pode ter mudado de lista)
+  useEffect(() => {
+    const cardId = focusCardIdRef.current;
+    if (!cardId) return;
+    focusCardIdRef.current = null;
+    document
+      .querySelector<HTMLElement>(`[data-card-id="${CSS.escape(cardId)}"]`)
+      ?.focus();
+  });
+  const siblingLists: IList[] = sortedLists.filter(
+    (list) => list.id !== draggedListId
+  );
+  const listPlaceholderIndex: number | null = draggedListId
+    ? listDropIndex
+    : null;
+
+  // Índice de inserção da coluna pelo meio horizontal das colunas irmãs
+  const getListDropIndex = (
+    container: HTMLDivElement,
+    clientX: number
+  ): number => {
+    const siblingElements = Array.from(
+      container.querySelectorAll<HTMLDivElement>('[data-list-id]')
+    ).filter((element) => element.dataset.listId !== draggedListId);
+    const index = siblingElements.findIndex((element) => {
+      const rect = element.getBoundingClientRect();
+      return clientX < rect.left + rect.width / 2;
+    });
+    return index === -1 ? siblingElements.length : index;
+  };
+
+  // Tipagem para eventos de arraste de colunas
+  const handleColumnsDragOver: DragEventHandler<HTMLDivElement> = (e) => {
+    if (!draggedListId) return; // Arraste de cartão: tratado pelo ListView
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const nextIndex = getListDropIndex(e.currentTarget, e.clientX);
+    if (nextIndex !== listDropIndex) setListDropIndex(nextIndex);
+  };
+
+  const handleColumnsDragLeave: DragEventHandler<HTMLDivElement> = (e) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setListDropIndex(null);
+  };
+
+  const handleColumnsDrop: DragEventHandler<HTMLDivElement> = (e) => {
+    if (!draggedListId) return;
+    e.preventDefault();
+    moveList(
+      draggedListId,
+      listDropIndex ?? getListDropIndex(e.currentTarget, e.clientX)
+    );
+    setListDropIndex(null);
+    setDraggedListId(null);
+  };
+
+  // Placeholder vertical exibido entre as colunas durante o arraste
+  const listDropPlaceholder = (
+    <div
+      className="
+        list-drop-placeholder
+      "
+    ></div>
+  );
+
+  // Coluna inteira (sem raias), só o cabeçalho (com raias) ou a célula de uma raia
+  const renderListView = (
+    list: IList,
+    part: ListViewProps['part'],
+    laneKey: string | null = null
+  ) => (
+    <ListView
+      key={list.id}
+      list={list}
+      cards={displayedCards.filter(
+        (card) => card.listId === list.id && isInLane(card, laneKey)
+      )}
+      labels={labels}
+      now={now}
+      members={members}
+      sortListByDueDate={sortListByDueDate}
+      addCard={addCard}
+      templates={templates}
+      addCardFromTemplate={addCardFromTemplate}
+      onCardDrop={(cardId, listId, visibleIndex) =>
+        handleCardDrop(cardId, listId, laneKey, visibleIndex)
+      }
+      onEditCard={handleEditCard}
+      archiveCard={handleArchiveCard}
+      draggedCardId={draggedCardId}
+      onCardDragStateChange={(cardId) => {
+        if (cardId) dragOriginLaneKeyRef.current = laneKey;
+        setDraggedCardId(cardId);
+      }}
+      lists={lists}
+      totalCardCount={cards.filter((card) => card.listId === list.id).length}
+      updateList={updateList}
+      archiveList={archiveListWithinWipLimit}
+      isDraggingList={draggedListId === list.id}
+      onListDragStateChange={setDraggedListId}
+      onCardKeyDown={handleCardKeyDown}
+      pickedUpCardId={keyboardMove?.cardId ?? null}
+      onCardPointerDown={(e, cardId) => {
+        dragOriginLaneKeyRef.current = laneKey;
+        startPointerDrag(e, cardId);
+      }}
+      pointerDropIndex={
+        pointerDropTarget?.listId === list.id &&
+        pointerDropTarget.laneKey === laneKey
+          ? pointerDropTarget.index
+          : null
+      }
+      collabPeers={collabPeers}
+      part={part}
+      laneKey={laneKey}
+    />
+  );
+
+  const handleAddList = (): void => {
+    if (newListTitle.trim()) {
+      addList(newListTitle.trim());
+      setNewListTitle('');
+    }
+  };
+
+  return (
     <div
       className="
         board-view
@@ -740,182 +10509,1974 @@ const BoardView: React.FC<BoardViewProps> = ({ store }) => {
       {/* Search and Filters Bar */}
       <header
         className="
-          board-header
+          board-header
+        "
+      >
+        <div
+          className="
+            search-container
+          "
+        >
+          <Search
+            className="
+              search-icon
+            "
+          />
+          <input
+            type="text"
+            placeholder="Buscar cartões por título ou descrição..."
+            value={searchTerm}
+            onChange={handleSearchChange}
+            className="
+              form-input search-input
+            "
+          />
+        </div>
+        {overdueCount > 0 && (
+          <span
+            role="status"
+            className="
+              overdue-counter
+            "
+          >
+            <TriangleAlert
+              className="
+                icon-sm
+              "
+            />{' '}
+            {overdueCount === 1
+              ? '1 cartão atrasado'
+              : `${overdueCount} cartões atrasados`}
+          </span>
+        )}
+        <div
+          className="
+            header-actions
+          "
+        >
+          <Button
+            variant="secondary"
+            onClick={() => setOnlyMyCards((prev) => !prev)}
+            disabled={!currentMemberId}
+            aria-pressed={onlyMyCards && currentMemberId !== null}
+            title={
+              currentMemberId
+                ? 'Mostrar só os cartões atribuídos a você'
+                : 'Escolha quem é você em Configurações > Membros'
+            }
+            className={`
+              header-filter-btn ${onlyMyCards && currentMemberId ? 'header-filter-btn-active' : ''}
+            `}
+          >
+            <User
+              className="
+                icon-sm
+              "
+            />{' '}
+            Meus cartões
+          </Button>
+          <div
+            ref={filterRef}
+            className="
+              filter-container
+            "
+          >
+            <Button
+              variant="secondary"
+              onClick={() => setIsFilterOpen((prev) => !prev)}
+              aria-expanded={isFilterOpen}
+              className={`
+                header-filter-btn ${activeLabelFilter.labelIds.length > 0 ? 'header-filter-btn-active' : ''}
+              `}
+            >
+              <Filter
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Filtros
+              {activeLabelFilter.labelIds.length > 0 &&
+                ` (${activeLabelFilter.labelIds.length})`}
+            </Button>
+            {isFilterOpen && (
+              <div
+                role="dialog"
+                aria-label="Filtros"
+                className="
+                  filter-panel
+                "
+              >
+                <p
+                  className="
+                    filter-panel-title
+                  "
+                >
+                  Etiquetas
+                </p>
+                {labels.length === 0 ? (
+                  <p
+                    className="
+                      list-menu-text
+                    "
+                  >
+                    Este quadro ainda não tem etiquetas.
+                  </p>
+                ) : (
+                  labels.map((label) => (
+                    <label
+                      key={label.id}
+                      className="
+                        filter-option
+                      "
+                    >
+                      <input
+                        type="checkbox"
+                        checked={activeLabelFilter.labelIds.includes(label.id)}
+                        onChange={() => toggleLabelFilter(label.id)}
+                      />
+                      <span
+                        style={{ backgroundColor: `var(${label.colorVar})` }}
+                        className="
+                          label-chip
+                        "
+                      >
+                        {label.name}
+                      </span>
+                    </label>
+                  ))
+                )}
+                <p
+                  className="
+                    filter-panel-title
+                  "
+                >
+                  Mostrar cartões com
+                </p>
+                <label
+                  className="
+                    filter-option
+                  "
+                >
+                  <input
+                    type="radio"
+                    name="label-filter-mode"
+                    checked={labelFilter.mode === 'any'}
+                    onChange={() =>
+                      setLabelFilter((prev) => ({ ...prev, mode: 'any' }))
+                    }
+                  />
+                  Qualquer etiqueta selecionada
+                </label>
+                <label
+                  className="
+                    filter-option
+                  "
+                >
+                  <input
+                    type="radio"
+                    name="label-filter-mode"
+                    checked={labelFilter.mode === 'all'}
+                    onChange={() =>
+                      setLabelFilter((prev) => ({ ...prev, mode: 'all' }))
+                    }
+                  />
+                  Todas as etiquetas selecionadas
+                </label>
+                <Button
+                  variant="ghost"
+                  onClick={() =>
+                    setLabelFilter((prev) => ({ ...prev, labelIds: [] }))
+                  }
+                  disabled={activeLabelFilter.labelIds.length === 0}
+                >
+                  Limpar filtros
+                </Button>
+              </div>
+            )}
+          </div>
+          <select
+            value={activeBoard.swimlanes}
+            onChange={(e) => setSwimlanes(e.target.value as SwimlaneGrouping)}
+            aria-label="Raias"
+            title="Dividir o quadro em raias horizontais"
+            className="
+              form-input swimlane-select
+            "
+          >
+            {(Object.keys(SWIMLANE_GROUPING_LABELS) as SwimlaneGrouping[]).map(
+              (grouping) => (
+                <option key={grouping} value={grouping}>
+                  {SWIMLANE_GROUPING_LABELS[grouping]}
+                </option>
+              )
+            )}
+          </select>
+          <input
+            type="text"
+            placeholder="Nova Lista"
+            value={newListTitle}
+            onChange={(e) => setNewListTitle(e.target.value)}
+            className="
+              form-input new-list-input
+            "
+          />
+          <Button onClick={handleAddList} disabled={!newListTitle.trim()}>
+            <Plus
+              className="
+                icon-sm
+              "
+            />{' '}
+            Lista
+          </Button>
+        </div>
+      </header>
+
+      {/* Kanban Columns Container */}
+      <main
+        className={`
+          kanban-columns-container custom-scrollbar ${swimlanes.length > 0 ? 'kanban-columns-container-lanes' : ''}
+        `}
+      >
+        <div
+          onDragOver={handleColumnsDragOver}
+          onDragLeave={handleColumnsDragLeave}
+          onDrop={handleColumnsDrop}
+          className="
+            kanban-columns-wrapper
+          "
+        >
+          {sortedLists.map((list) => (
+            <React.Fragment key={list.id}>
+              {listPlaceholderIndex !== null &&
+                siblingLists[listPlaceholderIndex]?.id === list.id &&
+                listDropPlaceholder}
+              {renderListView(list, swimlanes.length > 0 ? 'header' : 'column')}
+            </React.Fragment>
+          ))}
+          {listPlaceholderIndex !== null &&
+            listPlaceholderIndex >= siblingLists.length &&
+            listDropPlaceholder}
+        </div>
+        {swimlanes.map((lane) => {
+          const laneCardCount = displayedCards.filter((card) =>
+            isInLane(card, lane.key)
+          ).length;
+          const isCollapsed = collapsedLaneKeys.includes(
+            `${activeBoard.swimlanes}:${lane.key}`
+          );
+          return (
+            <section
+              key={lane.key}
+              aria-label={`Raia ${lane.title}`}
+              className="
+                swimlane
+              "
+            >
+              <button
+                type="button"
+                onClick={() => toggleLane(lane.key)}
+                aria-expanded={!isCollapsed}
+                className="
+                  swimlane-header
+                "
+              >
+                {isCollapsed ? (
+                  <ChevronRight
+                    className="
+                      icon-sm
+                    "
+                  />
+                ) : (
+                  <ChevronDown
+                    className="
+                      icon-sm
+                    "
+                  />
+                )}
+                {lane.colorVar && (
+                  <span
+                    style={{ backgroundColor: `var(${lane.colorVar})` }}
+                    className="
+                      list-color-dot
+                    "
+                  ></span>
+                )}
+                {lane.title}
+                <span
+                  className="
+                    list-count
+                  "
+                >
+                  ({laneCardCount})
+                </span>
+              </button>
+              {!isCollapsed && (
+                <div
+                  className="
+                    kanban-columns-wrapper swimlane-row
+                  "
+                >
+                  {sortedLists.map((list) =>
+                    renderListView(list, 'lane', lane.key)
+                  )}
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </main>
+
+      {/* Modal */}
+      {isModalOpen && liveSelectedCard && (
+        <CardModal
+          card={liveSelectedCard}
+          lists={lists}
+          labels={labels}
+          members={members}
+          lanes={lanes}
+          onClose={() => setIsModalOpen(false)}
+          onSave={updateCard}
+          onArchive={handleArchiveCard}
+          onSaveAsTemplate={addTemplate}
+          onCreateLabel={addLabel}
+          onConvertChecklistItem={convertChecklistItem}
+          currentAuthor={
+            members.find((member) => member.id === currentMemberId)?.name ??
+            'Você'
+          }
+          onAddComment={addComment}
+          onUpdateComment={updateComment}
+          onDeleteComment={deleteComment}
+          onAddAttachments={addAttachments}
+          onDeleteAttachment={deleteAttachment}
+          onSetCover={setCardCover}
+          peers={collabPeers.filter(
+            (peer) => peer.cardId === liveSelectedCard.id
+          )}
+          onEditingChange={(isEditing) =>
+            setEditingCardId(isEditing ? liveSelectedCard.id : null)
+          }
+        />
+      )}
+
+      {/* Acessibilidade do movimento pelo teclado */}
+      <p
+        id="card-move-instructions"
+        className="
+          sr-only
+        "
+      >
+        Pressione Espaço para levantar o cartão. Use as setas para movê-lo entre
+        posições e listas, Enter para soltar ou Esc para cancelar.
+      </p>
+      <div
+        aria-live="assertive"
+        aria-atomic="true"
+        className="
+          sr-only
+        "
+      >
+        {liveMessage}
+      </div>
+
+      {archiveToast && (
+        <Toast
+          key={archiveToast.id}
+          message={archiveToast.message}
+          actionLabel="Desfazer"
+          onAction={() => {
+            // Restaura o próprio cartão: desfazer a última ação pegaria o que
+            // tiver sido feito depois do arquivamento
+            restoreArchivedItem(archiveToast.cardId);
+            setArchiveToast(null);
+          }}
+          onDismiss={dismissArchiveToast}
+        />
+      )}
+      {wipToast && (
+        <Toast
+          key={wipToast.id}
+          message={wipToast.message}
+          onDismiss={dismissWipToast}
+        />
+      )}
+    </div>
+  );
+};
+
+// Propriedades para o Componente ArchiveView
+interface ArchiveViewProps {
+  store: IKanbanStore;
+  setCurrentPage: (page: Page) => void;
+}
+
+// Componente: ArchiveView (Arquivo e Lixeira do Quadro Ativo)
+const ArchiveView: React.FC<ArchiveViewProps> = ({ store, setCurrentPage }) => {
+  const {
+    activeBoard,
+    archive,
+    lists,
+    trashRetentionDays,
+    restoreArchivedItem,
+    trashArchivedItem,
+    deleteArchivedItem,
+    emptyTrash,
+  } = store;
+  const [tab, setTab] = useState<'archived' | 'trash'>('archived');
+  const [query, setQuery] = useState<string>('');
+  const now = useNow(60000);
+
+  const trashedCount = archive.filter((item) => item.trashedAt !== null).length;
+  const term = query.trim().toLowerCase();
+  // Do mais recente para o mais antigo (na lixeira, pela data em que entrou nela)
+  const visibleItems = archive
+    .filter((item) => (item.trashedAt !== null) === (tab === 'trash'))
+    .filter((item) => !term || matchesArchivedItem(item, term))
+    .sort(
+      (a, b) => (b.trashedAt ?? b.archivedAt) - (a.trashedAt ?? a.archivedAt)
+    );
+
+  // Lista de origem do cartão: no quadro, arquivada ou já excluída
+  const getOriginListTitle = (card: ICard): string => {
+    const archivedList = archive.find((item) => item.id === card.listId);
+    return (
+      lists.find((list) => list.id === card.listId)?.title ??
+      (archivedList?.kind === 'list'
+        ? archivedList.list.title
+        : 'lista excluída')
+    );
+  };
+
+  const describeItem = (item: ArchivedItem): string => {
+    const kindText =
+      item.kind === 'card'
+        ? `Cartão de "${getOriginListTitle(item.card)}"`
+        : `Lista com ${item.cards.length} cartão(ões)`;
+    if (item.trashedAt === null) {
+      return `${kindText} · arquivado em ${formatArchiveDate(item.archivedAt)}`;
+    }
+    if (trashRetentionDays === null) {
+      return `${kindText} · na lixeira desde ${formatArchiveDate(item.trashedAt)}`;
+    }
+    const daysLeft = Math.max(
+      0,
+      Math.ceil((item.trashedAt + trashRetentionDays * DAY_MS - now) / DAY_MS)
+    );
+    return `${kindText} · excluído definitivamente em ${daysLeft} dia(s)`;
+  };
+
+  const handleDelete = (item: ArchivedItem): void => {
+    if (
+      window.confirm(`Excluir "${getArchivedItemTitle(item)}" definitivamente?`)
+    ) {
+      deleteArchivedItem(item.id);
+    }
+  };
+
+  const handleEmptyTrash = (): void => {
+    if (
+      window.confirm(
+        `Excluir definitivamente os ${trashedCount} item(ns) da lixeira?`
+      )
+    ) {
+      emptyTrash();
+    }
+  };
+
+  return (
+    <div
+      className="
+        archive-view
+      "
+    >
+      <h1
+        className="
+          settings-title
+        "
+      >
+        Arquivo de "{activeBoard.title}"
+      </h1>
+
+      <div
+        className="
+          archive-toolbar
         "
       >
         <div
+          role="tablist"
+          aria-label="Arquivados ou lixeira"
           className="
-            search-container
+            archive-tabs
           "
         >
-          <Search
+          {(['archived', 'trash'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={tab === option}
+              onClick={() => setTab(option)}
+              className={`
+                archive-tab ${tab === option ? 'archive-tab-active' : ''}
+              `}
+            >
+              {option === 'archived'
+                ? `Arquivados (${archive.length - trashedCount})`
+                : `Lixeira (${trashedCount})`}
+            </button>
+          ))}
+        </div>
+        <input
+          type="search"
+          placeholder="Buscar no arquivo..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Buscar no arquivo"
+          className="
+            form-input archive-search
+          "
+        />
+        {tab === 'trash' && trashedCount > 0 && (
+          <Button variant="destructive" onClick={handleEmptyTrash}>
+            <Trash2
+              className="
+                icon-sm
+              "
+            />{' '}
+            Esvaziar lixeira
+          </Button>
+        )}
+      </div>
+
+      <p
+        className="
+          settings-info-text
+        "
+      >
+        {tab === 'archived'
+          ? 'Cartões e listas arquivados saem do quadro, mas podem ser restaurados a qualquer momento.'
+          : trashRetentionDays === null
+            ? 'Itens na lixeira só são excluídos quando você os exclui.'
+            : `Itens na lixeira são excluídos definitivamente após ${trashRetentionDays} dias.`}
+      </p>
+
+      {visibleItems.length === 0 ? (
+        <p
+          className="
+            archive-empty
+          "
+        >
+          {term
+            ? 'Nenhum item encontrado.'
+            : tab === 'archived'
+              ? 'Nada arquivado neste quadro.'
+              : 'A lixeira está vazia.'}
+        </p>
+      ) : (
+        <ul
+          className="
+            archive-list
+          "
+        >
+          {visibleItems.map((item) => {
+            const title = getArchivedItemTitle(item);
+            // Sem nenhuma lista no quadro, o cartão não tem para onde voltar
+            const canRestore = item.kind === 'list' || lists.length > 0;
+            return (
+              <li
+                key={item.id}
+                className="
+                  archive-item
+                "
+              >
+                <div
+                  className="
+                    archive-item-info
+                  "
+                >
+                  <p
+                    className="
+                      archive-item-title
+                    "
+                  >
+                    {title}
+                  </p>
+                  <p
+                    className="
+                      archive-item-meta
+                    "
+                  >
+                    {describeItem(item)}
+                  </p>
+                </div>
+                <div
+                  className="
+                    archive-item-actions
+                  "
+                >
+                  <Button
+                    variant="secondary"
+                    onClick={() => restoreArchivedItem(item.id)}
+                    disabled={!canRestore}
+                    title={
+                      canRestore ? undefined : 'Crie uma lista para restaurar'
+                    }
+                    aria-label={`Restaurar ${title}`}
+                  >
+                    <ArchiveRestore
+                      className="
+                        icon-sm
+                      "
+                    />{' '}
+                    Restaurar
+                  </Button>
+                  {item.trashedAt === null ? (
+                    <Button
+                      variant="ghost"
+                      onClick={() => trashArchivedItem(item.id)}
+                      aria-label={`Mover ${title} para a lixeira`}
+                      title="Mover para a lixeira"
+                    >
+                      <Trash2
+                        className="
+                          icon-sm
+                        "
+                      />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="destructive"
+                      onClick={() => handleDelete(item)}
+                      aria-label={`Excluir ${title} definitivamente`}
+                    >
+                      Excluir
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div
+        className="
+          settings-back-button-container
+        "
+      >
+        <Button onClick={() => setCurrentPage('board')} variant="secondary">
+          Voltar para o Quadro
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Propriedades para o Componente SettingsView
+interface SettingsViewProps {
+  store: IKanbanStore;
+  setCurrentPage: (page: Page) => void;
+}
+
+// Componente: SettingsView (Página de Configurações)
+const SettingsView: React.FC<SettingsViewProps> = ({
+  store,
+  setCurrentPage,
+}) => {
+  const {
+    theme,
+    toggleTheme,
+    importBoard,
+    importCardsCsv,
+    activeBoard,
+    labels,
+    cards,
+    addLabel,
+    updateLabel,
+    deleteLabel,
+    members,
+    currentMemberId,
+    addMember,
+    updateMember,
+    deleteMember,
+    setCurrentMember,
+    lists,
+    templates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    lanes,
+    addLane,
+    renameLane,
+    deleteLane,
+  } = store;
+  const [newLabelName, setNewLabelName] = useState<string>('');
+  const [newLaneName, setNewLaneName] = useState<string>('');
+  const [newMemberName, setNewMemberName] = useState<string>('');
+  const [newMemberInitials, setNewMemberInitials] = useState<string>('');
+  // Modelo aberto no editor (null = nenhum; 'new' = modelo novo)
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(
+    null
+  );
+  // Arquivo importado aguardando confirmação
+  const [importPreview, setImportPreview] = useState<{
+    fileName: string;
+    state: IKanbanState;
+    rejectedCount: number;
+  } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [conflictStrategy, setConflictStrategy] =
+    useState<ConflictStrategy>('keep-both');
+  const [importMessage, setImportMessage] = useState<string>('');
+  // CSV importado aguardando confirmação (o resultado é refeito sobre o quadro atual)
+  const [csvPreview, setCsvPreview] = useState<{
+    fileName: string;
+    text: string;
+  } | null>(null);
+  const [csvMessage, setCsvMessage] = useState<string>('');
+  // Uso e cota do armazenamento do navegador (null = estimativa indisponível)
+  const [storageEstimate, setStorageEstimate] = useState<{
+    usage: number;
+    quota: number;
+  } | null>(null);
+
+  // Anexos de todos os quadros (inclusive arquivados), cujo conteúdo ocupa o IndexedDB
+  const allAttachments = store.boards.flatMap((board) =>
+    [...board.cards, ...getArchivedCards(board)].flatMap(
+      (card) => card.attachments
+    )
+  );
+  const attachmentsSize = allAttachments.reduce(
+    (total, attachment) => total + attachment.size,
+    0
+  );
+
+  // Consulta a estimativa ao abrir as configurações e quando os anexos mudam
+  useEffect(() => {
+    let isCancelled = false;
+    navigator.storage
+      ?.estimate()
+      .then(({ usage, quota }) => {
+        if (!isCancelled && usage !== undefined && quota) {
+          setStorageEstimate({ usage, quota });
+        }
+      })
+      .catch(() => {
+        // Navegadores sem a API exibem só o total dos anexos
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [attachmentsSize]);
+
+  // Endereço digitado para ligar a sincronização com o servidor
+  const [syncUrlDraft, setSyncUrlDraft] = useState<string>('');
+  const isSyncUrlValid = /^https?:\/\/\S+$/.test(syncUrlDraft.trim());
+
+  const handleConnectSync = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isSyncUrlValid) return;
+    store.setSyncUrl(syncUrlDraft.trim());
+    setSyncUrlDraft('');
+  };
+
+  // Endereço digitado para ligar a colaboração em tempo real
+  const [collabUrlDraft, setCollabUrlDraft] = useState<string>('');
+  const isCollabUrlValid = /^wss?:\/\/\S+$/.test(collabUrlDraft.trim());
+
+  const handleConnectCollab = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isCollabUrlValid) return;
+    store.setCollabUrl(collabUrlDraft.trim());
+    setCollabUrlDraft('');
+  };
+
+  // Tipagem para evento de formulário
+  const handleAddLabel = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = newLabelName.trim();
+    if (!name) return;
+    addLabel(name, LIST_COLORS[labels.length % LIST_COLORS.length].colorVar);
+    setNewLabelName('');
+  };
+
+  // O nome é salvo ao sair do campo, para não gerar uma ação de desfazer por tecla
+  const handleRenameLabel = (label: ILabel, value: string): void => {
+    const name = value.trim();
+    if (name && name !== label.name) updateLabel(label.id, { name });
+  };
+
+  const handleDeleteLabel = (label: ILabel): void => {
+    const usage = cards.filter((card) =>
+      card.labelIds.includes(label.id)
+    ).length;
+    if (
+      usage === 0 ||
+      window.confirm(
+        `A etiqueta "${label.name}" está em ${usage} cartão(ões) e será removida deles. Continuar?`
+      )
+    ) {
+      deleteLabel(label.id);
+    }
+  };
+
+  // Tipagem para evento de formulário
+  const handleAddMember = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = newMemberName.trim();
+    if (!name) return;
+    addMember(
+      name,
+      newMemberInitials.trim().toUpperCase() || getInitials(name),
+      LIST_COLORS[members.length % LIST_COLORS.length].colorVar
+    );
+    setNewMemberName('');
+    setNewMemberInitials('');
+  };
+
+  // Nome e iniciais são salvos ao sair do campo, como nas etiquetas
+  const handleMemberFieldBlur = (
+    member: IMember,
+    field: 'name' | 'initials',
+    value: string
+  ): void => {
+    const trimmed =
+      field === 'initials' ? value.trim().toUpperCase() : value.trim();
+    if (trimmed && trimmed !== member[field]) {
+      updateMember(member.id, { [field]: trimmed });
+    }
+  };
+
+  const handleDeleteMember = (member: IMember): void => {
+    const usage = cards.filter((card) =>
+      card.assigneeIds.includes(member.id)
+    ).length;
+    if (
+      usage === 0 ||
+      window.confirm(
+        `${member.name} é responsável por ${usage} cartão(ões) e será desatribuído(a) deles. Continuar?`
+      )
+    ) {
+      deleteMember(member.id);
+    }
+  };
+
+  // Tipagem para evento de formulário
+  const handleAddLane = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const name = newLaneName.trim();
+    if (!name) return;
+    addLane(name);
+    setNewLaneName('');
+  };
+
+  // Como nas etiquetas, o nome é salvo ao sair do campo
+  const handleRenameLane = (lane: ILane, value: string): void => {
+    const name = value.trim();
+    if (name && name !== lane.name) renameLane(lane.id, name);
+  };
+
+  const handleDeleteLane = (lane: ILane): void => {
+    const usage = cards.filter((card) => card.laneId === lane.id).length;
+    if (
+      usage === 0 ||
+      window.confirm(
+        `A raia "${lane.name}" tem ${usage} cartão(ões), que ficarão sem raia. Continuar?`
+      )
+    ) {
+      deleteLane(lane.id);
+    }
+  };
+
+  const handleExportJson = (): void => {
+    downloadFile(
+      `kanban-board-${getExportDateSuffix()}.json`,
+      serializeKanbanState(store),
+      'application/json'
+    );
+  };
+
+  // Tipagem para evento de input de arquivo
+  const handleImportFile = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Permite escolher o mesmo arquivo novamente
+    if (!file) return;
+    const result = parsePersistedState(await file.text());
+    if (!result.ok) {
+      setImportPreview(null);
+      setImportMessage(`Arquivo inválido: ${result.reason}.`);
+      return;
+    }
+    setImportMessage('');
+    setImportPreview({
+      fileName: file.name,
+      state: result.state,
+      rejectedCount: result.quarantined.length,
+    });
+  };
+
+  const handleConfirmImport = (): void => {
+    if (!importPreview) return;
+    importBoard(importPreview.state, importMode, conflictStrategy);
+    setImportMessage(`Quadro importado de ${importPreview.fileName}.`);
+    setImportPreview(null);
+  };
+
+  const handleExportCsv = (): void => {
+    // O BOM faz planilhas reconhecerem o arquivo como UTF-8
+    downloadFile(
+      `kanban-cartoes-${getExportDateSuffix()}.csv`,
+      `\uFEFF${serializeCardsCsv(activeBoard)}`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  // Tipagem para evento de input de arquivo
+  const handleImportCsvFile = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setCsvMessage('');
+    setCsvPreview({ fileName: file.name, text: await file.text() });
+  };
+
+  const csvResult: ICsvImportResult | null = csvPreview
+    ? importCardsFromCsv(activeBoard, csvPreview.text)
+    : null;
+
+  const handleConfirmCsvImport = (): void => {
+    if (!csvPreview || !csvResult) return;
+    importCardsCsv(csvPreview.text);
+    setCsvMessage(
+      `${csvResult.created} cartão(ões) criado(s) e ${csvResult.updated} atualizado(s).`
+    );
+    setCsvPreview(null);
+  };
+
+  const importSummary: IBoardChangeSummary | null = importPreview
+    ? summarizeBoardChanges(
+        store,
+        applyImport(store, importPreview.state, importMode, conflictStrategy)
+      )
+    : null;
+
+  return (
+    <div
+      className="
+        settings-view
+      "
+    >
+      <h1
+        className="
+          settings-title
+        "
+      >
+        Configurações
+      </h1>
+
+      <div
+        className="
+          settings-content
+        "
+      >
+        {/* Tema Escuro/Claro */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Aparência
+          </h2>
+          <div
+            className="
+              theme-toggle-container
+            "
+          >
+            <span>Tema do Aplicativo:</span>
+            <Button
+              variant="secondary"
+              onClick={toggleTheme}
+              className="
+                theme-toggle-button
+              "
+            >
+              {theme === 'light' ? (
+                <>
+                  <Moon
+                    className="
+                      icon-sm
+                    "
+                  />{' '}
+                  Escuro
+                </>
+              ) : (
+                <>
+                  <Sun
+                    className="
+                      icon-sm
+                    "
+                  />{' '}
+                  Claro
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {/* Etiquetas do Quadro */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Etiquetas
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Etiquetas do quadro ativo: <strong>{activeBoard.title}</strong>.
+          </p>
+          <ul
+            className="
+              settings-label-list
+            "
+          >
+            {labels.map((label) => (
+              <li
+                // O nome muda também por desfazer: remonta o campo não controlado
+                key={`${label.id}-${label.name}`}
+                className="
+                  settings-label-row
+                "
+              >
+                <input
+                  type="text"
+                  defaultValue={label.name}
+                  onBlur={(e) => handleRenameLabel(label, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  aria-label={`Nome da etiqueta ${label.name}`}
+                  style={{ borderLeftColor: `var(${label.colorVar})` }}
+                  className="
+                    form-input settings-label-input
+                  "
+                />
+                {LIST_COLORS.map((color) => (
+                  <button
+                    key={color.colorVar}
+                    type="button"
+                    aria-pressed={label.colorVar === color.colorVar}
+                    aria-label={`Cor da etiqueta ${label.name}: ${color.label}`}
+                    title={color.label}
+                    onClick={() =>
+                      updateLabel(label.id, { colorVar: color.colorVar })
+                    }
+                    style={{ backgroundColor: `var(${color.colorVar})` }}
+                    className={`
+                      list-color-swatch ${label.colorVar === color.colorVar ? 'list-color-swatch-active' : ''}
+                    `}
+                  ></button>
+                ))}
+                <Button
+                  variant="ghost"
+                  onClick={() => handleDeleteLabel(label)}
+                  aria-label={`Excluir etiqueta ${label.name}`}
+                  title="Excluir etiqueta"
+                >
+                  <Trash2
+                    className="
+                      icon-sm color-red-400
+                    "
+                  />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <form
+            onSubmit={handleAddLabel}
+            className="
+              settings-backup-actions
+            "
+          >
+            <input
+              type="text"
+              placeholder="Nova etiqueta..."
+              value={newLabelName}
+              onChange={(e) => setNewLabelName(e.target.value)}
+              aria-label="Nome da nova etiqueta"
+              className="
+                form-input settings-label-input
+              "
+            />
+            <Button type="submit" disabled={!newLabelName.trim()}>
+              <Plus
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Etiqueta
+            </Button>
+          </form>
+        </div>
+
+        {/* Membros do Quadro */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Membros
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Membros do quadro ativo: <strong>{activeBoard.title}</strong>.
+          </p>
+          <ul
+            className="
+              settings-label-list
+            "
+          >
+            {members.map((member) => (
+              <li
+                // Remonta os campos não controlados quando mudam por desfazer
+                key={`${member.id}-${member.name}-${member.initials}`}
+                className="
+                  settings-label-row
+                "
+              >
+                <MemberAvatar member={member} />
+                <input
+                  type="text"
+                  defaultValue={member.name}
+                  onBlur={(e) =>
+                    handleMemberFieldBlur(member, 'name', e.target.value)
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  aria-label={`Nome de ${member.name}`}
+                  className="
+                    form-input settings-label-input
+                  "
+                />
+                <input
+                  type="text"
+                  defaultValue={member.initials}
+                  maxLength={3}
+                  onBlur={(e) =>
+                    handleMemberFieldBlur(member, 'initials', e.target.value)
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  aria-label={`Iniciais de ${member.name}`}
+                  className="
+                    form-input settings-initials-input
+                  "
+                />
+                {LIST_COLORS.map((color) => (
+                  <button
+                    key={color.colorVar}
+                    type="button"
+                    aria-pressed={member.colorVar === color.colorVar}
+                    aria-label={`Cor do avatar de ${member.name}: ${color.label}`}
+                    title={color.label}
+                    onClick={() =>
+                      updateMember(member.id, { colorVar: color.colorVar })
+                    }
+                    style={{ backgroundColor: `var(${color.colorVar})` }}
+                    className={`
+                      list-color-swatch ${member.colorVar === color.colorVar ? 'list-color-swatch-active' : ''}
+                    `}
+                  ></button>
+                ))}
+                <Button
+                  variant="ghost"
+                  onClick={() => handleDeleteMember(member)}
+                  aria-label={`Excluir membro ${member.name}`}
+                  title="Excluir membro"
+                >
+                  <Trash2
+                    className="
+                      icon-sm color-red-400
+                    "
+                  />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <form
+            onSubmit={handleAddMember}
             className="
-              search-icon
+              settings-backup-actions
             "
-          />
-          <input
-            type="text"
-            placeholder="Buscar cartões por título ou descrição..."
-            value={searchTerm}
-            onChange={handleSearchChange}
+          >
+            <input
+              type="text"
+              placeholder="Nome do membro..."
+              value={newMemberName}
+              onChange={(e) => setNewMemberName(e.target.value)}
+              aria-label="Nome do novo membro"
+              className="
+                form-input settings-label-input
+              "
+            />
+            <input
+              type="text"
+              placeholder={getInitials(newMemberName) || 'Iniciais'}
+              value={newMemberInitials}
+              maxLength={3}
+              onChange={(e) => setNewMemberInitials(e.target.value)}
+              aria-label="Iniciais do novo membro (opcional)"
+              className="
+                form-input settings-initials-input
+              "
+            />
+            <Button type="submit" disabled={!newMemberName.trim()}>
+              <Plus
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Membro
+            </Button>
+          </form>
+          <label
+            className="
+              theme-toggle-container settings-message
+            "
+          >
+            <span>Você é:</span>
+            <select
+              value={currentMemberId ?? ''}
+              onChange={(e) => setCurrentMember(e.target.value || null)}
+              className="
+                form-input import-select
+              "
+            >
+              <option value="">Ninguém (desativa "Meus cartões")</option>
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Raias Manuais */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Raias
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Raias manuais do quadro <strong>{activeBoard.title}</strong>. Com
+            "Raias manuais" escolhido no quadro, cada cartão fica na raia
+            definida no próprio cartão; arrastá-lo para outra raia também a
+            troca.
+          </p>
+          <ul
+            className="
+              settings-label-list
+            "
+          >
+            {lanes.map((lane) => (
+              <li
+                // O nome muda também por desfazer: remonta o campo não controlado
+                key={`${lane.id}-${lane.name}`}
+                className="
+                  settings-label-row
+                "
+              >
+                <input
+                  type="text"
+                  defaultValue={lane.name}
+                  onBlur={(e) => handleRenameLane(lane, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  aria-label={`Nome da raia ${lane.name}`}
+                  className="
+                    form-input settings-label-input
+                  "
+                />
+                <Button
+                  variant="ghost"
+                  onClick={() => handleDeleteLane(lane)}
+                  aria-label={`Excluir raia ${lane.name}`}
+                  title="Excluir raia"
+                >
+                  <Trash2
+                    className="
+                      icon-sm color-red-400
+                    "
+                  />
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <form
+            onSubmit={handleAddLane}
+            className="
+              settings-backup-actions
+            "
+          >
+            <input
+              type="text"
+              placeholder="Nova raia..."
+              value={newLaneName}
+              onChange={(e) => setNewLaneName(e.target.value)}
+              aria-label="Nome da nova raia"
+              className="
+                form-input settings-label-input
+              "
+            />
+            <Button type="submit" disabled={!newLaneName.trim()}>
+              <Plus
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Raia
+            </Button>
+          </form>
+        </div>
+
+        {/* Modelos de Cartão */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Modelos de cartão
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Modelos do quadro ativo, oferecidos ao adicionar um cartão. No
+            título, {'{data}'} vira a data de criação e {'{lista}'} o nome da
+            lista. Para criar um modelo a partir de um cartão, use "Salvar como
+            modelo" no próprio cartão.
+          </p>
+          <ul
+            className="
+              settings-label-list
+            "
+          >
+            {templates.map((template) =>
+              editingTemplateId === template.id ? (
+                <li key={template.id}>
+                  <TemplateEditor
+                    initial={template}
+                    lists={lists}
+                    labels={labels}
+                    members={members}
+                    onSave={(draft) => {
+                      updateTemplate(template.id, draft);
+                      setEditingTemplateId(null);
+                    }}
+                    onCancel={() => setEditingTemplateId(null)}
+                  />
+                </li>
+              ) : (
+                <li
+                  key={template.id}
+                  className="
+                    settings-label-row
+                  "
+                >
+                  <LayoutTemplate
+                    className="
+                      icon-sm
+                    "
+                  />
+                  <strong>{template.name}</strong>
+                  <span
+                    className="
+                      settings-info-text template-summary
+                    "
+                  >
+                    {template.titlePattern}
+                    {template.listId &&
+                      ` · em "${lists.find((list) => list.id === template.listId)?.title ?? 'lista fora do quadro'}"`}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    onClick={() => setEditingTemplateId(template.id)}
+                    aria-label={`Editar modelo ${template.name}`}
+                    title="Editar modelo"
+                  >
+                    <Pencil
+                      className="
+                        icon-sm
+                      "
+                    />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => deleteTemplate(template.id)}
+                    aria-label={`Excluir modelo ${template.name}`}
+                    title="Excluir modelo"
+                  >
+                    <Trash2
+                      className="
+                        icon-sm color-red-400
+                      "
+                    />
+                  </Button>
+                </li>
+              )
+            )}
+          </ul>
+          {editingTemplateId === 'new' ? (
+            <TemplateEditor
+              initial={EMPTY_TEMPLATE}
+              lists={lists}
+              labels={labels}
+              members={members}
+              onSave={(draft) => {
+                addTemplate(draft);
+                setEditingTemplateId(null);
+              }}
+              onCancel={() => setEditingTemplateId(null)}
+            />
+          ) : (
+            <Button
+              variant="secondary"
+              onClick={() => setEditingTemplateId('new')}
+            >
+              <Plus
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Modelo
+            </Button>
+          )}
+        </div>
+
+        {/* Backup do Quadro (JSON) */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Backup do Quadro
+          </h2>
+          <div
+            className="
+              settings-backup-actions
+            "
+          >
+            <Button variant="secondary" onClick={handleExportJson}>
+              <Download
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Exportar JSON
+            </Button>
+            <label
+              className="
+                button-base button-secondary settings-file-label
+              "
+            >
+              <Upload
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Importar JSON
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+                className="
+                  settings-file-input
+                "
+              />
+            </label>
+          </div>
+
+          {importPreview && importSummary && (
+            <div
+              className="
+                import-preview
+              "
+            >
+              <p
+                className="
+                  settings-info-text
+                "
+              >
+                <strong>{importPreview.fileName}</strong>:{' '}
+                {importPreview.state.boards.length} quadro(s),{' '}
+                {importPreview.state.boards.reduce(
+                  (total, board) => total + board.lists.length,
+                  0
+                )}{' '}
+                listas e{' '}
+                {importPreview.state.boards.reduce(
+                  (total, board) => total + board.cards.length,
+                  0
+                )}{' '}
+                cartões.
+                {importPreview.rejectedCount > 0 &&
+                  ` ${importPreview.rejectedCount} item(ns) inválido(s) serão ignorados.`}
+              </p>
+              <div
+                className="
+                  import-options
+                "
+              >
+                <label>
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={importMode === 'merge'}
+                    onChange={() => setImportMode('merge')}
+                  />{' '}
+                  Mesclar ao quadro atual
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={importMode === 'replace'}
+                    onChange={() => setImportMode('replace')}
+                  />{' '}
+                  Substituir o quadro atual
+                </label>
+                {importMode === 'merge' && (
+                  <label>
+                    IDs repetidos:{' '}
+                    <select
+                      value={conflictStrategy}
+                      onChange={(e) =>
+                        setConflictStrategy(e.target.value as ConflictStrategy)
+                      }
+                      className="
+                        form-input import-select
+                      "
+                    >
+                      <option value="keep-both">Manter ambos (novo ID)</option>
+                      <option value="overwrite">
+                        Sobrescrever o existente
+                      </option>
+                    </select>
+                  </label>
+                )}
+              </div>
+              <ul
+                className="
+                  import-summary
+                "
+              >
+                <li>
+                  Quadros: +{importSummary.boards.added} novos,{' '}
+                  {importSummary.boards.updated} renomeados,{' '}
+                  {importSummary.boards.removed} removidos
+                </li>
+                <li>
+                  Listas: +{importSummary.lists.added} novas,{' '}
+                  {importSummary.lists.updated} alteradas,{' '}
+                  {importSummary.lists.removed} removidas
+                </li>
+                <li>
+                  Cartões: +{importSummary.cards.added} novos,{' '}
+                  {importSummary.cards.updated} alterados,{' '}
+                  {importSummary.cards.removed} removidos
+                </li>
+              </ul>
+              <div
+                className="
+                  settings-backup-actions
+                "
+              >
+                <Button onClick={handleConfirmImport}>
+                  Confirmar Importação
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => setImportPreview(null)}
+                >
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          )}
+          {importMessage && (
+            <p
+              className="
+                settings-info-text settings-message
+              "
+            >
+              {importMessage}
+            </p>
+          )}
+        </div>
+
+        {/* Planilha (CSV) */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Planilha (CSV)
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Exporta e importa os cartões do quadro ativo:{' '}
+            <strong>{activeBoard.title}</strong>.
+          </p>
+          <div
+            className="
+              settings-backup-actions
+            "
+          >
+            <Button variant="secondary" onClick={handleExportCsv}>
+              <Download
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Exportar CSV
+            </Button>
+            <label
+              className="
+                button-base button-secondary settings-file-label
+              "
+            >
+              <Upload
+                className="
+                  icon-sm
+                "
+              />{' '}
+              Importar CSV
+              <input
+                type="file"
+                accept="text/csv,.csv"
+                onChange={handleImportCsvFile}
+                className="
+                  settings-file-input
+                "
+              />
+            </label>
+          </div>
+
+          {csvPreview && csvResult && (
+            <div
+              className="
+                import-preview
+              "
+            >
+              <p
+                className="
+                  settings-info-text
+                "
+              >
+                <strong>{csvPreview.fileName}</strong>: {csvResult.created}{' '}
+                cartão(ões) novo(s), {csvResult.updated} atualizado(s),{' '}
+                {csvResult.createdLists} lista(s) nova(s),{' '}
+                {csvResult.createdLabels} etiqueta(s) nova(s),{' '}
+                {csvResult.createdMembers} membro(s) novo(s) e{' '}
+                {csvResult.createdLanes} raia(s) nova(s).
+              </p>
+              {csvResult.errors.length > 0 && (
+                <ul
+                  className="
+                    import-summary import-errors
+                  "
+                >
+                  {csvResult.errors.map((error) => (
+                    <li key={`${error.row}-${error.reason}`}>
+                      {error.row > 0 ? `Linha ${error.row}: ` : ''}
+                      {error.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div
+                className="
+                  settings-backup-actions
+                "
+              >
+                <Button
+                  onClick={handleConfirmCsvImport}
+                  disabled={csvResult.created + csvResult.updated === 0}
+                >
+                  Confirmar Importação
+                </Button>
+                <Button variant="secondary" onClick={() => setCsvPreview(null)}>
+                  Cancelar
+                </Button>
+              </div>
+            </div>
+          )}
+          {csvMessage && (
+            <p
+              className="
+                settings-info-text settings-message
+              "
+            >
+              {csvMessage}
+            </p>
+          )}
+        </div>
+
+        {/* Sincronização com o Servidor */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Sincronização
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Envia as mudanças de cartões e listas para uma API REST e recebe as
+            feitas por outras pessoas nos mesmos quadros. Sem conexão, as
+            mudanças ficam numa fila e são enviadas ao reconectar. Para testar
+            localmente, rode `npm run mock-server` e use
+            `http://localhost:4000/api`.
+          </p>
+          {store.syncUrl ? (
+            <div
+              className="
+                settings-backup-actions
+              "
+            >
+              <SyncStatusIndicator status={store.syncStatus} />
+              <strong>{store.syncUrl}</strong>
+              <Button
+                variant="secondary"
+                onClick={() => store.setSyncUrl(null)}
+              >
+                Desconectar
+              </Button>
+            </div>
+          ) : (
+            <form
+              onSubmit={handleConnectSync}
+              className="
+                settings-backup-actions
+              "
+            >
+              <input
+                type="url"
+                placeholder="https://servidor/api"
+                value={syncUrlDraft}
+                onChange={(e) => setSyncUrlDraft(e.target.value)}
+                aria-label="Endereço da API de sincronização"
+                className="
+                  form-input settings-sync-input
+                "
+              />
+              <Button type="submit" disabled={!isSyncUrlValid}>
+                Conectar
+              </Button>
+            </form>
+          )}
+        </div>
+
+        {/* Colaboração em Tempo Real */}
+        <div>
+          <h2
+            className="
+              settings-subtitle
+            "
+          >
+            Colaboração em tempo real
+          </h2>
+          <p
+            className="
+              settings-info-text
+            "
+          >
+            Edita o quadro ativo junto com outras pessoas por WebSocket: as
+            mudanças em cartões e listas aparecem na hora e edições simultâneas
+            em campos diferentes do mesmo cartão são combinadas. Os avatares
+            mostram quem está vendo ou editando cada cartão, com o membro
+            escolhido em "Você é:". Para testar localmente, rode `npm run
+            collab-server` e use `ws://localhost:4001`.
+          </p>
+          {store.collabUrl ? (
+            <div
+              className="
+                settings-backup-actions
+              "
+            >
+              <CollabStatus
+                isConnected={store.isCollabConnected}
+                peers={store.collabPeers}
+              />
+              <strong>{store.collabUrl}</strong>
+              <Button
+                variant="secondary"
+                onClick={() => store.setCollabUrl(null)}
+              >
+                Desconectar
+              </Button>
+            </div>
+          ) : (
+            <form
+              onSubmit={handleConnectCollab}
+              className="
+                settings-backup-actions
+              "
+            >
+              <input
+                type="url"
+                placeholder="wss://servidor"
+                value={collabUrlDraft}
+                onChange={(e) => setCollabUrlDraft(e.target.value)}
+                aria-label="Endereço do servidor de colaboração"
+                className="
+                  form-input settings-sync-input
+                "
+              />
+              <Button type="submit" disabled={!isCollabUrlValid}>
+                Conectar
+              </Button>
+            </form>
+          )}
+        </div>
+
+        {/* Lixeira */}
+        <div>
+          <h2
             className="
-              form-input search-input
+              settings-subtitle
             "
-          />
-        </div>
-        <div
-          className="
-            header-actions
-          "
-        >
-          <Button
-            variant="secondary"
+          >
+            Lixeira
+          </h2>
+          <p
             className="
-              header-filter-btn
+              settings-info-text
             "
           >
-            <Filter
-              className="
-                icon-sm
-              "
-            />{' '}
-            Filtros
-          </Button>
-          <input
-            type="text"
-            placeholder="Nova Lista"
-            value={newListTitle}
-            onChange={(e) => setNewListTitle(e.target.value)}
+            Cartões e listas excluídos vão primeiro para o arquivo e, de lá,
+            para a lixeira. O que fica na lixeira além do prazo é excluído
+            definitivamente, em todos os quadros.
+          </p>
+          <label
             className="
-              form-input new-list-input
+              settings-info-text
             "
-          />
-          <Button onClick={handleAddList} disabled={!newListTitle.trim()}>
-            <Plus
+          >
+            Excluir da lixeira:
+            <select
+              value={store.trashRetentionDays ?? ''}
+              onChange={(e) =>
+                store.setTrashRetentionDays(
+                  e.target.value ? Number(e.target.value) : null
+                )
+              }
               className="
-                icon-sm
+                form-input import-select
               "
-            />{' '}
-            Lista
-          </Button>
-        </div>
-      </header>
-
-      {/* Kanban Columns Container */}
-      <main
-        className="
-          kanban-columns-container custom-scrollbar
-        "
-      >
-        <div
-          className="
-            kanban-columns-wrapper
-          "
-        >
-          {lists
-            .sort((a, b) => a.order - b.order) // Ordena as listas
-            .map((list) => (
-              <ListView
-                key={list.id}
-                list={list}
-                cards={filteredCards.filter((card) => card.listId === list.id)}
-                addCard={addCard}
-                reorderCards={reorderCards}
-                onEditCard={handleEditCard}
-                deleteCard={deleteCard}
-              />
-            ))}
+            >
+              {TRASH_RETENTION_OPTIONS.map((days) => (
+                <option key={days ?? 'never'} value={days ?? ''}>
+                  {days === null ? 'Nunca' : `Após ${days} dias`}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
-      </main>
-
-      {/* Modal */}
-      {isModalOpen && selectedCard && (
-        <CardModal
-          card={selectedCard}
-          onClose={() => setIsModalOpen(false)}
-          onSave={updateCard}
-          onDelete={deleteCard}
-        />
-      )}
-    </div>
-  );
-};
-
-// Propriedades para o Componente SettingsView
-interface SettingsViewProps {
-  store: IKanbanStore;
-  setCurrentPage: (page: 'board' | 'settings') => void;
-}
-
-// Componente: SettingsView (Página de Configurações)
-const SettingsView: React.FC<SettingsViewProps> = ({
-  store,
-  setCurrentPage,
-}) => {
-  const { theme, toggleTheme } = store;
-
-  return (
-    <div
-      className="
-        settings-view
-      "
-    >
-      <h1
-        className="
-          settings-title
-        "
-      >
-        Configurações
-      </h1>
 
-      <div
-        className="
-          settings-content
-        "
-      >
-        {/* Tema Escuro/Claro */}
+        {/* Armazenamento */}
         <div>
           <h2
             className="
               settings-subtitle
             "
           >
-            Aparência
+            Armazenamento
           </h2>
-          <div
+          <p
             className="
-              theme-toggle-container
+              settings-info-text
             "
           >
-            <span>Tema do Aplicativo:</span>
-            <Button
-              variant="secondary"
-              onClick={toggleTheme}
+            {allAttachments.length} anexo(s) em todos os quadros, somando{' '}
+            {formatFileSize(attachmentsSize)}. Os arquivos ficam apenas neste
+            navegador e não entram no backup JSON.
+          </p>
+          {storageEstimate ? (
+            <>
+              <div
+                role="progressbar"
+                aria-label="Uso do armazenamento"
+                aria-valuemin={0}
+                aria-valuemax={storageEstimate.quota}
+                aria-valuenow={storageEstimate.usage}
+                className="
+                  storage-bar
+                "
+              >
+                <span
+                  style={{
+                    width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%`,
+                  }}
+                  className="
+                    storage-bar-fill
+                  "
+                ></span>
+              </div>
+              <p
+                className="
+                  settings-info-text
+                "
+              >
+                {formatFileSize(storageEstimate.usage)} usados de{' '}
+                {formatFileSize(storageEstimate.quota)} disponíveis para este
+                site.
+              </p>
+            </>
+          ) : (
+            <p
               className="
-                theme-toggle-button
+                settings-info-text
               "
             >
-              {theme === 'light' ? (
-                <>
-                  <Moon
-                    className="
-                      icon-sm
-                    "
-                  />{' '}
-                  Escuro
-                </>
-              ) : (
-                <>
-                  <Sun
-                    className="
-                      icon-sm
-                    "
-                  />{' '}
-                  Claro
-                </>
-              )}
-            </Button>
-          </div>
+              Este navegador não informa a cota de armazenamento.
+            </p>
+          )}
         </div>
 
         {/* Informações */}
@@ -941,8 +12502,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({
               settings-info-text
             "
           >
-            A persistência dos dados é feita usando `localStorage` e o estilo é
-            puramente via **CSS Puro**.
+            A persistência dos dados é feita usando `
+            {store.storageName ?? 'localStorage'}` e o estilo é puramente via
+            **CSS Puro**.
           </p>
         </div>
       </div>
@@ -963,11 +12525,28 @@ const SettingsView: React.FC<SettingsViewProps> = ({
 // --- SEÇÃO 6: COMPONENTE PRINCIPAL (APP) TIPADO ---
 
 // Definição do tipo para o estado da página
-type Page = 'board' | 'settings';
+type Page = 'board' | 'archive' | 'settings';
 
 const App: React.FC = () => {
   const store: IKanbanStore = useKanbanStore();
   const [currentPage, setCurrentPage] = useState<Page>('board');
+  const { undo, redo } = store;
+
+  // Atalhos globais: Ctrl+Z desfaz e Ctrl+Shift+Z refaz (Cmd no macOS)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Em campos de texto, mantém o desfazer nativo do navegador
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]'))
+        return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Estilos CSS Puros
   const globalStyles = `
@@ -994,6 +12573,8 @@ const App: React.FC = () => {
         --color-list-blue: #3B82F6;
         --color-list-green: #10B981;
         --color-list-yellow: #F59E0B;
+        --color-list-purple: #8B5CF6;
+        --color-list-gray: #6B7280;
     }
 
     .dark {
@@ -1025,12 +12606,28 @@ const App: React.FC = () => {
         font-family: 'Inter', sans-serif;
     }
 
+    /* Visível apenas para leitores de tela */
+    .sr-only {
+        position: absolute;
+        width: 1px;
+        height: 1px;
+        padding: 0;
+        margin: -1px;
+        overflow: hidden;
+        clip: rect(0, 0, 0, 0);
+        white-space: nowrap;
+        border: 0;
+    }
+
     .icon-sm {
         width: 1.25rem;
         height: 1.25rem;
         color: var(--color-text-medium);
     }
 
+    .icon-sm.color-primary {
+        color: var(--color-primary);
+    }
     .icon-sm.color-red-400 {
         color: #F87171; /* Cor específica para ícone de lixeira, mantendo proximidade */
     }
@@ -1140,11 +12737,70 @@ const App: React.FC = () => {
         font-weight: 800;
         color: var(--color-primary);
     }
+    .navbar-brand {
+        display: flex;
+        align-items: center;
+        gap: 1rem;
+    }
+    .board-switcher {
+        display: flex;
+        align-items: center;
+        gap: 0.25rem;
+    }
+    .board-select,
+    .board-title-input {
+        width: auto;
+        min-width: 10rem;
+    }
     .navbar-links {
         display: flex;
         align-items: center;
         gap: 1rem;
     }
+    .sync-status {
+        display: flex;
+        align-items: center;
+        gap: 0.25rem;
+        font-size: 0.875rem;
+        color: var(--color-text-medium);
+    }
+    .sync-status-synced .icon-sm {
+        color: var(--color-list-green);
+    }
+    .sync-status-pending .icon-sm {
+        color: var(--color-list-yellow);
+    }
+    .sync-status-error {
+        color: var(--color-destructive);
+    }
+    .sync-status-error .icon-sm {
+        color: inherit;
+    }
+    .collab-status {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        font-size: 0.875rem;
+        color: var(--color-text-medium);
+    }
+    .collab-status-offline {
+        gap: 0.25rem;
+        color: var(--color-destructive);
+    }
+    .collab-status-offline .icon-sm {
+        color: inherit;
+    }
+    /* Anel nos avatares de presença: quem está editando ganha destaque */
+    .presence-avatars .presence-viewing {
+        box-shadow: 0 0 0 2px var(--color-primary);
+    }
+    .presence-avatars .presence-editing {
+        box-shadow: 0 0 0 2px var(--color-list-yellow);
+    }
+    .modal-header .presence-avatars {
+        margin-left: auto;
+        margin-right: 0.5rem;
+    }
     @media (min-width: 640px) {
         .navbar-content {
             padding: 0 1.5rem;
@@ -1199,6 +12855,55 @@ const App: React.FC = () => {
     .new-list-input {
         flex-grow: 1;
     }
+    .overdue-counter {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.25rem;
+        padding: 0.25rem 0.75rem;
+        border-radius: 9999px;
+        font-size: 0.875rem;
+        font-weight: 600;
+        white-space: nowrap;
+        color: #fff;
+        background-color: var(--color-destructive);
+    }
+    .filter-container {
+        position: relative;
+    }
+    .header-filter-btn {
+        white-space: nowrap;
+    }
+    .header-filter-btn-active {
+        outline: 2px solid var(--color-primary);
+    }
+    .filter-panel {
+        position: absolute;
+        top: calc(100% + 0.5rem);
+        right: 0;
+        z-index: 30;
+        width: 17rem;
+        padding: 0.75rem;
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        background-color: var(--color-bg-dark);
+        border: 1px solid var(--color-border);
+        border-radius: 0.5rem;
+        box-shadow: 0 10px 15px -3px var(--color-shadow);
+    }
+    .filter-panel-title {
+        font-size: 0.75rem;
+        font-weight: 700;
+        text-transform: uppercase;
+        color: var(--color-text-medium);
+    }
+    .filter-option {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        font-size: 0.875rem;
+        cursor: pointer;
+    }
 
     @media (min-width: 640px) {
         .board-header {
@@ -1281,17 +12986,112 @@ const App: React.FC = () => {
         align-items: center;
         gap: 0.5rem;
     }
+    .list-rename-input {
+        padding: 0.25rem 0.5rem;
+        font-size: 1.125rem;
+        font-weight: 600;
+    }
     .list-color-dot {
         width: 0.75rem;
         height: 0.75rem;
         border-radius: 50%;
     }
-    .list-count {
-        margin-left: 0.5rem;
+    .list-count {
+        margin-left: 0.5rem;
+        font-size: 0.875rem;
+        font-weight: 400;
+        color: var(--color-text-medium);
+    }
+    .list-header[draggable='true'] {
+        cursor: grab;
+    }
+    .list-wip-limit {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.25rem;
+        padding: 0.125rem 0.375rem;
+        border-radius: 9999px;
+        font-size: 0.75rem;
+        font-weight: 500;
+        color: var(--color-text-medium);
+        background-color: var(--color-bg-medium);
+    }
+    .list-header-wip-exceeded {
+        border-bottom-color: var(--color-destructive);
+    }
+    .list-header-wip-exceeded .list-count,
+    .list-header-wip-exceeded .list-wip-limit {
+        color: var(--color-destructive);
+        font-weight: 600;
+    }
+    .list-header-actions {
+        position: relative;
+        display: flex;
+        align-items: center;
+    }
+    .list-rename-form {
+        flex-grow: 1;
+        margin-right: 0.5rem;
+    }
+    .list-menu {
+        position: absolute;
+        top: 100%;
+        right: 0;
+        z-index: 20;
+        width: 16rem;
+        padding: 0.5rem;
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        background-color: var(--color-bg-dark);
+        border: 1px solid var(--color-border);
+        border-radius: 0.5rem;
+        box-shadow: 0 10px 15px -3px var(--color-shadow);
+    }
+    .list-menu-item {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        padding: 0.5rem;
+        border: none;
+        border-radius: 0.375rem;
+        background: transparent;
+        color: var(--color-text-dark);
+        cursor: pointer;
+        text-align: left;
+    }
+    .list-menu-item:hover {
+        background-color: var(--color-secondary);
+    }
+    .list-menu-item-destructive,
+    .list-menu-item-destructive .icon-sm {
+        color: var(--color-destructive);
+    }
+    .list-menu-colors {
+        display: flex;
+        gap: 0.5rem;
+        padding: 0 0.5rem;
+    }
+    .list-color-swatch {
+        width: 1.5rem;
+        height: 1.5rem;
+        border: 2px solid transparent;
+        border-radius: 50%;
+        cursor: pointer;
+    }
+    .list-color-swatch-active {
+        border-color: var(--color-text-dark);
+    }
+    .list-menu-text {
         font-size: 0.875rem;
-        font-weight: 400;
         color: var(--color-text-medium);
     }
+    .list-drop-placeholder {
+        flex-shrink: 0;
+        width: 4px;
+        border-radius: 2px;
+        background-color: var(--color-primary);
+    }
     .list-add-btn {
         color: var(--color-text-medium);
     }
@@ -1305,6 +13105,57 @@ const App: React.FC = () => {
         padding-right: 0.25rem;
     }
 
+    /* Raias: cabeçalhos das listas no topo e uma linha de células por raia */
+    .kanban-columns-container-lanes {
+        overflow-y: auto;
+    }
+    .kanban-columns-container-lanes .kanban-columns-wrapper {
+        height: auto;
+    }
+    .list-view-header,
+    .list-view-lane {
+        height: auto;
+    }
+    .list-view-header .list-header {
+        margin-bottom: 0;
+    }
+    .list-view-lane {
+        min-height: 5rem;
+    }
+    .list-view-lane .list-cards-container {
+        overflow-y: visible;
+    }
+    .swimlane {
+        margin-top: 1.5rem;
+        min-width: max-content;
+    }
+    .swimlane-header {
+        position: sticky;
+        left: 0;
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        margin-bottom: 0.75rem;
+        padding: 0.25rem 0.5rem;
+        border: none;
+        border-radius: 0.375rem;
+        background: none;
+        font-size: 1rem;
+        font-weight: 600;
+        color: var(--color-text-dark);
+        cursor: pointer;
+    }
+    .swimlane-header:hover {
+        background-color: var(--color-bg-medium);
+    }
+    .swimlane-select {
+        width: auto;
+    }
+    .swimlane-row {
+        padding-bottom: 1rem;
+        border-bottom: 1px dashed var(--color-border);
+    }
+
     /* Form Novo Cartão */
     .new-card-form {
         margin-top: 1rem;
@@ -1339,31 +13190,449 @@ const App: React.FC = () => {
         border-left: 4px solid;
         transition: all 300ms;
     }
+    .card-cover {
+        display: block;
+        width: 100%;
+        max-height: 10rem;
+        margin-bottom: 0.75rem;
+        border-radius: 0.5rem;
+        object-fit: cover;
+    }
+    .card-component {
+        /* Pressão longa no toque levanta o cartão em vez de selecionar texto */
+        -webkit-touch-callout: none;
+        user-select: none;
+    }
+    .pointer-drag-preview {
+        position: fixed;
+        top: 0;
+        left: 0;
+        z-index: 70;
+        margin: 0;
+        pointer-events: none;
+        transition: none;
+        opacity: 0.9;
+        box-shadow: 0 20px 25px -5px var(--color-shadow);
+        rotate: 2deg;
+    }
     .card-component:hover {
         box-shadow: 0 10px 15px -3px var(--color-shadow);
     }
     .dragging-opacity {
         opacity: 0.5;
     }
-    .card-header {
-        display: flex;
-        justify-content: space-between;
-        align-items: flex-start;
+    .card-component:focus-visible {
+        outline: 2px solid var(--color-primary);
+        outline-offset: 2px;
+    }
+    .card-picked-up {
+        outline: 2px dashed var(--color-primary);
+        outline-offset: 2px;
+        box-shadow: 0 10px 15px -3px var(--color-shadow);
+        transform: rotate(1deg);
+    }
+    .card-drop-placeholder {
+        height: 3rem;
+        margin-bottom: 0.75rem;
+        border: 2px dashed var(--color-primary);
+        border-radius: 0.75rem;
+        background-color: var(--color-secondary);
+        opacity: 0.6;
+    }
+    .card-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+    }
+    .card-title {
+        font-weight: 600;
+        color: var(--color-text-dark);
+        line-height: 1.375;
+    }
+    .card-description {
+        font-size: 0.875rem;
+        color: var(--color-text-medium);
+        margin-top: 0.25rem;
+        margin-bottom: 0.5rem;
+        max-height: 8rem;
+        overflow: hidden;
+        overflow-wrap: anywhere;
+    }
+    .markdown > * + *,
+    .markdown blockquote > * + * {
+        margin-top: 0.5rem;
+    }
+    .markdown h1,
+    .markdown h2,
+    .markdown h3,
+    .markdown h4,
+    .markdown h5,
+    .markdown h6 {
+        font-weight: 600;
+        color: var(--color-text-dark);
+    }
+    .markdown h1 {
+        font-size: 1.25em;
+    }
+    .markdown h2 {
+        font-size: 1.125em;
+    }
+    .markdown ul,
+    .markdown ol {
+        padding-left: 1.25rem;
+    }
+    .markdown ul {
+        list-style: disc;
+    }
+    .markdown ol {
+        list-style: decimal;
+    }
+    .markdown li.markdown-task {
+        list-style: none;
+        margin-left: -1.25rem;
+        display: flex;
+        align-items: baseline;
+        gap: 0.375rem;
+    }
+    .markdown code {
+        font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+        font-size: 0.85em;
+        padding: 0.1rem 0.3rem;
+        border-radius: 0.25rem;
+        background-color: var(--color-bg-medium);
+    }
+    .markdown pre {
+        padding: 0.5rem;
+        border-radius: 0.375rem;
+        background-color: var(--color-bg-medium);
+        overflow-x: auto;
+    }
+    .markdown pre code {
+        padding: 0;
+        background: none;
+    }
+    .markdown blockquote {
+        padding-left: 0.75rem;
+        border-left: 3px solid var(--color-border);
+    }
+    .markdown hr {
+        border: none;
+        border-top: 1px solid var(--color-border);
+    }
+    .markdown a {
+        color: var(--color-primary);
+        text-decoration: underline;
+    }
+    .markdown-more {
+        color: var(--color-text-medium);
+    }
+    .modal-form .description-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 0.5rem;
+    }
+    .description-header .form-label {
+        margin-bottom: 0;
+    }
+    .modal-form .description-tabs {
+        display: flex;
+        gap: 0.25rem;
+        margin-bottom: 0;
+    }
+    .description-tab {
+        padding: 0.25rem 0.75rem;
+        border: none;
+        border-radius: 0.375rem;
+        background: transparent;
+        color: var(--color-text-medium);
+        font-size: 0.875rem;
+        cursor: pointer;
+    }
+    .description-tab-active {
+        background-color: var(--color-secondary);
+        color: var(--color-text-dark);
+    }
+    .modal-form .description-preview {
+        min-height: 8rem;
+        padding: 0.75rem;
+        border: 1px solid var(--color-border);
+        border-radius: 0.375rem;
+        font-size: 0.875rem;
+    }
+    .modal-form .description-preview div {
+        margin-bottom: 0;
+    }
+    .card-date {
+        font-size: 0.75rem;
+        font-weight: 500;
+    }
+    .card-footer {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 0.5rem;
+    }
+    .card-due {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.25rem;
+        padding: 0.125rem 0.375rem;
+        border-radius: 0.375rem;
+        font-size: 0.75rem;
+        font-weight: 500;
+        color: var(--color-text-medium);
+        background-color: var(--color-bg-medium);
+    }
+    .card-due-overdue {
+        color: #fff;
+        background-color: var(--color-destructive);
+    }
+    .card-due-today {
+        color: #1f2937;
+        background-color: var(--color-list-yellow);
+    }
+    .card-due-week {
+        color: #fff;
+        background-color: var(--color-list-blue);
+    }
+    .icon-xs {
+        width: 0.75rem;
+        height: 0.75rem;
+    }
+    .modal-form .due-inputs {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        margin-bottom: 0;
+    }
+    .modal-form .recurrence-inputs {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        margin-bottom: 0.5rem;
+    }
+    .modal-form .recurrence-number-input {
+        width: 5rem;
+    }
+    .recurrence-error {
+        margin-bottom: 0.5rem;
+        font-size: 0.875rem;
+        color: var(--color-destructive);
+    }
+    .card-priority {
+        padding: 0.125rem 0.375rem;
+        border-radius: 0.375rem;
+        font-size: 0.75rem;
+        font-weight: 500;
+        color: var(--color-text-medium);
+        background-color: var(--color-bg-medium);
+    }
+    .card-priority-high {
+        color: #fff;
+        background-color: var(--color-destructive);
+    }
+    .card-priority-medium {
+        color: #1f2937;
+        background-color: var(--color-list-yellow);
+    }
+    .card-recurrence {
+        display: inline-flex;
+        align-items: center;
+        color: var(--color-text-medium);
+    }
+    .member-avatar {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        flex-shrink: 0;
+        width: 1.75rem;
+        height: 1.75rem;
+        border-radius: 50%;
+        font-size: 0.6875rem;
+        font-weight: 700;
+        color: #fff;
+    }
+    .avatar-stack {
+        display: inline-flex;
+        margin-left: auto;
+    }
+    .avatar-stack .member-avatar {
+        border: 2px solid var(--color-bg-dark);
+    }
+    .avatar-stack .member-avatar + .member-avatar {
+        margin-left: -0.5rem;
+    }
+    .avatar-overflow {
+        color: var(--color-text-dark);
+        background-color: var(--color-secondary);
+    }
+    .member-toggle {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.375rem;
+        padding: 0.125rem 0.625rem 0.125rem 0.125rem;
+        border: 2px solid var(--color-border);
+        border-radius: 9999px;
+        background: transparent;
+        color: var(--color-text-dark);
+        cursor: pointer;
+        opacity: 0.6;
+    }
+    .member-toggle-active {
+        border-color: var(--color-primary);
+        opacity: 1;
+    }
+    .card-checklist {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        margin-bottom: 0.5rem;
+        font-size: 0.75rem;
+        color: var(--color-text-medium);
+    }
+    .card-checklist-count {
+        display: inline-flex;
+        align-items: center;
+        gap: 0.25rem;
+    }
+    .card-progress {
+        flex-grow: 1;
+        height: 0.375rem;
+        border-radius: 9999px;
+        background-color: var(--color-bg-medium);
+        overflow: hidden;
+    }
+    .card-progress-bar {
+        display: block;
+        height: 100%;
+        background-color: var(--color-primary);
+        transition: width 300ms;
+    }
+    .card-checklist-complete {
+        color: var(--color-list-green);
+    }
+    .card-checklist-complete .card-progress-bar {
+        background-color: var(--color-list-green);
+    }
+    .modal-form .checklist {
+        padding: 0.75rem;
+        border: 1px solid var(--color-border);
+        border-radius: 0.5rem;
+    }
+    .modal-form .checklist-header,
+    .modal-form .checklist-add {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        margin-bottom: 0.5rem;
+    }
+    .modal-form .checklist-add {
+        margin-bottom: 0;
+    }
+    .checklist-title-input {
+        font-weight: 600;
+    }
+    .checklist-count {
+        font-size: 0.875rem;
+        color: var(--color-text-medium);
+        white-space: nowrap;
+    }
+    .checklist-items {
+        margin: 0 0 0.5rem;
+        padding: 0;
+        list-style: none;
+    }
+    .checklist-item {
+        display: flex;
+        align-items: center;
+        gap: 0.25rem;
+    }
+    .checklist-item .button-ghost {
+        padding: 0.25rem;
+    }
+    .checklist-item-input {
+        flex-grow: 1;
+        min-width: 0;
+        padding: 0.25rem;
+        border: none;
+        background: transparent;
+        color: var(--color-text-dark);
+    }
+    .checklist-item-done {
+        text-decoration: line-through;
+        color: var(--color-text-medium);
+    }
+    .card-labels {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0.25rem;
+        margin: 0 0 0.5rem;
+        padding: 0;
+        list-style: none;
+    }
+    .label-chip {
+        display: inline-block;
+        padding: 0.125rem 0.5rem;
+        border-radius: 9999px;
+        font-size: 0.75rem;
+        font-weight: 600;
+        line-height: 1.25rem;
+        color: #fff;
+    }
+    .label-toggle {
+        border: 2px solid transparent;
+        cursor: pointer;
+        opacity: 0.45;
+    }
+    .label-toggle-active {
+        border-color: var(--color-text-dark);
+        opacity: 1;
+    }
+    .modal-form .label-picker {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0.5rem;
+        margin-bottom: 0.75rem;
+    }
+    .modal-form .label-create {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        margin-bottom: 0;
+    }
+    .label-create .list-color-swatch {
+        flex-shrink: 0;
+    }
+
+    /* Toast */
+    .toast {
+        position: fixed;
+        bottom: 1.5rem;
+        left: 50%;
+        transform: translateX(-50%);
+        display: flex;
+        align-items: center;
+        gap: 0.75rem;
+        padding: 0.5rem 0.5rem 0.5rem 1rem;
+        border-radius: 0.5rem;
+        background-color: var(--color-text-dark);
+        color: var(--color-text-light);
+        box-shadow: 0 10px 15px -3px var(--color-shadow);
+        z-index: 60;
+    }
+    .toast .button-ghost,
+    .toast .icon-sm {
+        color: var(--color-text-light);
     }
-    .card-title {
-        font-weight: 600;
-        color: var(--color-text-dark);
-        line-height: 1.375;
+    .toast .button-ghost:hover {
+        background-color: var(--color-text-medium);
     }
-    .card-description {
-        font-size: 0.875rem;
-        color: var(--color-text-medium);
-        margin-top: 0.25rem;
-        margin-bottom: 0.5rem;
+    .toast-action {
+        font-weight: 700;
     }
-    .card-date {
-        font-size: 0.75rem;
-        font-weight: 500;
+    .toast-close {
+        padding: 0.25rem;
     }
 
     /* Modal */
@@ -1385,6 +13654,8 @@ const App: React.FC = () => {
         padding: 1.5rem;
         width: 90%;
         max-width: 500px;
+        max-height: 90vh;
+        overflow-y: auto;
         box-shadow: 0 20px 25px -5px var(--color-shadow);
     }
     .modal-header {
@@ -1417,6 +13688,143 @@ const App: React.FC = () => {
     .modal-actions .button-base {
         flex-grow: 1;
     }
+    .modal-section {
+        margin-top: 1.5rem;
+        padding-top: 1rem;
+        border-top: 1px solid var(--color-border);
+    }
+    .modal-section-title {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+        font-weight: 600;
+        margin-bottom: 0.75rem;
+    }
+    .attachment-dropzone {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 0.5rem;
+        padding: 1rem;
+        border: 2px dashed var(--color-border);
+        border-radius: 0.5rem;
+        color: var(--color-text-medium);
+        font-size: 0.875rem;
+        text-align: center;
+    }
+    .attachment-dropzone-active {
+        border-color: var(--color-primary);
+        background-color: var(--color-bg-medium);
+    }
+    .attachment-dropzone label {
+        cursor: pointer;
+    }
+    .attachment-limit {
+        font-size: 0.75rem;
+    }
+    .attachment-message {
+        margin-top: 0.5rem;
+        font-size: 0.875rem;
+        color: var(--color-destructive);
+    }
+    .attachment-list {
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        margin-top: 0.75rem;
+    }
+    .attachment {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+    }
+    .attachment-thumb {
+        flex-shrink: 0;
+        width: 3rem;
+        height: 3rem;
+        border-radius: 0.375rem;
+        object-fit: cover;
+        background-color: var(--color-bg-medium);
+    }
+    .attachment-thumb-icon {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: var(--color-text-medium);
+    }
+    .attachment-info {
+        flex-grow: 1;
+        min-width: 0;
+        display: flex;
+        flex-direction: column;
+    }
+    .attachment-name {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        font-size: 0.875rem;
+    }
+    .attachment-meta {
+        font-size: 0.75rem;
+        color: var(--color-text-medium);
+    }
+    .comment-composer {
+        display: flex;
+        flex-direction: column;
+        align-items: flex-end;
+        gap: 0.5rem;
+        margin-bottom: 1rem;
+    }
+    .comment-list {
+        display: flex;
+        flex-direction: column;
+        gap: 0.75rem;
+    }
+    .comment {
+        padding: 0.75rem;
+        border-radius: 0.5rem;
+        background-color: var(--color-bg-medium);
+    }
+    .comment-meta {
+        display: flex;
+        justify-content: space-between;
+        gap: 0.5rem;
+        font-size: 0.75rem;
+        color: var(--color-text-medium);
+        margin-bottom: 0.25rem;
+    }
+    .comment-author {
+        font-weight: 600;
+        color: var(--color-text-dark);
+    }
+    .comment-text {
+        white-space: pre-wrap;
+        word-break: break-word;
+    }
+    .comment-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 0.25rem;
+        margin-top: 0.5rem;
+    }
+    .activity-timeline {
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        padding-left: 1rem;
+        border-left: 2px solid var(--color-border);
+        font-size: 0.875rem;
+    }
+    .activity-entry {
+        display: flex;
+        justify-content: space-between;
+        gap: 0.75rem;
+    }
+    .activity-entry time {
+        flex-shrink: 0;
+        font-size: 0.75rem;
+        color: var(--color-text-medium);
+    }
     @media (min-width: 480px) {
         .modal-actions .button-base {
             flex-grow: 0;
@@ -1460,6 +13868,194 @@ const App: React.FC = () => {
         color: var(--color-text-medium);
         margin-bottom: 0.5rem;
     }
+    .storage-bar {
+        height: 0.5rem;
+        margin-bottom: 0.5rem;
+        border-radius: 9999px;
+        background-color: var(--color-bg-medium);
+        overflow: hidden;
+    }
+    .storage-bar-fill {
+        display: block;
+        height: 100%;
+        background-color: var(--color-primary);
+    }
+    .settings-backup-actions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 1rem;
+    }
+    .settings-file-label {
+        position: relative;
+    }
+    .settings-file-input {
+        position: absolute;
+        inset: 0;
+        opacity: 0;
+        cursor: pointer;
+    }
+    .import-preview {
+        margin-top: 1rem;
+        padding: 1rem;
+        border: 1px solid var(--color-border);
+        border-radius: 0.5rem;
+        background-color: var(--color-bg-medium);
+    }
+    .import-options {
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+        margin-bottom: 1rem;
+    }
+    .import-select {
+        width: auto;
+        margin-left: 0.5rem;
+    }
+    .import-summary {
+        margin: 0 0 1rem;
+        padding-left: 1.25rem;
+        color: var(--color-text-medium);
+    }
+    .import-errors {
+        color: var(--color-destructive);
+    }
+    .settings-message {
+        margin-top: 1rem;
+    }
+    .settings-label-list {
+        margin: 0 0 1rem;
+        padding: 0;
+        list-style: none;
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+    }
+    .settings-label-row {
+        display: flex;
+        align-items: center;
+        gap: 0.5rem;
+    }
+    .settings-initials-input {
+        width: 4.5rem;
+        text-transform: uppercase;
+    }
+    .settings-label-input {
+        max-width: 16rem;
+        border-left-width: 6px;
+    }
+    .settings-sync-input {
+        max-width: 24rem;
+    }
+    .template-editor {
+        display: flex;
+        flex-direction: column;
+        gap: 0.75rem;
+        margin-bottom: 1rem;
+        padding: 1rem;
+        border: 1px solid var(--color-border);
+        border-radius: 0.5rem;
+        background-color: var(--color-bg-medium);
+    }
+    .template-editor .label-picker {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 0.5rem;
+    }
+    .template-due-input {
+        width: 6rem;
+    }
+    .template-summary {
+        flex: 1;
+        min-width: 0;
+        margin-bottom: 0;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+    }
+
+    /* Archive View */
+    .archive-view {
+        max-width: 800px;
+        margin: 2rem auto;
+        padding: 2rem;
+        background-color: var(--color-bg-dark);
+        border-radius: 0.75rem;
+        box-shadow: 0 10px 15px -3px var(--color-shadow);
+    }
+    .archive-toolbar {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 0.75rem;
+        margin-bottom: 1rem;
+    }
+    .archive-tabs {
+        display: flex;
+        gap: 0.25rem;
+    }
+    .archive-tab {
+        padding: 0.5rem 0.75rem;
+        border: none;
+        border-radius: 0.375rem;
+        background: transparent;
+        color: var(--color-text-medium);
+        font-size: 0.875rem;
+        cursor: pointer;
+    }
+    .archive-tab-active {
+        background-color: var(--color-secondary);
+        color: var(--color-text-dark);
+    }
+    .archive-search {
+        flex: 1;
+        min-width: 12rem;
+    }
+    .archive-list {
+        margin: 0;
+        padding: 0;
+        list-style: none;
+        display: flex;
+        flex-direction: column;
+        gap: 0.5rem;
+    }
+    .archive-item {
+        display: flex;
+        align-items: center;
+        gap: 0.75rem;
+        padding: 0.75rem;
+        border: 1px solid var(--color-border);
+        border-radius: 0.5rem;
+        background-color: var(--color-bg-medium);
+    }
+    .archive-item-info {
+        flex: 1;
+        min-width: 0;
+    }
+    .archive-item-title {
+        margin: 0;
+        font-weight: 600;
+        overflow-wrap: anywhere;
+    }
+    .archive-item-meta {
+        margin: 0.25rem 0 0;
+        font-size: 0.875rem;
+        color: var(--color-text-medium);
+    }
+    .archive-item-actions {
+        display: flex;
+        flex-shrink: 0;
+        gap: 0.5rem;
+    }
+    .archive-empty {
+        padding: 2rem 0;
+        text-align: center;
+        color: var(--color-text-medium);
+    }
+    .app-loading {
+        padding: 2rem;
+        text-align: center;
+        color: var(--color-text-medium);
+    }
     .settings-back-button-container {
         margin-top: 3rem;
         text-align: right;
@@ -1486,18 +14082,58 @@ const App: React.FC = () => {
             navbar-content
           "
         >
-          <span
+          <div
             className="
-              navbar-logo
+              navbar-brand
             "
           >
-            Kanban Board (Simulado)
-          </span>
+            <span
+              className="
+                navbar-logo
+              "
+            >
+              Kanban Board (Simulado)
+            </span>
+            <BoardSwitcher store={store} />
+          </div>
           <div
             className="
               navbar-links
             "
           >
+            {store.collabUrl && (
+              <CollabStatus
+                isConnected={store.isCollabConnected}
+                peers={store.collabPeers}
+              />
+            )}
+            {store.syncUrl && <SyncStatusIndicator status={store.syncStatus} />}
+            <Button
+              variant="ghost"
+              onClick={undo}
+              disabled={!store.canUndo}
+              aria-label="Desfazer (Ctrl+Z)"
+              title="Desfazer (Ctrl+Z)"
+            >
+              <Undo2
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={redo}
+              disabled={!store.canRedo}
+              aria-label="Refazer (Ctrl+Shift+Z)"
+              title="Refazer (Ctrl+Shift+Z)"
+            >
+              <Redo2
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
             <Button
               variant="ghost"
               onClick={() => setCurrentPage('board')}
@@ -1505,6 +14141,18 @@ const App: React.FC = () => {
             >
               Quadro
             </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setCurrentPage('archive')}
+              aria-label="Arquivo e lixeira"
+              title="Arquivo e lixeira"
+            >
+              <Archive
+                className="
+                  icon-sm
+                "
+              />
+            </Button>
             <Button
               variant="secondary"
               onClick={() => setCurrentPage('settings')}
@@ -1547,8 +14195,18 @@ const App: React.FC = () => {
           app-content
         "
       >
-        {currentPage === 'board' ? (
+        {!store.isLoaded ? (
+          <p
+            className="
+              app-loading
+            "
+          >
+            Carregando quadros...
+          </p>
+        ) : currentPage === 'board' ? (
           <BoardView store={store} />
+        ) : currentPage === 'archive' ? (
+          <ArchiveView store={store} setCurrentPage={setCurrentPage} />
         ) : (
           <SettingsView store={store} setCurrentPage={setCurrentPage} />
         )}